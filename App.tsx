@@ -1,147 +1,33 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { HashRouter as Router, Routes, Route, Navigate, Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import { HashRouter as Router, Routes, Route, Navigate, Link, useNavigate, useLocation, useSearchParams, useParams } from 'react-router-dom';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { Product, StoreSettings, CartItem, PaymentMethod, User, Voucher, Affiliate, Order, Customer } from './types';
-import { DataService } from './services/dataService';
+import { Product, ProductVariant, StoreSettings, CartItem, PaymentMethod, User, Voucher, Affiliate, Order, Customer, OrderStatus, DownloadLog, ReferralClick, AffiliatePayout, Commission, PayoutBatch, ProductReview } from './types';
+import { createRepositories, createSupabaseBackend, localBackend, localSession, localOutbox, localCarts, localStoreData, OutboxEntry, OutboxMutation, OutboxService, Repositories, Repository, SyncBase, SyncConflict, SyncService } from './repositories';
+import { OrderService, ORDER_STATUSES, ORDER_STATUS_LABELS, ORDER_STATUS_STYLES } from './services/orderService';
+import { TripayService, TripayTransaction, TripayPaymentRequest, TRIPAY_CHANNELS } from './services/tripayService';
+import { DownloadService, DownloadGrant, DEFAULT_DOWNLOAD_LIMIT, DEFAULT_DOWNLOAD_TTL_MINUTES } from './services/downloadService';
+import { CheckoutService, CheckoutRequest, PlacedOrder } from './services/checkoutService';
+import { CommissionService, COMMISSION_STATUS_LABELS, COMMISSION_STATUS_STYLES } from './services/commissionService';
+import { PayoutService, DEFAULT_PAYOUT_MINIMUM } from './services/payoutService';
+import { VoucherService } from './services/voucherService';
+import { PricingService } from './services/pricingService';
+import { CartService, CartChange } from './services/cartService';
+import { ProductService, LICENSE_TIERS } from './services/productService';
+import { CatalogService, CatalogQuery, CatalogSort, CATALOG_SORTS } from './services/catalogService';
+import { MarkdownService } from './services/markdownService';
+import { ReviewService, MAX_REVIEW_LENGTH, POPULAR_LIMIT } from './services/reviewService';
+import { InvoiceService } from './services/invoiceService';
+import { AnalyticsService, AnalyticsPeriod, AnalyticsGranularity, ANALYTICS_PERIODS, RankedItem } from './services/analyticsService';
+import { downloadCsv, parseCsv } from './services/csvUtils';
+import { ExportService, ExportTable } from './services/exportService';
+import { ImportService, ImportKind, ImportMapping, ImportRow, IMPORT_FIELDS } from './services/importService';
+import { PasswordService } from './services/passwordService';
+import { AuthService } from './services/authService';
+import { MigrationService, LATEST_SCHEMA_VERSION } from './services/migrationService';
+import { BackupService, BackupCheck, BackupData } from './services/backupService';
 import AdminSidebar from './components/AdminSidebar';
 
-// --- Constants ---
-
-const SUPABASE_SCHEMA = `-- Enable UUID extension
-create extension if not exists "uuid-ossp";
-
--- !!! RESET TABLES & POLICIES !!! 
-do $$ 
-begin
-  drop policy if exists "Public Access Products" on products;
-  drop policy if exists "Public Access Settings" on store_settings;
-  drop policy if exists "Public Access Payments" on payment_methods;
-  drop policy if exists "Public Access Vouchers" on vouchers;
-  drop policy if exists "Public Access Affiliates" on affiliates;
-  drop policy if exists "Public Access Orders" on orders;
-  drop policy if exists "Public Access Customers" on customers;
-exception when undefined_table then 
-  -- Do nothing
-end $$;
-
-drop table if exists products cascade;
-drop table if exists store_settings cascade;
-drop table if exists payment_methods cascade;
-drop table if exists vouchers cascade;
-drop table if exists affiliates cascade;
-drop table if exists orders cascade;
-drop table if exists customers cascade;
-
--- Create Products Table
-create table products (
-  id text primary key,
-  name text not null,
-  category text,
-  description text,
-  price numeric not null,
-  discount_price numeric,
-  image text,
-  file_url text,
-  is_popular boolean default false,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
-);
-
--- Create Store Settings Table
-create table store_settings (
-  id text primary key,
-  store_name text,
-  address text,
-  whatsapp text,
-  email text,
-  description text,
-  logo_url text,
-  tripay_api_key text,
-  tripay_private_key text,
-  tripay_merchant_code text,
-  admin_username text,
-  admin_password text,
-  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
-);
-
--- Create Payment Methods Table
-create table payment_methods (
-  id text primary key,
-  type text not null,
-  name text not null,
-  account_number text,
-  account_name text,
-  description text,
-  logo text,
-  is_active boolean default true,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
-);
-
--- Create Vouchers Table
-create table vouchers (
-  id text primary key,
-  code text not null unique,
-  type text not null check (type in ('FIXED', 'PERCENT')),
-  value numeric not null,
-  is_active boolean default true,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
-);
-
--- Create Affiliates Table
-create table affiliates (
-  id text primary key,
-  name text not null,
-  code text not null unique,
-  password text not null,
-  commission_rate numeric not null,
-  total_earnings numeric default 0,
-  bank_details text,
-  is_active boolean default true,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
-);
-
--- Create Customers Table
-create table customers (
-  id text primary key,
-  name text not null,
-  whatsapp text not null unique,
-  password text not null,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
-);
-
--- Create Orders Table
-create table orders (
-  id text primary key,
-  customer_name text,
-  customer_whatsapp text,
-  total numeric not null,
-  payment_method text,
-  status text default 'PENDING',
-  items jsonb,
-  voucher_code text,
-  discount_amount numeric,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
-);
-
--- Enable RLS
-alter table products enable row level security;
-alter table store_settings enable row level security;
-alter table payment_methods enable row level security;
-alter table vouchers enable row level security;
-alter table affiliates enable row level security;
-alter table orders enable row level security;
-alter table customers enable row level security;
-
--- Create Policies (Open access for simplicity in this demo)
-create policy "Public Access Products" on products for all using (true) with check (true);
-create policy "Public Access Settings" on store_settings for all using (true) with check (true);
-create policy "Public Access Payments" on payment_methods for all using (true) with check (true);
-create policy "Public Access Vouchers" on vouchers for all using (true) with check (true);
-create policy "Public Access Affiliates" on affiliates for all using (true) with check (true);
-create policy "Public Access Orders" on orders for all using (true) with check (true);
-create policy "Public Access Customers" on customers for all using (true) with check (true);
-`;
-
 // --- Helpers ---
 function generateUUID() {
     if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
@@ -163,6 +49,36 @@ const ensureUuid = (item: any) => {
     return item;
 };
 
+// Edge functions answer errors with { message }; supabase-js keeps that body on error.context
+const functionErrorMessage = async (error: any): Promise<string | undefined> => {
+    try { return (await error.context.json()).message; } catch { return error?.message; }
+};
+
+// Short two-tone chime for incoming orders; browsers may refuse audio before the first click, which is fine
+const playChime = () => {
+  try {
+    const ctx = new AudioContext();
+    [880, 1320].forEach((frequency, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, ctx.currentTime + i * 0.18);
+      gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + i * 0.18 + 0.3);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(ctx.currentTime + i * 0.18);
+      osc.stop(ctx.currentTime + i * 0.18 + 0.3);
+    });
+    setTimeout(() => ctx.close(), 1000);
+  } catch (e) { console.error(e); }
+};
+
+// Browser storage always mirrors the app state; Supabase repositories are layered on top when configured
+const localRepositories = createRepositories(localBackend);
+
+// Outbox entries name their table; these are the repositories they are sent through
+const repositoryByTable = (repos: Repositories): Record<string, Repository<any>> => Object.fromEntries(
+  [repos.products, repos.paymentMethods, repos.vouchers, repos.affiliates, repos.customers, repos.orders, repos.commissions, repos.payouts, repos.payoutBatches, repos.referralClicks, repos.reviews].map(repo => [repo.table, repo]));
+
 // --- Context & State ---
 
 const AppContext = React.createContext<{
@@ -177,11 +93,19 @@ const AppContext = React.createContext<{
   customers: Customer[];
   updateCustomers: (c: Customer[]) => void;
   orders: Order[];
-  addOrder: (o: Order) => void;
+  addOrder: (o: Order, c?: Commission) => void;
+  updateOrders: (o: Order[]) => void;
+  changeOrderStatus: (o: Order, to: OrderStatus) => void;
+  commissions: Commission[];
+  updateCommissions: (c: Commission[]) => void;
+  downloadLogs: DownloadLog[];
+  addDownloadLog: (l: DownloadLog) => void;
   cart: CartItem[];
-  addToCart: (p: Product) => void;
-  removeFromCart: (id: string) => void;
+  addToCart: (p: Product, variantId?: string) => boolean;
+  updateCartQuantity: (key: string, quantity: number) => void;
+  removeFromCart: (key: string) => void;
   clearCart: () => void;
+  revalidateCart: () => CartChange[];
   user: User | null;
   login: (role: 'ADMIN' | 'CUSTOMER' | 'AFFILIATE', name: string, id?: string, phone?: string) => void;
   logout: () => void;
@@ -189,11 +113,33 @@ const AppContext = React.createContext<{
   updatePayments: (p: PaymentMethod[]) => void;
   referralCode: string | null;
   setReferralCode: (code: string | null) => void;
+  referralClicks: ReferralClick[];
+  recordReferralClick: (code: string, landingPath: string) => void;
+  payouts: AffiliatePayout[];
+  updatePayouts: (p: AffiliatePayout[]) => void;
+  payoutBatches: PayoutBatch[];
+  updatePayoutBatches: (b: PayoutBatch[]) => void;
+  reviews: ProductReview[];
+  updateReviews: (r: ProductReview[]) => void;
+  saveReview: (r: ProductReview) => void;
+  updateBankDetails: (affiliateId: string, bankDetails: string) => void;
+  updatePassword: (role: User['role'], id: string, passwordHash: string) => void;
   supabase: SupabaseClient | null;
+  cloudRepositories: Repositories | null;
   isCloudConnected: boolean;
   debugDataCount: number;
   resetLocalData: () => void;
   fetchError: string | null;
+  schemaVersions: number[] | null;
+  checkSchema: () => void;
+  reloadCloudData: () => void;
+  syncConflicts: SyncConflict[];
+  resolveConflict: (c: SyncConflict, keep: 'local' | 'remote') => Promise<void>;
+  outbox: OutboxEntry[];
+  newOrders: Order[];
+  clearNewOrders: () => void;
+  retryOutbox: () => void;
+  discardFailedOutbox: () => void;
   saveNotification: string | null;
 } | null>(null);
 
@@ -203,38 +149,85 @@ const useAppContext = () => {
   return context;
 };
 
+// A referral code in the URL (?ref=CODE) attributes the visit to that affiliate
+const useReferralParam = () => {
+  const { setReferralCode, recordReferralClick, affiliates } = useAppContext();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const ref = searchParams.get('ref');
+  useEffect(() => { if (ref) { setReferralCode(ref); recordReferralClick(ref, location.pathname); } }, [ref, affiliates]);
+};
+
+// Sets the browser tab title while the page is shown. The store runs under HashRouter, so crawlers
+// and link previews only ever see index.html; per-product share tags would need server rendering.
+const usePageTitle = (title: string | null) => {
+  useEffect(() => {
+    if (!title) return;
+    const previousTitle = document.title;
+    document.title = title;
+    return () => { document.title = previousTitle; };
+  }, [title]);
+};
+
 // --- Components ---
 
-const ProductCard: React.FC<{ product: Product, onAdd: () => void }> = ({ product, onAdd }) => {
-  const discount = product.discountPrice ? Math.round(((product.price - product.discountPrice) / product.price) * 100) : 0;
+// Five stars, half stars for averages; clickable when onChange is given
+const StarRating: React.FC<{ value: number; onChange?: (rating: number) => void; className?: string }> = ({ value, onChange, className = 'text-xs' }) => (
+  <span className={`inline-flex gap-0.5 text-yellow-400 ${className}`}>
+    {[1, 2, 3, 4, 5].map(star => {
+      const icon = value >= star ? 'fas fa-star' : value >= star - 0.5 ? 'fas fa-star-half-alt' : 'far fa-star';
+      return onChange
+        ? <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} bintang`}><i className={icon}></i></button>
+        : <i key={star} className={icon}></i>;
+    })}
+  </span>
+);
+
+const ProductCard: React.FC<{ product: Product, onAdd: (variantId?: string) => void, savings?: number }> = ({ product, onAdd, savings = 0 }) => {
+  const { reviews } = useAppContext();
+  // License tiers: the shown price follows the selected variant (the cheapest until one is picked)
+  const [variantId, setVariantId] = useState<string>();
+  const variant = ProductService.variant(product, variantId) || ProductService.defaultVariant(product);
+  const selected = variant || product;
+  const discount = selected.discountPrice ? Math.round(((selected.price - selected.discountPrice) / selected.price) * 100) : 0;
+  const rating = ReviewService.summary(reviews, product.id);
   
   return (
     <div className="bg-dark-800 rounded-xl overflow-hidden shadow-lg border border-dark-700 hover:border-primary/50 transition-all group">
       <div className="relative h-48 overflow-hidden">
-        <img src={product.image} alt={product.name} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" />
+        <Link to={ProductService.path(product)}><img src={product.image} alt={product.name} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" /></Link>
         {discount > 0 && (
           <span className="absolute top-2 right-2 bg-red-500 text-white text-xs font-bold px-2 py-1 rounded-full">
             -{discount}%
           </span>
         )}
+        {product.isPopular && <span className="absolute top-2 left-2 bg-yellow-500 text-dark-900 text-xs font-bold px-2 py-1 rounded-full"><i className="fas fa-fire mr-1"></i>Populer</span>}
       </div>
       <div className="p-4">
         <div className="text-xs text-primary mb-1 font-semibold uppercase tracking-wider">{product.category}</div>
-        <h3 className="font-bold text-white mb-2 truncate">{product.name}</h3>
+        <Link to={ProductService.path(product)}><h3 className="font-bold text-white mb-2 truncate hover:text-primary">{product.name}</h3></Link>
+        {rating.count > 0 && <div className="flex items-center gap-1 mb-2 text-xs text-gray-400"><StarRating value={rating.average} /><span>{rating.average.toFixed(1)} ({rating.count})</span></div>}
+        {ProductService.isBundle(product) && <ul className="text-xs text-gray-400 mb-2 space-y-0.5">{product.bundleItems!.map(item => <li key={`${item.productId}:${item.variantId || ''}`} className="truncate"><i className="fas fa-check text-green-400 mr-1"></i>{item.name}</li>)}</ul>}
+        {savings > 0 && <div className="text-xs font-bold text-green-400 mb-2">Hemat Rp {savings.toLocaleString()}</div>}
         <div className="flex items-end justify-between mb-4">
           <div>
-            {product.discountPrice ? (
+            {selected.discountPrice ? (
               <div className="flex flex-col">
-                <span className="text-gray-400 line-through text-xs">Rp {product.price.toLocaleString()}</span>
-                <span className="text-lg font-bold text-white">Rp {product.discountPrice.toLocaleString()}</span>
+                <span className="text-gray-400 line-through text-xs">Rp {selected.price.toLocaleString()}</span>
+                <span className="text-lg font-bold text-white">Rp {selected.discountPrice.toLocaleString()}</span>
               </div>
             ) : (
-              <span className="text-lg font-bold text-white">Rp {product.price.toLocaleString()}</span>
+              <span className="text-lg font-bold text-white">Rp {selected.price.toLocaleString()}</span>
             )}
           </div>
         </div>
+        {ProductService.hasVariants(product) && (
+          <select value={variant?.id} onChange={e => setVariantId(e.target.value)} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm mb-3">
+            {product.variants!.map(v => <option key={v.id} value={v.id}>Lisensi {v.name} · Rp {(v.discountPrice || v.price).toLocaleString()}</option>)}
+          </select>
+        )}
         <button 
-          onClick={onAdd}
+          onClick={() => onAdd(variant?.id)}
           className="w-full bg-primary hover:bg-indigo-600 text-white py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
         >
           <i className="fas fa-shopping-cart"></i> Add to Cart
@@ -246,22 +239,78 @@ const ProductCard: React.FC<{ product: Product, onAdd: () => void }> = ({ produc
 
 // --- Admin Views ---
 
+// Paid and pending revenue per day/week, stacked; hover shows the figures
+const SalesChart: React.FC<{ points: ReturnType<typeof AnalyticsService.series> }> = ({ points }) => {
+  const max = Math.max(1, ...points.map(p => p.paid.revenue + p.pending.revenue));
+  const labelEvery = Math.ceil(points.length / 10);
+  if (points.length === 0) return <div className="h-48 flex items-center justify-center text-gray-500 text-sm">Belum ada pesanan pada periode ini.</div>;
+  return (
+    <div>
+      <div className="h-48 flex items-end gap-1">
+        {points.map(p => (
+          <div key={p.key} className="flex-1 h-full flex flex-col justify-end group relative" title={`${p.label}\nLunas: Rp ${p.paid.revenue.toLocaleString()} (${p.paid.orders})\nMenunggu: Rp ${p.pending.revenue.toLocaleString()} (${p.pending.orders})`}>
+            <div className="bg-yellow-500/60 rounded-t-sm" style={{ height: `${(p.pending.revenue / max) * 100}%` }}></div>
+            <div className={`bg-primary group-hover:bg-indigo-400 ${p.pending.revenue ? '' : 'rounded-t-sm'}`} style={{ height: `${(p.paid.revenue / max) * 100}%` }}></div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-2">{points.map((p, idx) => <div key={p.key} className="flex-1 text-[10px] text-gray-500 text-center truncate">{idx % labelEvery === 0 ? p.label : ''}</div>)}</div>
+    </div>
+  );
+};
+
+const RankedList: React.FC<{ title: string; items: RankedItem[] }> = ({ title, items }) => {
+  const max = Math.max(1, ...items.map(i => i.revenue));
+  return (
+    <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+      <h3 className="font-bold text-white mb-4">{title}</h3>
+      {items.length === 0 ? <p className="text-sm text-gray-500">Belum ada penjualan.</p> : <div className="space-y-3">{items.map(i => (
+        <div key={i.key}>
+          <div className="flex justify-between text-sm mb-1"><span className="text-gray-300 truncate mr-2">{i.name} <span className="text-xs text-gray-500">x{i.quantity}</span></span><span className="text-white font-medium whitespace-nowrap">Rp {i.revenue.toLocaleString()}</span></div>
+          <div className="h-1.5 bg-dark-900 rounded-full"><div className="h-full bg-primary rounded-full" style={{ width: `${(i.revenue / max) * 100}%` }}></div></div>
+        </div>
+      ))}</div>}
+    </div>
+  );
+};
+
 const AdminDashboard: React.FC = () => {
-  const { products, vouchers, affiliates, customers, isCloudConnected, fetchError } = useAppContext();
+  const { products, vouchers, affiliates, customers, orders, isCloudConnected, fetchError, outbox, retryOutbox, discardFailedOutbox } = useAppContext();
+  const { pending, failed } = OutboxService.counts(outbox);
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30d');
+  const [granularity, setGranularity] = useState<AnalyticsGranularity | null>(null); // null: chosen from the period
+  const range = useMemo(() => AnalyticsService.range(period), [period, orders]);
+  const chartGranularity = granularity || AnalyticsService.granularityFor(range, orders);
+  const sales = useMemo(() => AnalyticsService.summary(orders, range), [orders, range]);
+  const series = useMemo(() => AnalyticsService.series(orders, range, chartGranularity), [orders, range, chartGranularity]);
+  const topProducts = useMemo(() => AnalyticsService.topProducts(orders, range), [orders, range]);
+  const topCategories = useMemo(() => AnalyticsService.topCategories(orders, range), [orders, range]);
+  const buyers = sales.customers.new + sales.customers.returning;
+  const badgeStyle = !isCloudConnected ? 'bg-gray-500/10 text-gray-400 border-gray-500/30' : failed > 0 ? 'bg-red-500/10 text-red-400 border-red-500/30' : pending > 0 ? 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30' : 'bg-green-500/10 text-green-400 border-green-500/30';
+  const lastError = outbox.find(e => e.status === 'FAILED')?.lastError;
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
           <h2 className="text-2xl font-bold text-white">Dashboard</h2>
-          <div className={`px-3 py-1 rounded-full text-xs font-bold border ${isCloudConnected ? 'bg-green-500/10 text-green-400 border-green-500/30' : 'bg-gray-500/10 text-gray-400 border-gray-500/30'}`}>
+          <div className={`px-3 py-1 rounded-full text-xs font-bold border ${badgeStyle}`}>
               {isCloudConnected ? '● Cloud Connected' : '○ Local Mode'}
+              {pending > 0 && <span> · {pending} tertunda</span>}
+              {failed > 0 && <span> · {failed} gagal</span>}
           </div>
       </div>
 
+      {failed > 0 && (
+          <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg mb-6 text-red-400 text-sm flex flex-wrap justify-between items-center gap-3">
+              <span><strong>{failed} perubahan gagal dikirim ke cloud.</strong> {lastError}</span>
+              <div className="flex gap-2"><button onClick={retryOutbox} className="px-3 py-1 rounded bg-red-600 hover:bg-red-500 text-white text-xs font-bold"><i className="fas fa-redo mr-1"></i> Coba Lagi</button><button onClick={() => { if (confirm("Buang perubahan yang gagal? Data ini tidak akan dikirim ke cloud.")) discardFailedOutbox(); }} className="px-3 py-1 rounded bg-dark-700 hover:bg-dark-600 text-gray-300 text-xs font-bold">Buang</button></div>
+          </div>
+      )}
+
       {fetchError && (
           <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg mb-6 text-red-400 text-sm">
               <strong>Connection Error:</strong> {fetchError}
               <br/>
-              Saran: Masuk ke menu "Database & API" dan jalankan ulang SQL Schema.
+              Saran: Masuk ke menu "Database & API" dan jalankan migrasi yang tertunda.
           </div>
       )}
 
@@ -286,18 +335,134 @@ const AdminDashboard: React.FC = () => {
         </div>
         <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
            <div className="flex items-center justify-between">
-            <div><p className="text-gray-400 text-sm">Status Toko</p><h3 className="text-xl font-bold text-green-400 mt-1">Online</h3></div>
-             <div className="w-12 h-12 bg-green-500/20 rounded-full flex items-center justify-center text-green-500"><i className="fas fa-wifi text-xl"></i></div>
+            <div><p className="text-gray-400 text-sm">Voucher Aktif</p><h3 className="text-3xl font-bold text-white mt-1">{vouchers.filter(v => v.isActive).length}</h3></div>
+             <div className="w-12 h-12 bg-green-500/20 rounded-full flex items-center justify-center text-green-500"><i className="fas fa-ticket-alt text-xl"></i></div>
           </div>
         </div>
       </div>
+
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-3 mt-10 mb-4">
+        <h3 className="text-xl font-bold text-white">Penjualan</h3>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar">{ANALYTICS_PERIODS.map(p => <button key={p.value} onClick={() => { setPeriod(p.value); setGranularity(null); }} className={`px-3 py-1.5 rounded-full border text-xs whitespace-nowrap ${period === p.value ? 'bg-primary border-primary text-white' : 'bg-dark-800 border-dark-700 text-gray-400 hover:bg-dark-700'}`}>{p.label}</button>)}</div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-dark-800 p-4 rounded-xl border border-dark-700"><p className="text-gray-400 text-xs">Pendapatan Lunas</p><h4 className="text-xl font-bold text-white mt-1">Rp {sales.paid.revenue.toLocaleString()}</h4><p className="text-xs text-gray-500 mt-1">Tanpa pajak Rp {sales.paid.netRevenue.toLocaleString()}</p></div>
+        <div className="bg-dark-800 p-4 rounded-xl border border-dark-700"><p className="text-gray-400 text-xs">Pesanan Lunas</p><h4 className="text-xl font-bold text-white mt-1">{sales.paid.orders}</h4><p className="text-xs text-gray-500 mt-1">{sales.cancelled} dibatalkan</p></div>
+        <div className="bg-dark-800 p-4 rounded-xl border border-dark-700"><p className="text-gray-400 text-xs">Rata-rata Pesanan</p><h4 className="text-xl font-bold text-white mt-1">Rp {sales.paid.averageOrder.toLocaleString()}</h4><p className="text-xs text-gray-500 mt-1">dari pesanan lunas</p></div>
+        <div className="bg-dark-800 p-4 rounded-xl border border-yellow-500/30"><p className="text-yellow-400 text-xs">Menunggu Pembayaran</p><h4 className="text-xl font-bold text-white mt-1">Rp {sales.pending.revenue.toLocaleString()}</h4><p className="text-xs text-gray-500 mt-1">{sales.pending.orders} pesanan</p></div>
+      </div>
+      <div className="bg-dark-800 p-6 rounded-xl border border-dark-700 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex gap-4 text-xs text-gray-400"><span><span className="inline-block w-3 h-3 bg-primary rounded-sm mr-1 align-middle"></span>Lunas</span><span><span className="inline-block w-3 h-3 bg-yellow-500/60 rounded-sm mr-1 align-middle"></span>Menunggu</span></div>
+          <div className="flex bg-dark-900 rounded-lg p-1 text-xs">{(['day', 'week'] as const).map(g => <button key={g} onClick={() => setGranularity(g)} className={`px-3 py-1 rounded ${chartGranularity === g ? 'bg-dark-700 text-white' : 'text-gray-400'}`}>{g === 'day' ? 'Harian' : 'Mingguan'}</button>)}</div>
+        </div>
+        <SalesChart points={series} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <RankedList title="Produk Terlaris" items={topProducts} />
+        <RankedList title="Kategori Terlaris" items={topCategories} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700"><p className="text-gray-400 text-sm mb-1"><i className="fas fa-ticket-alt mr-2 text-green-500"></i>Biaya Voucher</p><h4 className="text-2xl font-bold text-white">Rp {sales.vouchers.cost.toLocaleString()}</h4><p className="text-xs text-gray-500 mt-1">{sales.vouchers.orders} pesanan lunas memakai voucher</p></div>
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700"><p className="text-gray-400 text-sm mb-1"><i className="fas fa-handshake mr-2 text-blue-500"></i>Pendapatan dari Afiliasi</p><h4 className="text-2xl font-bold text-white">Rp {sales.affiliates.revenue.toLocaleString()}</h4><p className="text-xs text-gray-500 mt-1">{sales.affiliates.orders} pesanan · {sales.affiliates.share}% dari pendapatan lunas</p></div>
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+          <p className="text-gray-400 text-sm mb-2"><i className="fas fa-users mr-2 text-purple-500"></i>Pembeli Baru vs Kembali</p>
+          <div className="flex justify-between text-sm"><span className="text-white font-bold">{sales.customers.new} baru</span><span className="text-white font-bold">{sales.customers.returning} kembali</span></div>
+          <div className="h-2 bg-dark-900 rounded-full my-2 overflow-hidden flex">{buyers > 0 && <><div className="bg-purple-500" style={{ width: `${(sales.customers.new / buyers) * 100}%` }}></div><div className="bg-blue-500 flex-1"></div></>}</div>
+          <div className="flex justify-between text-xs text-gray-500"><span>Rp {sales.customers.newRevenue.toLocaleString()}</span><span>Rp {sales.customers.returningRevenue.toLocaleString()}</span></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// The table is only built when a button is clicked
+const ExportButtons: React.FC<{ name: string; table: () => ExportTable; title?: string }> = ({ name, table, title }) => (
+  <div className="flex gap-2" title={title}>
+    {(['csv', 'xlsx'] as const).map(format => (
+      <button key={format} onClick={() => ExportService.download(name, table(), format)} className="px-3 py-2 rounded-lg border border-dark-700 text-gray-300 hover:text-white text-sm whitespace-nowrap"><i className={`fas ${format === 'csv' ? 'fa-file-csv' : 'fa-file-excel'} mr-2`}></i>{format === 'csv' ? 'CSV' : 'Excel'}</button>
+    ))}
+  </div>
+);
+
+const IMPORT_ACTION_LABELS = { create: 'Baru', update: 'Ubah', skip: 'Sama' };
+
+// File -> column mapping -> dry-run preview; nothing is saved until the admin confirms
+const ImportModal: React.FC<{ kind: ImportKind; onClose: () => void }> = ({ kind, onClose }) => {
+  const { products, updateProducts, customers, updateCustomers } = useAppContext();
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [isApplying, setIsApplying] = useState(false);
+  const fields = IMPORT_FIELDS[kind];
+  const header = table[0] || [];
+  const mappingError = table.length ? ImportService.validateMapping(kind, mapping) : null;
+
+  const rows = useMemo<ImportRow<Product | Customer>[]>(() => {
+    if (table.length < 2 || ImportService.validateMapping(kind, mapping)) return [];
+    return kind === 'products' ? ImportService.products(table, mapping, products, generateUUID) : ImportService.customers(table, mapping, customers, generateUUID);
+  }, [kind, table, mapping, products, customers]);
+  const counts = ImportService.count(rows);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const parsed = parseCsv(reader.result as string);
+      if (parsed.length < 2) return alert('File kosong atau hanya berisi judul kolom.');
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(ImportService.guessMapping(kind, parsed[0]));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleApply = async () => {
+    if (counts.invalid && !confirm(`${counts.invalid} baris bermasalah akan dilewati. Lanjutkan?`)) return;
+    setIsApplying(true);
+    try {
+      if (kind === 'products') updateProducts(ImportService.applyProducts(rows as ImportRow<Product>[], products));
+      else updateCustomers(await ImportService.applyCustomers(rows as ImportRow<Customer>[], customers));
+      alert(`Impor selesai: ${counts.create} baru, ${counts.update} diubah.`);
+      onClose();
+    } finally { setIsApplying(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="bg-dark-800 p-6 rounded-xl w-full max-w-4xl border border-dark-700 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold text-white">Impor {kind === 'products' ? 'Produk' : 'Pelanggan'}</h3><button onClick={onClose} className="text-gray-400 hover:text-white"><i className="fas fa-times"></i></button></div>
+        <p className="text-sm text-gray-400 mb-4">File CSV dengan baris pertama berisi judul kolom (dari Excel: Simpan Sebagai → CSV). {kind === 'products' ? 'Produk dicocokkan lewat ID, slug, lalu nama; sel kosong tidak mengubah data yang ada. Varian dan isi paket diatur di form produk.' : 'Pelanggan dicocokkan lewat ID lalu nomor WhatsApp; pelanggan baru wajib punya password.'}</p>
+        <label className="inline-block cursor-pointer bg-dark-900 border border-dark-700 hover:border-primary rounded-lg px-4 py-2 text-sm text-gray-300 mb-4"><i className="fas fa-upload mr-2"></i>{fileName || 'Pilih File CSV'}<input type="file" accept=".csv,.txt,text/csv" onChange={handleFile} className="hidden" /></label>
+        {table.length > 0 && (<>
+          <h4 className="font-bold text-white mb-2">Kolom</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">{fields.map(f => (
+            <div key={f.key}><label className="block text-xs text-gray-400 mb-1">{f.label}{f.required && <span className="text-red-400" title="Wajib untuk data baru"> *</span>}</label><select value={mapping[f.key] ?? -1} onChange={e => setMapping({ ...mapping, [f.key]: Number(e.target.value) })} className="w-full bg-dark-900 border border-dark-700 rounded px-2 py-1.5 text-white text-sm"><option value={-1}>— Tidak diimpor —</option>{header.map((h, idx) => <option key={idx} value={idx}>{h || `Kolom ${idx + 1}`}</option>)}</select></div>
+          ))}</div>
+          {mappingError ? <p className="text-sm text-red-400 mb-4">{mappingError}</p> : (<>
+            <div className="flex flex-wrap gap-2 mb-3 text-xs"><span className="px-2 py-1 rounded bg-green-500/20 text-green-400">{counts.create} baru</span><span className="px-2 py-1 rounded bg-blue-500/20 text-blue-400">{counts.update} diubah</span><span className="px-2 py-1 rounded bg-dark-700 text-gray-300">{counts.skip} tidak berubah</span><span className="px-2 py-1 rounded bg-red-500/20 text-red-400">{counts.invalid} bermasalah</span></div>
+            <div className="bg-dark-900 rounded-lg border border-dark-700 max-h-72 overflow-y-auto mb-4">
+              <table className="w-full text-left text-sm text-gray-400">
+                <thead className="text-gray-200 sticky top-0 bg-dark-900"><tr><th className="px-3 py-2">Baris</th><th className="px-3 py-2">{kind === 'products' ? 'Produk' : 'Pelanggan'}</th><th className="px-3 py-2">Aksi</th><th className="px-3 py-2">Keterangan</th></tr></thead>
+                <tbody className="divide-y divide-dark-700">{rows.map(r => (
+                  <tr key={r.line}><td className="px-3 py-2 font-mono">{r.line}</td><td className="px-3 py-2 text-white">{r.label}</td><td className="px-3 py-2"><span className={`text-xs px-2 py-0.5 rounded ${r.errors.length ? 'bg-red-500/20 text-red-400' : r.action === 'create' ? 'bg-green-500/20 text-green-400' : r.action === 'update' ? 'bg-blue-500/20 text-blue-400' : 'bg-dark-700 text-gray-300'}`}>{r.errors.length ? 'Error' : IMPORT_ACTION_LABELS[r.action]}</span></td><td className={`px-3 py-2 text-xs ${r.errors.length ? 'text-red-400' : ''}`}>{r.errors.length ? r.errors.join('; ') : r.changes.join(', ')}</td></tr>
+                ))}</tbody>
+              </table>
+            </div>
+          </>)}
+        </>)}
+        <div className="flex justify-end gap-4"><button onClick={onClose} className="text-gray-400">Batal</button><button onClick={handleApply} disabled={isApplying || !(counts.create + counts.update)} className="bg-primary text-white px-4 py-2 rounded-lg disabled:opacity-50">{isApplying ? 'Menyimpan...' : `Impor ${counts.create + counts.update} Baris`}</button></div>
+      </div>
     </div>
   );
 };
 
 const AdminProducts: React.FC = () => {
-  const { products, updateProducts } = useAppContext();
+  const { products, updateProducts, settings } = useAppContext();
   const [isEditing, setIsEditing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   const [currentProduct, setCurrentProduct] = useState<Partial<Product>>({});
 
   const availableCategories = useMemo(() => {
@@ -306,13 +471,35 @@ const AdminProducts: React.FC = () => {
     return Array.from(new Set([...defaults, ...fromProducts]));
   }, [products]);
 
+  const [isBundle, setIsBundle] = useState(false);
+  const variants = isBundle ? [] : currentProduct.variants || [];
+  const bundleItems = currentProduct.bundleItems || [];
+  // Bundles are made of regular products only
+  const bundleCandidates = products.filter(p => p.id !== currentProduct.id && !ProductService.isBundle(p));
+  const bundleValue = ProductService.bundleValue({ ...currentProduct, bundleItems } as Product, products);
+
+  const openEditor = (product: Partial<Product>) => { setCurrentProduct(product); setIsBundle(!!product.bundleItems?.length); setIsEditing(true); };
+
   const handleSave = () => {
-    if (!currentProduct.name || !currentProduct.price) return alert("Nama dan Harga wajib diisi");
+    if (!currentProduct.name || (!currentProduct.price && !variants.length)) return alert("Nama dan Harga wajib diisi");
+    const variantError = ProductService.validateVariants(variants);
+    if (variantError) return alert(variantError);
+    const bundleError = isBundle ? ProductService.validateBundle(bundleItems, bundleCandidates) : null;
+    if (bundleError) return alert(bundleError);
+    // An empty slug is made from the name
+    const slug = currentProduct.slug?.trim() || ProductService.uniqueSlug(currentProduct.name, products, currentProduct.id);
+    const slugError = ProductService.validateSlug(slug, products, currentProduct.id);
+    if (slugError) return alert(slugError);
+    const gallery = (currentProduct.gallery || []).map(url => url.trim()).filter(Boolean);
+    // A bundle has no files of its own; names are refreshed so order history shows the current ones
+    const kind: Partial<Product> = isBundle
+      ? { variants: [], fileUrl: '', bundleItems: bundleItems.map(i => ProductService.bundleItem(products.find(p => p.id === i.productId)!, i.variantId)) }
+      : { variants, bundleItems: [] };
     let newProducts = [...products];
     if (currentProduct.id) {
-      newProducts = newProducts.map(p => p.id === currentProduct.id ? { ...p, ...currentProduct } as Product : p);
+      newProducts = newProducts.map(p => p.id === currentProduct.id ? ProductService.withVariantPrice({ ...p, ...currentProduct, slug, gallery, ...kind } as Product) : p);
     } else {
-      newProducts.push({
+      newProducts.push(ProductService.withVariantPrice({
         id: generateUUID(),
         name: currentProduct.name!,
         price: Number(currentProduct.price),
@@ -321,15 +508,25 @@ const AdminProducts: React.FC = () => {
         image: currentProduct.image || `https://picsum.photos/400/400?random=${Date.now()}`,
         discountPrice: currentProduct.discountPrice ? Number(currentProduct.discountPrice) : undefined,
         fileUrl: currentProduct.fileUrl || '',
-      });
+        singleLicense: !!currentProduct.singleLicense,
+        isPopular: !!currentProduct.isPopular,
+        createdAt: new Date().toISOString(),
+        slug,
+        gallery,
+        previewUrl: currentProduct.previewUrl || undefined,
+        ...kind,
+      }));
     }
     updateProducts(newProducts);
     setIsEditing(false);
     setCurrentProduct({});
   };
 
-  const handleDelete = (id: string) => { if (confirm('Yakin hapus produk ini?')) updateProducts(products.filter(p => p.id !== id)); };
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, field: 'image' | 'fileUrl') => {
+  const handleDelete = (id: string) => {
+    const inBundles = products.filter(p => p.bundleItems?.some(i => i.productId === id));
+    if (confirm(inBundles.length ? `Produk ini ada di paket ${inBundles.map(p => p.name).join(', ')}. Tetap hapus?` : 'Yakin hapus produk ini?')) updateProducts(products.filter(p => p.id !== id));
+  };
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, field: 'image' | 'fileUrl' | 'previewUrl') => {
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
@@ -338,22 +535,48 @@ const AdminProducts: React.FC = () => {
     }
   };
   const isBase64 = (str: string) => str?.startsWith('data:');
+  const handleGalleryUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(e.target.files || []).forEach(file => {
+      const reader = new FileReader();
+      reader.onloadend = () => setCurrentProduct(prev => ({ ...prev, gallery: [...(prev.gallery || []), reader.result as string] }));
+      reader.readAsDataURL(file);
+    });
+  };
+
+  const updateVariant = (id: string, patch: Partial<ProductVariant>) => setCurrentProduct(prev => ({ ...prev, variants: (prev.variants || []).map(v => v.id === id ? { ...v, ...patch } : v) }));
+  const addVariant = () => setCurrentProduct(prev => {
+    const used = (prev.variants || []).map(v => v.name);
+    return { ...prev, variants: [...(prev.variants || []), { id: generateUUID(), name: LICENSE_TIERS.find(t => !used.includes(t)) || '', price: 0 }] };
+  });
+  const handleVariantFile = (e: React.ChangeEvent<HTMLInputElement>, id: string) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => updateVariant(id, { fileUrl: reader.result as string });
+      reader.readAsDataURL(file);
+    }
+  };
 
   return (
     <div className="p-6 pb-24">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-white">Manajemen Produk</h2>
-        <button onClick={() => { setCurrentProduct({}); setIsEditing(true); }} className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg"><i className="fas fa-plus mr-2"></i> Tambah Produk</button>
+        <div className="flex flex-wrap justify-end gap-2">
+          <ExportButtons name="produk" table={() => ExportService.products(products)} />
+          <button onClick={() => setIsImporting(true)} className="px-3 py-2 rounded-lg border border-dark-700 text-gray-300 hover:text-white text-sm"><i className="fas fa-file-import mr-2"></i>Impor</button>
+          <button onClick={() => openEditor({})} className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg"><i className="fas fa-plus mr-2"></i> Tambah Produk</button>
+        </div>
       </div>
+      {isImporting && <ImportModal kind="products" onClose={() => setIsImporting(false)} />}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {products.map(p => (
           <div key={p.id} className="bg-dark-800 rounded-lg p-4 border border-dark-700 flex flex-col">
             <img src={p.image} alt={p.name} className="w-full h-32 object-cover rounded-md mb-3" />
             <h3 className="font-bold text-white truncate">{p.name}</h3>
-            <p className="text-sm text-gray-400 mb-2">{p.category}</p>
+            <p className="text-sm text-gray-400 mb-2">{p.category}{ProductService.hasVariants(p) && ` · ${p.variants!.length} varian`}{ProductService.isBundle(p) && ` · paket ${p.bundleItems!.length} produk`}</p>
             <div className="flex justify-between items-center mt-auto">
               <span className="font-bold text-primary">Rp {p.price.toLocaleString()}</span>
-              <div className="space-x-2"><button onClick={() => { setCurrentProduct(p); setIsEditing(true); }} className="text-blue-400 hover:text-blue-300"><i className="fas fa-edit"></i></button><button onClick={() => handleDelete(p.id)} className="text-red-400 hover:text-red-300"><i className="fas fa-trash"></i></button></div>
+              <div className="space-x-2"><button onClick={() => openEditor(p)} className="text-blue-400 hover:text-blue-300"><i className="fas fa-edit"></i></button><button onClick={() => handleDelete(p.id)} className="text-red-400 hover:text-red-300"><i className="fas fa-trash"></i></button></div>
             </div>
           </div>
         ))}
@@ -364,16 +587,39 @@ const AdminProducts: React.FC = () => {
             <h3 className="text-xl font-bold text-white mb-4">{currentProduct.id ? 'Edit Produk' : 'Tambah Produk'}</h3>
             <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2 no-scrollbar">
               <div><label className="block text-sm text-gray-400 mb-1">Nama Produk</label><input type="text" value={currentProduct.name || ''} onChange={e => setCurrentProduct({...currentProduct, name: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+              <div><label className="block text-sm text-gray-400 mb-1">Slug URL</label><div className="flex items-center bg-dark-900 border border-dark-700 rounded-lg px-4"><span className="text-gray-500 text-sm">/product/</span><input type="text" value={currentProduct.slug || ''} onChange={e => setCurrentProduct({...currentProduct, slug: e.target.value.toLowerCase()})} placeholder={ProductService.uniqueSlug(currentProduct.name || '', products, currentProduct.id)} className="flex-1 bg-transparent py-2 text-white outline-none" /></div><p className="text-xs text-gray-500 mt-1">Kosongkan untuk dibuat otomatis dari nama.</p></div>
               <div className="grid grid-cols-2 gap-4">
                 <div><label className="block text-sm text-gray-400 mb-1">Kategori</label><input type="text" list="categories" value={currentProduct.category || ''} onChange={e => setCurrentProduct({...currentProduct, category: e.target.value})} placeholder="Pilih..." className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /><datalist id="categories">{availableCategories.map(cat => <option key={cat} value={cat} />)}</datalist></div>
                  <div><label className="block text-sm text-gray-400 mb-1">Gambar</label><div className="flex flex-col gap-2"><input type="file" accept="image/*" onChange={(e) => handleFileUpload(e, 'image')} className="block w-full text-xs text-gray-400 file:bg-primary file:text-white file:border-0 file:rounded-full file:px-3" /><input type="text" value={isBase64(currentProduct.image || '') ? '(Gambar terupload)' : currentProduct.image || ''} onChange={e => setCurrentProduct({...currentProduct, image: e.target.value})} disabled={isBase64(currentProduct.image || '')} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white text-xs" placeholder="URL Gambar" /></div></div>
               </div>
               <div className="grid grid-cols-2 gap-4">
-                 <div><label className="block text-sm text-gray-400 mb-1">Harga Normal</label><input type="number" value={currentProduct.price || ''} onChange={e => setCurrentProduct({...currentProduct, price: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
-                 <div><label className="block text-sm text-gray-400 mb-1">Harga Diskon</label><input type="number" value={currentProduct.discountPrice || ''} onChange={e => setCurrentProduct({...currentProduct, discountPrice: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+                 <div><label className="block text-sm text-gray-400 mb-1">Harga Normal</label><input type="number" value={currentProduct.price || ''} disabled={variants.length > 0} onChange={e => setCurrentProduct({...currentProduct, price: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white disabled:opacity-50" /></div>
+                 <div><label className="block text-sm text-gray-400 mb-1">Harga Diskon</label><input type="number" value={currentProduct.discountPrice || ''} disabled={variants.length > 0} onChange={e => setCurrentProduct({...currentProduct, discountPrice: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white disabled:opacity-50" /></div>
               </div>
-               <div><label className="block text-sm text-gray-400 mb-1">Deskripsi</label><textarea value={currentProduct.description || ''} onChange={e => setCurrentProduct({...currentProduct, description: e.target.value})} rows={3} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
-               <div><label className="block text-sm text-gray-400 mb-1">File Produk</label><div className="flex flex-col gap-2"><input type="file" onChange={(e) => handleFileUpload(e, 'fileUrl')} className="block w-full text-xs text-gray-400 file:bg-secondary file:text-white file:border-0 file:rounded-full file:px-3" /><input type="text" value={isBase64(currentProduct.fileUrl || '') ? '(File terupload)' : currentProduct.fileUrl || ''} onChange={e => setCurrentProduct({...currentProduct, fileUrl: e.target.value})} placeholder="Link..." disabled={isBase64(currentProduct.fileUrl || '')} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white text-sm" /></div></div>
+              <label className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={isBundle} onChange={e => setIsBundle(e.target.checked)} /> Paket (bundle) dari produk lain</label>
+              {isBundle ? (
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Isi Paket</label>
+                  <div className="bg-dark-900 border border-dark-700 rounded-lg p-3 space-y-2 max-h-56 overflow-y-auto">{bundleCandidates.map(p => {
+                    const included = bundleItems.find(i => i.productId === p.id);
+                    return (<div key={p.id} className="flex items-center gap-2 text-sm"><input type="checkbox" checked={!!included} onChange={e => setCurrentProduct({...currentProduct, bundleItems: e.target.checked ? [...bundleItems, ProductService.bundleItem(p, ProductService.defaultVariant(p)?.id)] : bundleItems.filter(i => i.productId !== p.id)})} /><span className="flex-1 text-gray-300 truncate">{p.name}</span>{included && ProductService.hasVariants(p) && <select value={included.variantId} onChange={e => setCurrentProduct({...currentProduct, bundleItems: bundleItems.map(i => i.productId === p.id ? ProductService.bundleItem(p, e.target.value) : i)})} className="bg-dark-800 border border-dark-700 rounded px-2 py-1 text-white text-xs">{p.variants!.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}</select>}</div>);
+                  })}</div>
+                  <p className="text-xs text-gray-500 mt-2">Nilai satuan Rp {bundleValue.toLocaleString()}{bundleValue > 0 && currentProduct.price ? ` · pembeli hemat Rp ${Math.max(0, bundleValue - (currentProduct.discountPrice || currentProduct.price)).toLocaleString()}` : ''}. Pembeli mendapat download setiap produk di dalam paket.</p>
+                </div>
+              ) : (
+                <div>
+                  <div className="flex justify-between items-center mb-1"><label className="text-sm text-gray-400">Varian Lisensi</label><button onClick={addVariant} className="text-xs text-primary hover:text-indigo-400"><i className="fas fa-plus mr-1"></i> Tambah Varian</button></div>
+                  {variants.length > 0 && <p className="text-xs text-gray-500 mb-2">Harga produk mengikuti varian termurah. Varian tanpa file memakai File Produk.</p>}
+                  <div className="space-y-2">{variants.map(v => (<div key={v.id} className="bg-dark-900 border border-dark-700 rounded-lg p-3 space-y-2"><div className="flex gap-2"><input list="license-tiers" value={v.name} onChange={e => updateVariant(v.id, { name: e.target.value })} placeholder="Nama varian" className="flex-1 bg-dark-800 border border-dark-700 rounded-lg px-3 py-1.5 text-white text-sm" /><button onClick={() => setCurrentProduct({...currentProduct, variants: variants.filter(x => x.id !== v.id)})} className="text-red-400 hover:text-red-300 px-2"><i className="fas fa-trash"></i></button></div><div className="grid grid-cols-2 gap-2"><input type="number" value={v.price || ''} onChange={e => updateVariant(v.id, { price: Number(e.target.value) })} placeholder="Harga" className="bg-dark-800 border border-dark-700 rounded-lg px-3 py-1.5 text-white text-sm" /><input type="number" value={v.discountPrice || ''} onChange={e => updateVariant(v.id, { discountPrice: Number(e.target.value) || undefined })} placeholder="Harga Diskon" className="bg-dark-800 border border-dark-700 rounded-lg px-3 py-1.5 text-white text-sm" /></div><div className="flex flex-col gap-2"><input type="file" onChange={e => handleVariantFile(e, v.id)} className="block w-full text-xs text-gray-400 file:bg-secondary file:text-white file:border-0 file:rounded-full file:px-3" /><input type="text" value={isBase64(v.fileUrl || '') ? '(File terupload)' : v.fileUrl || ''} onChange={e => updateVariant(v.id, { fileUrl: e.target.value })} disabled={isBase64(v.fileUrl || '')} placeholder="Link file varian (opsional)" className="bg-dark-800 border border-dark-700 rounded-lg px-3 py-1.5 text-white text-xs" /></div></div>))}</div>
+                  <datalist id="license-tiers">{LICENSE_TIERS.map(t => <option key={t} value={t} />)}</datalist>
+                </div>
+              )}
+               <label className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={!!currentProduct.isPopular} disabled={settings.autoPopular} onChange={e => setCurrentProduct({...currentProduct, isPopular: e.target.checked})} /> Label Populer{settings.autoPopular && <span className="text-xs text-gray-500">(otomatis, lihat Pengaturan)</span>}</label>
+               <label className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={!!currentProduct.singleLicense} onChange={e => setCurrentProduct({...currentProduct, singleLicense: e.target.checked})} /> Lisensi tunggal (maksimal 1 per pesanan)</label>
+               <div><label className="block text-sm text-gray-400 mb-1">Deskripsi</label><textarea value={currentProduct.description || ''} onChange={e => setCurrentProduct({...currentProduct, description: e.target.value})} rows={5} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /><p className="text-xs text-gray-500 mt-1">Mendukung Markdown: # judul, **tebal**, *miring*, - daftar, [teks](https://link).</p></div>
+               <div><label className="block text-sm text-gray-400 mb-1">Galeri</label><div className="flex flex-col gap-2"><input type="file" accept="image/*" multiple onChange={handleGalleryUpload} className="block w-full text-xs text-gray-400 file:bg-primary file:text-white file:border-0 file:rounded-full file:px-3" /><textarea value={(currentProduct.gallery || []).map(url => isBase64(url) ? '(Gambar terupload)' : url).join('\n')} onChange={e => setCurrentProduct({...currentProduct, gallery: e.target.value.split('\n').map((url, idx) => url === '(Gambar terupload)' ? currentProduct.gallery?.[idx] : url)})} rows={3} placeholder="Satu URL gambar per baris" className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white text-xs" /></div></div>
+               {!isBundle && <div><label className="block text-sm text-gray-400 mb-1">File Contoh (Preview)</label><div className="flex flex-col gap-2"><input type="file" onChange={(e) => handleFileUpload(e, 'previewUrl')} className="block w-full text-xs text-gray-400 file:bg-secondary file:text-white file:border-0 file:rounded-full file:px-3" /><input type="text" value={isBase64(currentProduct.previewUrl || '') ? '(File terupload)' : currentProduct.previewUrl || ''} onChange={e => setCurrentProduct({...currentProduct, previewUrl: e.target.value})} placeholder="Link contoh gratis (opsional)" disabled={isBase64(currentProduct.previewUrl || '')} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white text-sm" /></div></div>}
+               {!isBundle && <div><label className="block text-sm text-gray-400 mb-1">File Produk</label><div className="flex flex-col gap-2"><input type="file" onChange={(e) => handleFileUpload(e, 'fileUrl')} className="block w-full text-xs text-gray-400 file:bg-secondary file:text-white file:border-0 file:rounded-full file:px-3" /><input type="text" value={isBase64(currentProduct.fileUrl || '') ? '(File terupload)' : currentProduct.fileUrl || ''} onChange={e => setCurrentProduct({...currentProduct, fileUrl: e.target.value})} placeholder="Link..." disabled={isBase64(currentProduct.fileUrl || '')} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white text-sm" /></div></div>}
             </div>
             <div className="flex justify-end gap-4 mt-6"><button onClick={() => setIsEditing(false)} className="px-4 py-2 rounded-lg text-gray-400 hover:text-white">Batal</button><button onClick={handleSave} className="px-6 py-2 rounded-lg bg-primary hover:bg-indigo-600 text-white">Simpan</button></div>
           </div>
@@ -384,7 +630,8 @@ const AdminProducts: React.FC = () => {
 };
 
 const AdminCustomers: React.FC = () => {
-  const { customers, updateCustomers } = useAppContext();
+  const { customers, updateCustomers, orders } = useAppContext();
+  const [isImporting, setIsImporting] = useState(false);
 
   const handleDelete = (id: string) => {
     if (confirm('Yakin ingin menghapus akun pelanggan ini?')) {
@@ -394,7 +641,14 @@ const AdminCustomers: React.FC = () => {
 
   return (
     <div className="p-6 pb-24">
-      <h2 className="text-2xl font-bold text-white mb-6">Manajemen Pelanggan</h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-white">Manajemen Pelanggan</h2>
+        <div className="flex flex-wrap justify-end gap-2">
+          <ExportButtons name="pelanggan" table={() => ExportService.customers(customers, orders)} />
+          <button onClick={() => setIsImporting(true)} className="px-3 py-2 rounded-lg border border-dark-700 text-gray-300 hover:text-white text-sm"><i className="fas fa-file-import mr-2"></i>Impor</button>
+        </div>
+      </div>
+      {isImporting && <ImportModal kind="customers" onClose={() => setIsImporting(false)} />}
       <div className="bg-dark-800 rounded-xl border border-dark-700 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm text-gray-400">
@@ -416,49 +670,308 @@ const AdminCustomers: React.FC = () => {
   );
 };
 
+const AdminOrders: React.FC = () => {
+  const { orders, changeOrderStatus, downloadLogs, settings } = useAppContext();
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'ALL'>('ALL');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [customerQuery, setCustomerQuery] = useState('');
+  const [paymentFilter, setPaymentFilter] = useState('ALL');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const paymentOptions = useMemo(() => Array.from(new Set(orders.map(o => o.paymentMethod).filter(Boolean))), [orders]);
+
+  const filteredOrders = useMemo(() => {
+    const q = customerQuery.trim().toLowerCase();
+    // Date inputs are local dates; compare against the local start/end of day
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : null;
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : null;
+    return orders
+      .filter(o => statusFilter === 'ALL' || o.status === statusFilter)
+      .filter(o => paymentFilter === 'ALL' || o.paymentMethod === paymentFilter)
+      .filter(o => !q || o.customerName?.toLowerCase().includes(q) || o.customerWhatsapp?.includes(q))
+      .filter(o => {
+        const t = new Date(o.date).getTime();
+        return (from === null || t >= from) && (to === null || t <= to);
+      })
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [orders, statusFilter, paymentFilter, customerQuery, dateFrom, dateTo]);
+
+  const handleStatusChange = (order: Order, to: OrderStatus) => {
+    if (to === 'CANCELLED' && !confirm('Yakin batalkan pesanan ini?')) return;
+    try { changeOrderStatus(order, to); } catch (e: any) { alert(e.message); }
+  };
+
+  const resetFilters = () => { setStatusFilter('ALL'); setDateFrom(''); setDateTo(''); setCustomerQuery(''); setPaymentFilter('ALL'); };
+
+  return (
+    <div className="p-6 pb-24">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-white">Pesanan</h2>
+        <ExportButtons name="pesanan" table={() => ExportService.orders(filteredOrders)} title={`Ekspor ${filteredOrders.length} pesanan sesuai filter`} />
+      </div>
+      <div className="flex gap-2 mb-4 overflow-x-auto no-scrollbar">
+        {(['ALL', ...ORDER_STATUSES] as const).map(s => (
+          <button key={s} onClick={() => setStatusFilter(s)} className={`px-4 py-2 rounded-full border whitespace-nowrap text-sm transition-colors ${statusFilter === s ? 'bg-primary border-primary text-white' : 'bg-dark-800 border-dark-700 text-gray-400 hover:bg-dark-700'}`}>
+            {s === 'ALL' ? 'Semua' : ORDER_STATUS_LABELS[s]} <span className="opacity-60">({s === 'ALL' ? orders.length : orders.filter(o => o.status === s).length})</span>
+          </button>
+        ))}
+      </div>
+      <div className="bg-dark-800 p-4 rounded-xl border border-dark-700 mb-6 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div><label className="block text-xs text-gray-400 mb-1">Dari Tanggal</label><input type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm" /></div>
+        <div><label className="block text-xs text-gray-400 mb-1">Sampai Tanggal</label><input type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm" /></div>
+        <div><label className="block text-xs text-gray-400 mb-1">Pelanggan</label><input type="text" value={customerQuery} onChange={e => setCustomerQuery(e.target.value)} placeholder="Nama / No. WA" className="w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm" /></div>
+        <div><label className="block text-xs text-gray-400 mb-1">Metode Bayar</label><select value={paymentFilter} onChange={e => setPaymentFilter(e.target.value)} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm"><option value="ALL">Semua</option>{paymentOptions.map(pm => <option key={pm} value={pm}>{pm}</option>)}</select></div>
+        <div className="flex items-end"><button onClick={resetFilters} className="w-full px-3 py-2 rounded-lg border border-dark-700 text-gray-400 hover:text-white text-sm"><i className="fas fa-undo mr-2"></i>Reset</button></div>
+      </div>
+      <div className="bg-dark-800 rounded-xl border border-dark-700 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-400">
+            <thead className="bg-dark-900 text-gray-200 uppercase font-medium"><tr><th className="px-6 py-4">Tanggal</th><th className="px-6 py-4">Pelanggan</th><th className="px-6 py-4">Total</th><th className="px-6 py-4">Metode</th><th className="px-6 py-4">Status</th><th className="px-6 py-4 text-right">Aksi</th></tr></thead>
+            <tbody className="divide-y divide-dark-700">
+              {filteredOrders.length === 0 ? <tr><td colSpan={6} className="px-6 py-8 text-center">Tidak ada pesanan.</td></tr> : filteredOrders.map(o => (
+                <React.Fragment key={o.id}>
+                  <tr className="hover:bg-dark-700/50 cursor-pointer" onClick={() => setExpandedId(expandedId === o.id ? null : o.id)}>
+                    <td className="px-6 py-4 whitespace-nowrap">{new Date(o.date).toLocaleString()}{o.invoiceNumber && <div className="font-mono text-xs text-gray-500">{o.invoiceNumber}</div>}</td>
+                    <td className="px-6 py-4"><div className="font-bold text-white">{o.customerName}</div><div className="font-mono text-xs">{o.customerWhatsapp}</div></td>
+                    <td className="px-6 py-4 font-bold text-white whitespace-nowrap">Rp {o.total.toLocaleString()}</td>
+                    <td className="px-6 py-4">{o.paymentMethod}</td>
+                    <td className="px-6 py-4"><span className={`text-xs font-bold px-2 py-1 rounded whitespace-nowrap ${ORDER_STATUS_STYLES[o.status]}`}>{ORDER_STATUS_LABELS[o.status]}</span></td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap" onClick={e => e.stopPropagation()}>
+                      {OrderService.nextStatuses(o.status).map(next => (
+                        <button key={next} onClick={() => handleStatusChange(o, next)} className={`ml-2 text-xs font-bold px-3 py-1 rounded-lg border ${next === 'CANCELLED' ? 'border-red-500/30 text-red-400 hover:bg-red-500/10' : 'border-primary/30 text-primary hover:bg-primary/10'}`}>
+                          {next === 'PAID' ? 'Tandai Dibayar' : next === 'COMPLETED' ? 'Selesaikan' : 'Batalkan'}
+                        </button>
+                      ))}
+                    </td>
+                  </tr>
+                  {expandedId === o.id && (
+                    <tr className="bg-dark-900/50">
+                      <td colSpan={6} className="px-6 py-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <div>
+                            <h4 className="font-bold text-white mb-2">Item</h4>
+                            {o.items.map((item, idx) => <div key={idx} className="flex justify-between"><span>{CartService.displayName(item)} x{item.quantity} {item.bundleItems?.length ? <span className="text-xs text-gray-500 ml-1" title="Jumlah download per produk">({item.bundleItems.map(b => `${b.name}: ${DownloadService.downloadCount(downloadLogs, o.id, b.productId, b.variantId)}`).join(', ')})</span> : <span className="text-xs text-gray-500 ml-1" title="Jumlah download"><i className="fas fa-download"></i> {DownloadService.downloadCount(downloadLogs, o.id, item.id, item.variantId)}</span>}</span><span>Rp {((item.discountPrice || item.price) * item.quantity).toLocaleString()}</span></div>)}
+                            {o.voucherCode && <div className="text-green-400 mt-2">Voucher: {o.voucherCode} (-Rp {o.discountAmount?.toLocaleString()})</div>}
+                            {o.taxAmount > 0 && <div className="text-gray-400 mt-1">{o.pricing?.taxLabel || 'Pajak'}{o.pricing ? ` ${o.pricing.taxRate}%` : ''}: Rp {o.taxAmount.toLocaleString()}</div>}
+                            <div className="font-mono text-xs mt-2 text-gray-500">ID: {o.id}</div>
+                            {o.invoiceNumber ? <button onClick={() => InvoiceService.open(o, settings)} className="mt-3 text-xs font-bold px-3 py-1 rounded-lg border border-primary/30 text-primary hover:bg-primary/10"><i className="fas fa-file-invoice mr-1"></i> Invoice {o.invoiceNumber}</button> : OrderService.isPaid(o) && <div className="text-xs text-gray-500 mt-2">Nomor invoice sedang dibuat...</div>}
+                          </div>
+                          <div>
+                            <h4 className="font-bold text-white mb-2">Riwayat Status</h4>
+                            {(o.statusHistory || []).length === 0 ? <p className="text-gray-500">Belum ada perubahan status.</p> : (o.statusHistory || []).map((h, idx) => (
+                              <div key={idx} className="text-xs mb-1"><span className="text-gray-300">{ORDER_STATUS_LABELS[h.from]} → {ORDER_STATUS_LABELS[h.to]}</span> <span className="text-gray-500">oleh {h.changedBy}, {new Date(h.changedAt).toLocaleString()}</span></div>
+                            ))}
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const AdminVouchers: React.FC = () => {
-  const { vouchers, updateVouchers } = useAppContext();
+  const { vouchers, updateVouchers, products, orders } = useAppContext();
   const [isEditing, setIsEditing] = useState(false);
   const [currentVoucher, setCurrentVoucher] = useState<Partial<Voucher>>({});
+  const [viewing, setViewing] = useState<Voucher | null>(null);
+  const categories = Array.from(new Set(products.map(p => p.category)));
+
+  // datetime-local inputs work in local time without a zone; vouchers store ISO timestamps
+  const toInput = (iso?: string) => iso ? new Date(new Date(iso).getTime() - new Date(iso).getTimezoneOffset() * 60000).toISOString().slice(0, 16) : '';
+  const fromInput = (value: string) => value ? new Date(value).toISOString() : undefined;
+  const optionalNumber = (value: string) => value === '' ? undefined : Number(value);
+  const toggle = (list: string[] | undefined, value: string) => (list || []).includes(value) ? (list || []).filter(x => x !== value) : [...(list || []), value];
+
   const handleSave = () => {
     if (!currentVoucher.code || !currentVoucher.value) return alert("Wajib diisi");
-    let newVouchers = [...vouchers];
-    if (currentVoucher.id) newVouchers = newVouchers.map(v => v.id === currentVoucher.id ? { ...v, ...currentVoucher } as Voucher : v);
-    else newVouchers.push({ id: generateUUID(), code: currentVoucher.code.toUpperCase(), type: currentVoucher.type || 'FIXED', value: Number(currentVoucher.value), isActive: true });
-    updateVouchers(newVouchers); setIsEditing(false); setCurrentVoucher({});
+    const voucher = { ...currentVoucher, id: currentVoucher.id || generateUUID(), code: currentVoucher.code.toUpperCase(), type: currentVoucher.type || 'FIXED', value: Number(currentVoucher.value), isActive: currentVoucher.isActive !== false } as Voucher;
+    if (voucher.type === 'PERCENT' && voucher.value > 100) return alert("Persen maksimal 100");
+    if (voucher.startsAt && voucher.endsAt && voucher.endsAt <= voucher.startsAt) return alert("Tanggal berakhir harus setelah tanggal mulai");
+    if (vouchers.some(v => v.code === voucher.code && v.id !== voucher.id)) return alert("Kode voucher sudah dipakai");
+    updateVouchers(currentVoucher.id ? vouchers.map(v => v.id === voucher.id ? voucher : v) : [...vouchers, voucher]);
+    setIsEditing(false); setCurrentVoucher({});
   };
+
+  const redemptions = viewing ? VoucherService.redemptions(viewing, orders) : [];
+
   return (
     <div className="p-6 pb-24">
-       <div className="flex justify-between items-center mb-6"><h2 className="text-2xl font-bold text-white">Voucher</h2><button onClick={() => { setCurrentVoucher({ type: 'FIXED', isActive: true }); setIsEditing(true); }} className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg"><i className="fas fa-plus mr-2"></i> Buat</button></div>
-      <div className="bg-dark-800 rounded-xl border border-dark-700 overflow-hidden">
+       <div className="flex justify-between items-center mb-6"><h2 className="text-2xl font-bold text-white">Voucher</h2><div className="flex gap-2"><ExportButtons name="voucher" table={() => ExportService.vouchers(vouchers, products, orders)} /><button onClick={() => { setCurrentVoucher({ type: 'FIXED', isActive: true }); setIsEditing(true); }} className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg"><i className="fas fa-plus mr-2"></i> Buat</button></div></div>
+      <div className="bg-dark-800 rounded-xl border border-dark-700 overflow-x-auto">
         <table className="w-full text-left text-sm text-gray-400">
-            <thead className="bg-dark-900 text-gray-200"><tr><th className="px-6 py-4">Kode</th><th className="px-6 py-4">Tipe</th><th className="px-6 py-4">Nilai</th><th className="px-6 py-4">Status</th><th className="px-6 py-4 text-right">Aksi</th></tr></thead>
-            <tbody className="divide-y divide-dark-700">{vouchers.map(v => (<tr key={v.id} className="hover:bg-dark-700/50"><td className="px-6 py-4 font-bold text-white">{v.code}</td><td className="px-6 py-4">{v.type}</td><td className="px-6 py-4">{v.value}</td><td className="px-6 py-4">{v.isActive ? 'Aktif' : 'Off'}</td><td className="px-6 py-4 text-right"><button onClick={() => { setCurrentVoucher(v); setIsEditing(true); }} className="text-blue-400 mr-2"><i className="fas fa-edit"></i></button><button onClick={() => updateVouchers(vouchers.filter(x => x.id !== v.id))} className="text-red-400"><i className="fas fa-trash"></i></button></td></tr>))}</tbody>
+            <thead className="bg-dark-900 text-gray-200"><tr><th className="px-6 py-4">Kode</th><th className="px-6 py-4">Nilai</th><th className="px-6 py-4">Aturan</th><th className="px-6 py-4">Dipakai</th><th className="px-6 py-4">Status</th><th className="px-6 py-4 text-right">Aksi</th></tr></thead>
+            <tbody className="divide-y divide-dark-700">{vouchers.map(v => (<tr key={v.id} className="hover:bg-dark-700/50"><td className="px-6 py-4 font-bold text-white">{v.code}</td><td className="px-6 py-4 whitespace-nowrap">{v.type === 'PERCENT' ? `${v.value}%` : `Rp ${v.value.toLocaleString()}`}</td><td className="px-6 py-4"><div className="flex flex-wrap gap-1">{VoucherService.describeRules(v).map(rule => <span key={rule} className="text-xs bg-dark-700 text-gray-300 px-2 py-0.5 rounded">{rule}</span>)}</div></td><td className="px-6 py-4 whitespace-nowrap">{VoucherService.usageCount(v, orders)}{v.usageLimit ? ` / ${v.usageLimit}` : ''}</td><td className="px-6 py-4">{v.isActive ? 'Aktif' : 'Off'}</td><td className="px-6 py-4 text-right whitespace-nowrap"><button onClick={() => setViewing(v)} className="text-gray-300 mr-2" title="Riwayat pemakaian"><i className="fas fa-list"></i></button><button onClick={() => { setCurrentVoucher(v); setIsEditing(true); }} className="text-blue-400 mr-2"><i className="fas fa-edit"></i></button><button onClick={() => updateVouchers(vouchers.filter(x => x.id !== v.id))} className="text-red-400"><i className="fas fa-trash"></i></button></td></tr>))}</tbody>
         </table>
       </div>
-      {isEditing && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"><div className="bg-dark-800 p-6 rounded-xl w-full max-w-md border border-dark-700"><h3 className="text-xl font-bold text-white mb-4">Voucher</h3><div className="space-y-4"><input type="text" placeholder="Kode" value={currentVoucher.code || ''} onChange={e => setCurrentVoucher({...currentVoucher, code: e.target.value.toUpperCase()})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /><select value={currentVoucher.type || 'FIXED'} onChange={e => setCurrentVoucher({...currentVoucher, type: e.target.value as any})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white"><option value="FIXED">Rp</option><option value="PERCENT">%</option></select><input type="number" placeholder="Nilai" value={currentVoucher.value || ''} onChange={e => setCurrentVoucher({...currentVoucher, value: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /></div><div className="flex justify-end gap-4 mt-6"><button onClick={() => setIsEditing(false)} className="text-gray-400">Batal</button><button onClick={handleSave} className="bg-primary text-white px-4 py-2 rounded-lg">Simpan</button></div></div></div>)}
+      {viewing && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"><div className="bg-dark-800 p-6 rounded-xl w-full max-w-2xl border border-dark-700 max-h-[90vh] overflow-y-auto"><div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold text-white">Pemakaian {viewing.code}</h3><button onClick={() => setViewing(null)} className="text-gray-400 hover:text-white"><i className="fas fa-times"></i></button></div><p className="text-sm text-gray-400 mb-4">{redemptions.length} kali dipakai · total diskon Rp {redemptions.reduce((sum, o) => sum + (o.discountAmount || 0), 0).toLocaleString()}</p>{redemptions.length === 0 ? <p className="text-gray-500 text-sm">Belum pernah dipakai.</p> : <table className="w-full text-left text-sm text-gray-400"><thead className="text-gray-200"><tr><th className="py-2">Tanggal</th><th className="py-2">Pelanggan</th><th className="py-2">Diskon</th><th className="py-2">Status</th></tr></thead><tbody className="divide-y divide-dark-700">{redemptions.map(o => (<tr key={o.id}><td className="py-2">{new Date(o.date).toLocaleDateString('id-ID')}</td><td className="py-2 text-white">{o.customerName}</td><td className="py-2">Rp {(o.discountAmount || 0).toLocaleString()}</td><td className="py-2"><span className={`px-2 py-0.5 rounded text-xs ${ORDER_STATUS_STYLES[o.status]}`}>{ORDER_STATUS_LABELS[o.status]}</span></td></tr>))}</tbody></table>}</div></div>)}
+      {isEditing && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"><div className="bg-dark-800 p-6 rounded-xl w-full max-w-lg border border-dark-700 max-h-[90vh] overflow-y-auto"><h3 className="text-xl font-bold text-white mb-4">Voucher</h3><div className="space-y-4">
+        <input type="text" placeholder="Kode" value={currentVoucher.code || ''} onChange={e => setCurrentVoucher({...currentVoucher, code: e.target.value.toUpperCase()})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" />
+        <div className="grid grid-cols-2 gap-4"><select value={currentVoucher.type || 'FIXED'} onChange={e => setCurrentVoucher({...currentVoucher, type: e.target.value as any})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white"><option value="FIXED">Rp</option><option value="PERCENT">%</option></select><input type="number" placeholder="Nilai" value={currentVoucher.value || ''} onChange={e => setCurrentVoucher({...currentVoucher, value: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /></div>
+        <div className="grid grid-cols-2 gap-4"><div><label className="block text-xs text-gray-400 mb-1">Mulai</label><input type="datetime-local" value={toInput(currentVoucher.startsAt)} onChange={e => setCurrentVoucher({...currentVoucher, startsAt: fromInput(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-3 py-2 text-white text-sm" /></div><div><label className="block text-xs text-gray-400 mb-1">Berakhir</label><input type="datetime-local" value={toInput(currentVoucher.endsAt)} onChange={e => setCurrentVoucher({...currentVoucher, endsAt: fromInput(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-3 py-2 text-white text-sm" /></div></div>
+        <div className="grid grid-cols-2 gap-4"><div><label className="block text-xs text-gray-400 mb-1">Minimal Belanja (Rp)</label><input type="number" value={currentVoucher.minSubtotal ?? ''} onChange={e => setCurrentVoucher({...currentVoucher, minSubtotal: optionalNumber(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-3 py-2 text-white" /></div>{currentVoucher.type === 'PERCENT' && <div><label className="block text-xs text-gray-400 mb-1">Maksimal Diskon (Rp)</label><input type="number" value={currentVoucher.maxDiscount ?? ''} onChange={e => setCurrentVoucher({...currentVoucher, maxDiscount: optionalNumber(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-3 py-2 text-white" /></div>}</div>
+        <div className="grid grid-cols-2 gap-4"><div><label className="block text-xs text-gray-400 mb-1">Kuota Total</label><input type="number" placeholder="Tanpa batas" value={currentVoucher.usageLimit ?? ''} onChange={e => setCurrentVoucher({...currentVoucher, usageLimit: optionalNumber(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-3 py-2 text-white" /></div><div><label className="block text-xs text-gray-400 mb-1">Batas per Pelanggan</label><input type="number" placeholder="Tanpa batas" value={currentVoucher.perCustomerLimit ?? ''} onChange={e => setCurrentVoucher({...currentVoucher, perCustomerLimit: optionalNumber(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-3 py-2 text-white" /></div></div>
+        <div><label className="block text-xs text-gray-400 mb-1">Berlaku untuk Kategori <span className="text-gray-600">(kosong = semua)</span></label><div className="flex flex-wrap gap-2">{categories.map(c => <button key={c} type="button" onClick={() => setCurrentVoucher({...currentVoucher, categories: toggle(currentVoucher.categories, c)})} className={`px-3 py-1 rounded-full text-xs border ${currentVoucher.categories?.includes(c) ? 'bg-primary/20 border-primary text-white' : 'border-dark-700 text-gray-400'}`}>{c}</button>)}</div></div>
+        <div><label className="block text-xs text-gray-400 mb-1">Berlaku untuk Produk</label><div className="max-h-32 overflow-y-auto bg-dark-900 border border-dark-700 rounded p-2 space-y-1">{products.map(p => <label key={p.id} className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={!!currentVoucher.productIds?.includes(p.id)} onChange={() => setCurrentVoucher({...currentVoucher, productIds: toggle(currentVoucher.productIds, p.id)})} className="accent-primary" />{p.name}</label>)}</div></div>
+        <label className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={currentVoucher.isActive !== false} onChange={e => setCurrentVoucher({...currentVoucher, isActive: e.target.checked})} className="accent-primary" /> Aktif</label>
+      </div><div className="flex justify-end gap-4 mt-6"><button onClick={() => setIsEditing(false)} className="text-gray-400">Batal</button><button onClick={handleSave} className="bg-primary text-white px-4 py-2 rounded-lg">Simpan</button></div></div></div>)}
     </div>
   );
 };
 
 const AdminAffiliates: React.FC = () => {
-  const { affiliates, updateAffiliates } = useAppContext();
+  const { affiliates, updateAffiliates, commissions, updateCommissions, payouts, updatePayouts, payoutBatches, updatePayoutBatches, user } = useAppContext();
   const [isEditing, setIsEditing] = useState(false);
   const [currentAff, setCurrentAff] = useState<Partial<Affiliate>>({});
-  const handleSave = () => {
+  const [newPassword, setNewPassword] = useState('');
+  const [minimumPayout, setMinimumPayout] = useState(DEFAULT_PAYOUT_MINIMUM);
+  const [expandedBatch, setExpandedBatch] = useState<string | null>(null);
+  const ledger = useMemo(() => [...commissions].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()), [commissions]);
+  const batches = useMemo(() => [...payoutBatches].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()), [payoutBatches]);
+  const payableTotal = PayoutService.payable(commissions).reduce((sum, c) => sum + c.amount, 0);
+
+  const handleCreateBatch = () => {
+    const draft = PayoutService.createDraft(commissions, affiliates, minimumPayout, user?.name || 'Admin', generateUUID);
+    const skippedInfo = draft.skipped.map(s => `- ${s.affiliate.name}: Rp ${s.amount.toLocaleString()} (${s.reason})`).join('\n');
+    if (draft.payouts.length === 0) return alert('Tidak ada komisi yang memenuhi syarat.' + (skippedInfo ? `\n\nDilewati:\n${skippedInfo}` : ''));
+    updatePayoutBatches([draft.batch, ...payoutBatches]);
+    updatePayouts([...draft.payouts, ...payouts]);
+    updateCommissions(draft.commissions);
+    setExpandedBatch(draft.batch.id);
+    if (skippedInfo) alert(`Batch dibuat. Dilewati:\n${skippedInfo}`);
+  };
+
+  const handleConfirmBatch = (batch: PayoutBatch) => {
+    // Commissions voided since the batch was made are not paid
+    const current = PayoutService.reconcile(batch, payouts, commissions);
+    if (!current.payouts.some(p => p.batchId === batch.id && p.status === 'PENDING')) return alert('Semua komisi di batch ini sudah dibatalkan. Batalkan batch ini.');
+    const releasedInfo = current.released.length ? `\n\n${current.released.length} komisi yang sudah dibatalkan dikeluarkan dari batch.` : '';
+    if (!confirm(`Konfirmasi transfer Rp ${current.batch.totalAmount.toLocaleString()} sudah dilakukan? Komisi akan ditandai dibayar.${releasedInfo}`)) return;
+    const result = PayoutService.confirm(batch, payouts, commissions, user?.name || 'Admin');
+    updatePayoutBatches(payoutBatches.map(b => b.id === batch.id ? result.batch : b));
+    updatePayouts(result.payouts);
+    updateCommissions(result.commissions);
+  };
+
+  const handleCancelBatch = (batch: PayoutBatch) => {
+    if (!confirm('Batalkan batch ini? Komisi akan dikembalikan ke saldo yang bisa dibayar.')) return;
+    const result = PayoutService.cancel(batch, payouts, commissions);
+    updatePayoutBatches(payoutBatches.map(b => b.id === batch.id ? result.batch : b));
+    updatePayouts(result.payouts);
+    updateCommissions(result.commissions);
+  };
+
+  const handleExportBatch = (batch: PayoutBatch) => downloadCsv(`payout-${batch.createdAt.slice(0, 10)}-${batch.id.slice(0, 8)}.csv`, PayoutService.toBankCsv(batch, PayoutService.reconcile(batch, payouts, commissions).payouts, affiliates));
+
+  const handleSave = async () => {
     if (!currentAff.name || !currentAff.code) return alert("Data wajib diisi");
+    // Blank keeps the existing password; new partners fall back to the default "123"
+    const password = newPassword ? await PasswordService.hash(newPassword) : currentAff.password || await PasswordService.hash('123');
     let newAffs = [...affiliates];
-    if (currentAff.id) newAffs = newAffs.map(a => a.id === currentAff.id ? { ...a, ...currentAff } as Affiliate : a);
-    else newAffs.push({ id: generateUUID(), name: currentAff.name!, code: currentAff.code!.toUpperCase(), password: currentAff.password || '123', commissionRate: Number(currentAff.commissionRate || 10), totalEarnings: 0, bankDetails: currentAff.bankDetails || '', isActive: true });
-    updateAffiliates(newAffs); setIsEditing(false); setCurrentAff({});
+    if (currentAff.id) newAffs = newAffs.map(a => a.id === currentAff.id ? { ...a, ...currentAff, password } as Affiliate : a);
+    else newAffs.push({ id: generateUUID(), name: currentAff.name!, code: currentAff.code!.toUpperCase(), password, commissionRate: Number(currentAff.commissionRate || 10), totalEarnings: 0, bankDetails: currentAff.bankDetails || '', isActive: true });
+    updateAffiliates(newAffs); setIsEditing(false); setCurrentAff({}); setNewPassword('');
   };
   return (
     <div className="p-6 pb-24">
        <div className="flex justify-between items-center mb-6"><h2 className="text-2xl font-bold text-white">Afiliasi</h2><button onClick={() => { setCurrentAff({ commissionRate: 10, isActive: true }); setIsEditing(true); }} className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg"><i className="fas fa-user-plus mr-2"></i> Partner</button></div>
       <div className="bg-dark-800 rounded-xl border border-dark-700 overflow-hidden">
-        <table className="w-full text-left text-sm text-gray-400"><thead className="bg-dark-900 text-gray-200"><tr><th className="px-6 py-4">Partner</th><th className="px-6 py-4">Kode</th><th className="px-6 py-4">Komisi</th><th className="px-6 py-4 text-right">Aksi</th></tr></thead><tbody className="divide-y divide-dark-700">{affiliates.map(a => (<tr key={a.id} className="hover:bg-dark-700/50"><td className="px-6 py-4 font-bold text-white">{a.name}</td><td className="px-6 py-4">{a.code}</td><td className="px-6 py-4">{a.commissionRate}%</td><td className="px-6 py-4 text-right"><button onClick={() => { setCurrentAff(a); setIsEditing(true); }} className="text-blue-400 mr-2"><i className="fas fa-edit"></i></button><button onClick={() => updateAffiliates(affiliates.filter(x => x.id !== a.id))} className="text-red-400"><i className="fas fa-trash"></i></button></td></tr>))}</tbody></table>
+        <table className="w-full text-left text-sm text-gray-400"><thead className="bg-dark-900 text-gray-200"><tr><th className="px-6 py-4">Partner</th><th className="px-6 py-4">Kode</th><th className="px-6 py-4">Komisi</th><th className="px-6 py-4">Pending</th><th className="px-6 py-4">Pendapatan</th><th className="px-6 py-4 text-right">Aksi</th></tr></thead><tbody className="divide-y divide-dark-700">{affiliates.map(a => (<tr key={a.id} className="hover:bg-dark-700/50"><td className="px-6 py-4 font-bold text-white">{a.name}</td><td className="px-6 py-4">{a.code}</td><td className="px-6 py-4">{a.commissionRate}%</td><td className="px-6 py-4">Rp {CommissionService.sum(commissions, a.id, ['PENDING']).toLocaleString()}</td><td className="px-6 py-4 text-white">Rp {a.totalEarnings.toLocaleString()}</td><td className="px-6 py-4 text-right"><button onClick={() => { setCurrentAff(a); setIsEditing(true); }} className="text-blue-400 mr-2"><i className="fas fa-edit"></i></button><button onClick={() => updateAffiliates(affiliates.filter(x => x.id !== a.id))} className="text-red-400"><i className="fas fa-trash"></i></button></td></tr>))}</tbody></table>
+      </div>
+      <h3 className="text-lg font-bold text-white mt-8 mb-4">Pembayaran Komisi</h3>
+      <div className="bg-dark-800 p-4 rounded-xl border border-dark-700 mb-4 flex flex-col md:flex-row md:items-end gap-3">
+        <div className="flex-1"><p className="text-gray-400 text-sm">Komisi disetujui & belum dibayar</p><p className="text-xl font-bold text-white">Rp {payableTotal.toLocaleString()}</p></div>
+        <div><label className="block text-xs text-gray-400 mb-1">Minimum per Partner (Rp)</label><input type="number" min={0} value={minimumPayout} onChange={e => setMinimumPayout(Number(e.target.value))} className="bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm" /></div>
+        <button onClick={handleCreateBatch} disabled={payableTotal === 0} className="bg-primary hover:bg-indigo-600 disabled:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm"><i className="fas fa-layer-group mr-2"></i> Buat Batch</button>
+      </div>
+      <div className="space-y-3">
+        {batches.length === 0 ? <div className="bg-dark-800 rounded-xl border border-dark-700 p-6 text-center text-sm text-gray-400">Belum ada batch pembayaran.</div> : batches.map(b => (
+          <div key={b.id} className="bg-dark-800 rounded-xl border border-dark-700">
+            <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3 cursor-pointer" onClick={() => setExpandedBatch(expandedBatch === b.id ? null : b.id)}>
+              <div>
+                <div className="text-white font-bold">Rp {b.totalAmount.toLocaleString()} <span className="text-xs text-gray-500 font-normal">· {payouts.filter(p => p.batchId === b.id).length} partner · min Rp {b.minimumAmount.toLocaleString()}</span></div>
+                <div className="text-xs text-gray-500">Dibuat {new Date(b.createdAt).toLocaleString()} oleh {b.createdBy}{b.confirmedAt && ` · Dikonfirmasi ${new Date(b.confirmedAt).toLocaleString()} oleh ${b.confirmedBy}`}</div>
+              </div>
+              <div className="flex items-center gap-2" onClick={e => e.stopPropagation()}>
+                <span className={`text-xs font-bold px-2 py-1 rounded ${b.status === 'CONFIRMED' ? 'bg-green-500/20 text-green-400' : b.status === 'CANCELLED' ? 'bg-red-500/20 text-red-400' : 'bg-yellow-500/20 text-yellow-400'}`}>{b.status === 'CONFIRMED' ? 'Dibayar' : b.status === 'CANCELLED' ? 'Dibatalkan' : 'Draft'}</span>
+                {b.status !== 'CANCELLED' && <button onClick={() => handleExportBatch(b)} className="text-xs font-bold px-3 py-1 rounded-lg border border-dark-700 text-gray-300 hover:text-white"><i className="fas fa-file-csv mr-1"></i> CSV</button>}
+                {b.status === 'DRAFT' && <button onClick={() => handleConfirmBatch(b)} className="text-xs font-bold px-3 py-1 rounded-lg border border-green-500/30 text-green-400 hover:bg-green-500/10">Konfirmasi</button>}
+                {b.status === 'DRAFT' && <button onClick={() => handleCancelBatch(b)} className="text-xs font-bold px-3 py-1 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10">Batalkan</button>}
+              </div>
+            </div>
+            {expandedBatch === b.id && (
+              <div className="border-t border-dark-700 p-4 space-y-2 text-sm">
+                {payouts.filter(p => p.batchId === b.id).map(p => (
+                  <div key={p.id} className="flex justify-between"><span className="text-gray-300">{affiliates.find(a => a.id === p.affiliateId)?.name || '-'} <span className="text-xs text-gray-500">· {p.bankDetails} · {p.commissionIds.length} komisi</span></span><span className="font-bold text-white">Rp {p.amount.toLocaleString()}</span></div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <h3 className="text-lg font-bold text-white mt-8 mb-4">Buku Komisi</h3>
+      <div className="bg-dark-800 rounded-xl border border-dark-700 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-400">
+            <thead className="bg-dark-900 text-gray-200"><tr><th className="px-6 py-4">Tanggal</th><th className="px-6 py-4">Partner</th><th className="px-6 py-4">Pesanan</th><th className="px-6 py-4">Dasar</th><th className="px-6 py-4">Rate</th><th className="px-6 py-4">Komisi</th><th className="px-6 py-4">Status</th></tr></thead>
+            <tbody className="divide-y divide-dark-700">
+              {ledger.length === 0 ? <tr><td colSpan={7} className="px-6 py-8 text-center">Belum ada komisi.</td></tr> : ledger.map(c => (
+                <tr key={c.id} className="hover:bg-dark-700/50"><td className="px-6 py-4">{new Date(c.createdAt).toLocaleDateString()}</td><td className="px-6 py-4 text-white">{affiliates.find(a => a.id === c.affiliateId)?.name || '-'}</td><td className="px-6 py-4 font-mono text-xs">{c.orderId.slice(0, 8)}</td><td className="px-6 py-4">Rp {c.baseAmount.toLocaleString()}</td><td className="px-6 py-4">{c.rate}%</td><td className="px-6 py-4 font-bold text-white">Rp {c.amount.toLocaleString()}</td><td className="px-6 py-4"><span className={`text-xs font-bold px-2 py-1 rounded ${COMMISSION_STATUS_STYLES[c.status]}`}>{COMMISSION_STATUS_LABELS[c.status]}</span></td></tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
       </div>
-      {isEditing && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"><div className="bg-dark-800 p-6 rounded-xl w-full max-w-md border border-dark-700"><h3 className="text-xl font-bold text-white mb-4">Partner</h3><div className="space-y-4"><input type="text" placeholder="Nama" value={currentAff.name || ''} onChange={e => setCurrentAff({...currentAff, name: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /><input type="text" placeholder="Kode" value={currentAff.code || ''} onChange={e => setCurrentAff({...currentAff, code: e.target.value.toUpperCase()})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /><input type="number" placeholder="Komisi %" value={currentAff.commissionRate || ''} onChange={e => setCurrentAff({...currentAff, commissionRate: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /></div><div className="flex justify-end gap-4 mt-6"><button onClick={() => setIsEditing(false)} className="text-gray-400">Batal</button><button onClick={handleSave} className="bg-primary text-white px-4 py-2 rounded-lg">Simpan</button></div></div></div>)}
+      {isEditing && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"><div className="bg-dark-800 p-6 rounded-xl w-full max-w-md border border-dark-700"><h3 className="text-xl font-bold text-white mb-4">Partner</h3><div className="space-y-4"><input type="text" placeholder="Nama" value={currentAff.name || ''} onChange={e => setCurrentAff({...currentAff, name: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /><input type="text" placeholder="Kode" value={currentAff.code || ''} onChange={e => setCurrentAff({...currentAff, code: e.target.value.toUpperCase()})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /><input type="number" placeholder="Komisi %" value={currentAff.commissionRate || ''} onChange={e => setCurrentAff({...currentAff, commissionRate: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /><input type="text" placeholder="Rekening (mis. BCA 1234567890 a.n. Nama)" value={currentAff.bankDetails || ''} onChange={e => setCurrentAff({...currentAff, bankDetails: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /><input type="password" placeholder={currentAff.id ? 'Password baru (kosongkan jika tidak diubah)' : 'Password (default 123)'} value={newPassword} onChange={e => setNewPassword(e.target.value)} className="w-full bg-dark-900 border border-dark-700 rounded px-4 py-2 text-white" /></div><div className="flex justify-end gap-4 mt-6"><button onClick={() => { setIsEditing(false); setNewPassword(''); }} className="text-gray-400">Batal</button><button onClick={handleSave} className="bg-primary text-white px-4 py-2 rounded-lg">Simpan</button></div></div></div>)}
+    </div>
+  );
+};
+
+const AdminReviews: React.FC = () => {
+  const { reviews, updateReviews, products } = useAppContext();
+  const [filter, setFilter] = useState<'all' | 'visible' | 'hidden' | 'unanswered'>('all');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+
+  const shown = [...reviews]
+    .filter(r => filter === 'all' || (filter === 'hidden' ? r.isHidden : filter === 'visible' ? !r.isHidden : !r.reply))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const update = (id: string, patch: Partial<ProductReview>) => updateReviews(reviews.map(r => r.id === id ? { ...r, ...patch, updatedAt: new Date().toISOString() } : r));
+  const saveReply = (review: ProductReview) => {
+    const reply = (replyDrafts[review.id] ?? review.reply ?? '').trim();
+    update(review.id, reply ? { reply, repliedAt: new Date().toISOString() } : { reply: undefined, repliedAt: undefined });
+    setReplyDrafts(({ [review.id]: _, ...rest }) => rest);
+  };
+
+  return (
+    <div className="p-6 pb-24">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-white">Ulasan Produk</h2>
+        <select value={filter} onChange={e => setFilter(e.target.value as typeof filter)} className="bg-dark-800 border border-dark-700 rounded-lg px-4 py-2 text-white"><option value="all">Semua</option><option value="visible">Tampil</option><option value="hidden">Disembunyikan</option><option value="unanswered">Belum dibalas</option></select>
+      </div>
+      {shown.length === 0 ? <div className="text-center py-12 text-gray-500 bg-dark-800 rounded-xl border border-dark-700">Belum ada ulasan.</div> : (
+        <div className="space-y-4">{shown.map(r => (
+          <div key={r.id} className={`bg-dark-800 p-4 rounded-xl border border-dark-700 ${r.isHidden ? 'opacity-60' : ''}`}>
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <div className="font-bold text-white">{products.find(p => p.id === r.productId)?.name || 'Produk dihapus'}</div>
+                <div className="text-xs text-gray-400">{r.customerName} · {new Date(r.createdAt).toLocaleString()} · Pesanan #{r.orderId.slice(0, 8)}</div>
+              </div>
+              <button onClick={() => update(r.id, { isHidden: !r.isHidden })} className={`text-xs font-bold px-3 py-1 rounded-lg border flex-shrink-0 ${r.isHidden ? 'border-green-500/30 text-green-400' : 'border-red-500/30 text-red-400'}`}><i className={`fas ${r.isHidden ? 'fa-eye' : 'fa-eye-slash'} mr-1`}></i> {r.isHidden ? 'Tampilkan' : 'Sembunyikan'}</button>
+            </div>
+            <div className="mt-2"><StarRating value={r.rating} className="text-sm" /></div>
+            {r.comment && <p className="text-sm text-gray-300 mt-1 whitespace-pre-line">{r.comment}</p>}
+            <div className="mt-3 flex gap-2"><input value={replyDrafts[r.id] ?? r.reply ?? ''} onChange={e => setReplyDrafts({ ...replyDrafts, [r.id]: e.target.value })} placeholder="Tulis balasan..." className="flex-1 bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm" /><button onClick={() => saveReply(r)} disabled={replyDrafts[r.id] === undefined} className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-40">{r.reply ? 'Ubah' : 'Balas'}</button></div>
+            {r.repliedAt && <p className="text-xs text-gray-500 mt-1">Dibalas {new Date(r.repliedAt).toLocaleString()}</p>}
+          </div>
+        ))}</div>
+      )}
     </div>
   );
 };
@@ -471,7 +984,11 @@ const AdminSettings: React.FC = () => {
   useEffect(() => { setFormData(settings); }, [settings]);
   useEffect(() => { setPayments(paymentMethods); }, [paymentMethods]);
 
-  const handleSave = () => { updateSettings(formData); updatePayments(payments); };
+  const [newAdminPassword, setNewAdminPassword] = useState('');
+  const handleSave = async () => {
+    const next = newAdminPassword ? { ...formData, adminPassword: await PasswordService.hash(newAdminPassword) } : formData;
+    updateSettings(next); setFormData(next); updatePayments(payments); setNewAdminPassword('');
+  };
 
   return (
     <div className="p-6 pb-24 max-w-4xl mx-auto">
@@ -481,7 +998,7 @@ const AdminSettings: React.FC = () => {
           <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Akun Admin</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div><label className="block text-sm text-gray-400 mb-1">Username Admin</label><input value={formData.adminUsername || 'admin'} onChange={e => setFormData({...formData, adminUsername: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
-            <div><label className="block text-sm text-gray-400 mb-1">Password Admin</label><input type="text" value={formData.adminPassword || 'admin'} onChange={e => setFormData({...formData, adminPassword: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <div><label className="block text-sm text-gray-400 mb-1">Password Admin Baru</label><input type="password" placeholder="Kosongkan jika tidak diubah" value={newAdminPassword} onChange={e => setNewAdminPassword(e.target.value)} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
           </div>
         </div>
 
@@ -495,6 +1012,42 @@ const AdminSettings: React.FC = () => {
           </div>
         </div>
 
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+          <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Pengiriman File</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div><label className="block text-sm text-gray-400 mb-1">Masa Berlaku Link (menit)</label><input type="number" min={1} value={formData.downloadLinkTtlMinutes || DEFAULT_DOWNLOAD_TTL_MINUTES} onChange={e => setFormData({...formData, downloadLinkTtlMinutes: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <div><label className="block text-sm text-gray-400 mb-1">Batas Download per Item</label><input type="number" min={1} value={formData.downloadLimit || DEFAULT_DOWNLOAD_LIMIT} onChange={e => setFormData({...formData, downloadLimit: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+          </div>
+        </div>
+
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+          <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Pajak</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div><label className="block text-sm text-gray-400 mb-1">Nama Pajak</label><input value={formData.taxLabel || 'PPN'} onChange={e => setFormData({...formData, taxLabel: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <div><label className="block text-sm text-gray-400 mb-1">Tarif (%)</label><input type="number" min={0} max={100} step="0.01" value={formData.taxRate || 0} onChange={e => setFormData({...formData, taxRate: Number(e.target.value)})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 md:mt-7"><input type="checkbox" checked={!!formData.taxInclusive} onChange={e => setFormData({...formData, taxInclusive: e.target.checked})} /> Harga produk sudah termasuk pajak</label>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Tarif 0 menonaktifkan pajak. Pajak dihitung setelah diskon voucher dan tidak ikut dihitung komisi afiliasi.</p>
+        </div>
+
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+          <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Produk Populer</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={!!formData.autoPopular} onChange={e => setFormData({...formData, autoPopular: e.target.checked})} /> Tentukan label "Populer" otomatis</label>
+          <p className="text-xs text-gray-500 mt-2">{POPULAR_LIMIT} produk terlaris dari pesanan lunas mendapat label Populer; jika penjualan sama, rating lebih tinggi didahulukan. Produk dengan rata-rata di bawah 3,5 bintang dilewati. Jika dimatikan, label diatur manual per produk.</p>
+        </div>
+
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+          <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Tripay</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div><label className="block text-sm text-gray-400 mb-1">Merchant Code</label><input value={formData.tripayMerchantCode || ''} onChange={e => setFormData({...formData, tripayMerchantCode: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <div><label className="block text-sm text-gray-400 mb-1">Mode</label><select value={formData.tripayMode || 'sandbox'} onChange={e => setFormData({...formData, tripayMode: e.target.value as 'sandbox' | 'production'})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white"><option value="sandbox">Sandbox</option><option value="production">Production</option></select></div>
+            <div><label className="block text-sm text-gray-400 mb-1">API Key</label><input type="password" value={formData.tripayApiKey || ''} onChange={e => setFormData({...formData, tripayApiKey: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <div><label className="block text-sm text-gray-400 mb-1">Private Key</label><input type="password" value={formData.tripayPrivateKey || ''} onChange={e => setFormData({...formData, tripayPrivateKey: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <div><label className="block text-sm text-gray-400 mb-1">API Base URL (opsional)</label><input value={formData.tripayBaseUrl || ''} onChange={e => setFormData({...formData, tripayBaseUrl: e.target.value})} placeholder="http://localhost:4010" className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+            <div><label className="block text-sm text-gray-400 mb-1">Callback URL</label><input value={formData.tripayCallbackUrl || ''} onChange={e => setFormData({...formData, tripayCallbackUrl: e.target.value})} placeholder={TripayService.callbackUrl({ ...formData, tripayCallbackUrl: undefined }) || 'https://.../functions/v1/tripay-callback'} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div>
+          </div>
+        </div>
+
         <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
             <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Pembayaran</h3>
             {payments.map((pm, idx) => (
@@ -511,28 +1064,67 @@ const AdminSettings: React.FC = () => {
 };
 
 const AdminDatabase: React.FC = () => {
-  const { settings, updateSettings, products, vouchers, affiliates, customers, paymentMethods, supabase, resetLocalData, updateProducts, updateVouchers, updateAffiliates, updateCustomers, updatePayments } = useAppContext();
+  const { settings, updateSettings, products, vouchers, affiliates, customers, paymentMethods, orders, downloadLogs, referralClicks, commissions, payouts, payoutBatches, reviews, supabase, resetLocalData, updateProducts, updateVouchers, updateAffiliates, updateCustomers, updatePayments, schemaVersions, checkSchema, cloudRepositories, reloadCloudData } = useAppContext();
   const [formData, setFormData] = useState(settings);
   const [showSql, setShowSql] = useState(!settings.supabaseUrl); 
+  // Before connecting, every migration is pending (fresh project)
+  const pendingMigrations = MigrationService.pending(schemaVersions || []);
+  const currentVersion = Math.max(0, ...(schemaVersions || []));
   const [isSyncing, setIsSyncing] = useState(false);
+  const [restoreCheck, setRestoreCheck] = useState<BackupCheck | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<'local' | 'cloud'>(cloudRepositories ? 'cloud' : 'local');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const currentData: BackupData = { settings, paymentMethods, products, vouchers, affiliates, customers, orders, downloadLogs, referralClicks, payoutBatches, commissions, payouts, reviews };
+  const restoreArchive = restoreCheck?.archive;
+  const restoreDiff = restoreArchive ? BackupService.diff(currentData, restoreArchive.data) : [];
+  const settingsChanges = restoreArchive ? BackupService.settingsDiff(settings, restoreArchive.data.settings) : [];
+  // Restoring into Supabase needs every column the archive has
+  const cloudBlocked = restoreTarget === 'cloud' && (!cloudRepositories || pendingMigrations.length > 0);
+
+  const handleRestoreFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => setRestoreCheck(BackupService.read(reader.result as string));
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleRestore = async () => {
+    if (!restoreArchive || cloudBlocked) return;
+    if (!confirm(`Ganti semua data ${restoreTarget === 'cloud' ? 'di Supabase' : 'di browser ini'} dengan isi backup? Data yang tidak ada di backup akan dihapus.`)) return;
+    setIsRestoring(true);
+    try {
+      if (restoreTarget === 'cloud') {
+        await BackupService.restore(cloudRepositories!, restoreArchive.data, currentData);
+        setRestoreCheck(null);
+        reloadCloudData();
+        alert("Restore Berhasil!");
+      } else {
+        await BackupService.restore(localRepositories, restoreArchive.data, currentData);
+        alert("Restore Berhasil! Halaman akan dimuat ulang.");
+        window.location.reload();
+      }
+    } catch (e: any) { alert("Gagal restore: " + (e.message || e)); } finally { setIsRestoring(false); }
+  };
 
   const handleSync = async () => {
-    if (!supabase) return alert("Supabase belum terkoneksi!");
+    if (!cloudRepositories) return alert("Supabase belum terkoneksi!");
     if (!confirm("Overwrite cloud data with local data?")) return;
     setIsSyncing(true);
     try {
-        if (products.length > 0) { const fp = products.map(ensureUuid); updateProducts(fp); await supabase.from('products').upsert(fp.map(p => ({ id: p.id, name: p.name, category: p.category, description: p.description, price: p.price, discount_price: p.discountPrice, image: p.image, file_url: p.fileUrl, is_popular: p.isPopular }))); }
-        if (vouchers.length > 0) { const fv = vouchers.map(ensureUuid); updateVouchers(fv); await supabase.from('vouchers').upsert(fv.map(v => ({ id: v.id, code: v.code, type: v.type, value: v.value, is_active: v.isActive }))); }
-        if (affiliates.length > 0) { const fa = affiliates.map(ensureUuid); updateAffiliates(fa); await supabase.from('affiliates').upsert(fa.map(a => ({ id: a.id, name: a.name, code: a.code, password: a.password, commission_rate: a.commissionRate, total_earnings: a.totalEarnings, bank_details: a.bankDetails, is_active: a.isActive }))); }
+        if (products.length > 0) { const fp = products.map(ensureUuid); updateProducts(fp); await cloudRepositories.products.saveAll(fp); }
+        if (vouchers.length > 0) { const fv = vouchers.map(ensureUuid); updateVouchers(fv); await cloudRepositories.vouchers.saveAll(fv); }
+        if (affiliates.length > 0) { const fa = affiliates.map(ensureUuid); updateAffiliates(fa); await cloudRepositories.affiliates.saveAll(fa); }
         // Sync Customers
-        if (customers.length > 0) { const fc = customers.map(ensureUuid); updateCustomers(fc); await supabase.from('customers').upsert(fc.map(c => ({ id: c.id, name: c.name, whatsapp: c.whatsapp, password: c.password, created_at: c.createdAt }))); }
+        if (customers.length > 0) { const fc = customers.map(ensureUuid); updateCustomers(fc); await cloudRepositories.customers.saveAll(fc); }
 
-        const dbSettings = { id: 'settings_01', store_name: settings.storeName, address: settings.address, whatsapp: settings.whatsapp, email: settings.email, description: settings.description, logo_url: settings.logoUrl, tripay_api_key: settings.tripayApiKey, tripay_private_key: settings.tripayPrivateKey, tripay_merchant_code: settings.tripayMerchantCode, admin_username: settings.adminUsername, admin_password: settings.adminPassword };
-        await supabase.from('store_settings').upsert(dbSettings);
-        
-        const dbPayments = paymentMethods.map(ensureUuid).map(p => ({ id: p.id, type: p.type, name: p.name, account_number: p.accountNumber, account_name: p.accountName, description: p.description, logo: p.logo, is_active: p.isActive }));
-        await supabase.from('payment_methods').upsert(dbPayments);
+        await cloudRepositories.settings.save(settings);
+        await cloudRepositories.paymentMethods.saveAll(paymentMethods.map(ensureUuid));
 
+        // Re-read so auto-sync diffs against the versions just written
+        reloadCloudData();
         alert("Upload Berhasil!");
     } catch (e: any) { alert("Gagal upload: " + (e.message || e)); } finally { setIsSyncing(false); }
   };
@@ -544,9 +1136,45 @@ const AdminDatabase: React.FC = () => {
           <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
             <h3 className="text-lg font-bold text-green-400 mb-4 flex items-center gap-2"><i className="fas fa-database"></i> Supabase Integration {supabase && <span className="bg-green-500/20 text-green-400 text-xs px-2 py-1 rounded-full border border-green-500/30">Connected</span>}</h3>
             <div className="bg-dark-900/50 p-4 rounded-lg border border-dark-700 mb-6"><h4 className="font-bold text-white mb-2">Sync Dashboard</h4><p className="text-gray-400 text-sm mb-4">Auto-Sync is Active. Use buttons below for troubleshooting.</p><div className="flex gap-4"><button onClick={handleSync} disabled={isSyncing || !supabase} className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 text-white font-bold py-3 rounded-lg flex items-center justify-center gap-2">{isSyncing ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-cloud-upload-alt"></i>}{isSyncing ? "Uploading..." : "FORCE UPLOAD"}</button><button onClick={() => { if(confirm("Reset browser data?")) resetLocalData(); }} className="px-6 py-3 bg-red-600/20 hover:bg-red-600/40 text-red-500 border border-red-600/50 rounded-lg"><i className="fas fa-redo"></i> Reset Local</button></div></div>
-            <div className="space-y-4 pt-4 border-t border-dark-700"><div><label className="text-sm text-gray-400">Supabase URL</label><input type="password" value={formData.supabaseUrl || ''} onChange={e => setFormData({...formData, supabaseUrl: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div><div><label className="text-sm text-gray-400">Anon Key</label><input type="password" value={formData.supabaseKey || ''} onChange={e => setFormData({...formData, supabaseKey: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div><div className="mt-4"><button onClick={() => setShowSql(!showSql)} className="text-primary text-sm font-bold"> {showSql ? 'Hide SQL' : 'Show SQL Schema'} </button>{showSql && <textarea readOnly value={SUPABASE_SCHEMA} className="w-full h-64 bg-dark-900 border border-dark-700 rounded-lg p-4 mt-2 text-xs font-mono text-gray-300" />}</div></div>
+            <div className="space-y-4 pt-4 border-t border-dark-700"><div><label className="text-sm text-gray-400">Supabase URL</label><input type="password" value={formData.supabaseUrl || ''} onChange={e => setFormData({...formData, supabaseUrl: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div><div><label className="text-sm text-gray-400">Anon Key</label><input type="password" value={formData.supabaseKey || ''} onChange={e => setFormData({...formData, supabaseKey: e.target.value})} className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white" /></div><div className="mt-4"><div className="flex justify-between items-center"><span className="text-sm text-gray-400">Schema v{currentVersion} / v{LATEST_SCHEMA_VERSION} {pendingMigrations.length === 0 ? <span className="text-green-400">· Terbaru</span> : <span className="text-yellow-400">· {pendingMigrations.length} migrasi tertunda</span>}</span><div className="flex gap-4">{supabase && <button onClick={checkSchema} className="text-gray-400 hover:text-white text-sm"><i className="fas fa-sync-alt mr-1"></i> Cek Ulang</button>}{pendingMigrations.length > 0 && <button onClick={() => setShowSql(!showSql)} className="text-primary text-sm font-bold"> {showSql ? 'Hide SQL' : 'Show Pending SQL'} </button>}</div></div>{pendingMigrations.length > 0 && <ul className="mt-2 text-xs text-gray-400 font-mono">{pendingMigrations.map(m => <li key={m.version}>{String(m.version).padStart(4, '0')}_{m.name}</li>)}</ul>}{showSql && pendingMigrations.length > 0 && <><p className="text-xs text-gray-500 mt-2">Jalankan di Supabase SQL Editor. Aman dijalankan ulang; tidak ada data yang dihapus.</p><textarea readOnly value={MigrationService.script(pendingMigrations)} className="w-full h-64 bg-dark-900 border border-dark-700 rounded-lg p-4 mt-2 text-xs font-mono text-gray-300" /></>}</div></div>
           </div>
           <button onClick={() => { updateSettings(formData); alert('Saved. Please refresh.'); }} className="w-full bg-primary hover:bg-indigo-600 text-white font-bold py-3 rounded-xl">Simpan Konfigurasi</button>
+          <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+            <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2"><i className="fas fa-archive text-yellow-500"></i> Backup & Restore</h3>
+            <p className="text-gray-400 text-sm mb-4">Satu file JSON berisi semua data toko: pengaturan, metode pembayaran, produk, voucher, afiliasi, pelanggan, pesanan, komisi, pencairan, ulasan dan log. File ini memuat password (ter-hash) dan kunci API, jadi simpan di tempat yang aman.</p>
+            <div className="flex flex-wrap gap-4">
+              <button onClick={() => BackupService.download(BackupService.create(currentData))} className="bg-primary hover:bg-indigo-600 text-white font-bold px-4 py-2 rounded-lg"><i className="fas fa-download mr-2"></i>Unduh Backup</button>
+              <label className="cursor-pointer px-4 py-2 rounded-lg border border-dark-700 text-gray-300 hover:text-white"><i className="fas fa-upload mr-2"></i>Pulihkan dari File<input type="file" accept=".json,application/json" onChange={handleRestoreFile} className="hidden" /></label>
+            </div>
+            {restoreCheck && (
+              <div className="mt-6 pt-4 border-t border-dark-700">
+                {restoreCheck.errors.length > 0 ? (
+                  <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-sm text-red-400"><p className="font-bold mb-2">Backup tidak bisa dipulihkan:</p><ul className="list-disc pl-5 space-y-1">{restoreCheck.errors.map((e, idx) => <li key={idx}>{e}</li>)}</ul></div>
+                ) : restoreArchive && (<>
+                  <p className="text-sm text-gray-300 mb-1">Backup <span className="font-bold text-white">{restoreArchive.storeName}</span>{restoreArchive.createdAt && `, ${new Date(restoreArchive.createdAt).toLocaleString()}`}</p>
+                  {restoreCheck.migrations.length > 0 && <p className="text-xs text-yellow-400 mb-1"><i className="fas fa-info-circle mr-1"></i>Dibuat oleh versi lama; diperbarui: {restoreCheck.migrations.join(', ')}</p>}
+                  <div className="overflow-x-auto my-4">
+                    <table className="w-full text-left text-sm text-gray-400">
+                      <thead className="text-gray-200"><tr><th className="py-2">Data</th><th className="py-2 text-right">Saat Ini</th><th className="py-2 text-right">Backup</th><th className="py-2 text-right">Baru</th><th className="py-2 text-right">Berubah</th><th className="py-2 text-right">Dihapus</th></tr></thead>
+                      <tbody className="divide-y divide-dark-700">
+                        {restoreDiff.map(d => <tr key={d.key}><td className="py-2 text-white">{d.label}</td><td className="py-2 text-right">{d.current}</td><td className="py-2 text-right">{d.incoming}</td><td className="py-2 text-right text-green-400">{d.added || '-'}</td><td className="py-2 text-right text-blue-400">{d.changed || '-'}</td><td className="py-2 text-right text-red-400">{d.removed || '-'}</td></tr>)}
+                        <tr><td className="py-2 text-white">Pengaturan</td><td colSpan={5} className="py-2 text-right text-xs">{settingsChanges.length ? <span className="text-blue-400">{settingsChanges.length} berubah: {settingsChanges.join(', ')}</span> : 'Sama'}</td></tr>
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-4">Log download dan klik referral tidak dihapus. Koneksi Supabase di browser ini tidak berubah.</p>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <div className="flex bg-dark-900 rounded-lg p-1 text-sm">{(['local', 'cloud'] as const).map(t => <button key={t} onClick={() => setRestoreTarget(t)} className={`px-3 py-1 rounded ${restoreTarget === t ? 'bg-primary text-white' : 'text-gray-400'}`}>{t === 'local' ? 'Lokal (browser ini)' : 'Cloud (Supabase)'}</button>)}</div>
+                    <button onClick={handleRestore} disabled={isRestoring || cloudBlocked} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-600 text-white font-bold px-4 py-2 rounded-lg">{isRestoring ? <><i className="fas fa-spinner fa-spin mr-2"></i>Memulihkan...</> : 'Pulihkan'}</button>
+                    <button onClick={() => setRestoreCheck(null)} className="text-gray-400 hover:text-white text-sm">Batal</button>
+                  </div>
+                  {restoreTarget === 'cloud' && !cloudRepositories && <p className="text-xs text-yellow-400 mt-2">Supabase belum terkoneksi.</p>}
+                  {restoreTarget === 'cloud' && cloudRepositories && pendingMigrations.length > 0 && <p className="text-xs text-yellow-400 mt-2">Jalankan {pendingMigrations.length} migrasi tertunda dulu.</p>}
+                  {restoreTarget === 'local' && supabase && <p className="text-xs text-yellow-400 mt-2">Supabase terhubung: data cloud akan kembali dimuat setelah halaman dimuat ulang.</p>}
+                </>)}
+              </div>
+            )}
+          </div>
        </div>
     </div>
   );
@@ -555,14 +1183,91 @@ const AdminDatabase: React.FC = () => {
 // --- Customer Views ---
 
 const CustomerHistory: React.FC = () => {
-    const { user, orders, products } = useAppContext();
-    const myOrders = orders.filter(o => o.customerWhatsapp === user?.phone).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const { user, orders, products, settings, supabase, downloadLogs, addDownloadLog, reviews, saveReview } = useAppContext();
+    const [pendingDownload, setPendingDownload] = useState<string | null>(null);
+    const [reviewDraft, setReviewDraft] = useState<{ productId: string; orderId: string; rating: number; comment: string } | null>(null);
+    const navigate = useNavigate();
+    const myOrders = orders.filter(o => o.customerId ? o.customerId === user?.id : o.customerWhatsapp === user?.phone).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const downloadLimit = DownloadService.limit(settings);
+    // Products from paid orders that are still in the catalog
+    const purchases = ReviewService.purchases(myOrders).filter(p => products.some(x => x.id === p.productId));
     
     if (!user) return <Navigate to="/login" />;
 
+    const handleDownload = async (order: Order, { productId, variantId }: DownloadGrant) => {
+        if (DownloadService.downloadCount(downloadLogs, order.id, productId, variantId) >= downloadLimit) return alert('Batas download untuk produk ini sudah habis.');
+        setPendingDownload(`${order.id}:${CartService.lineKey({ id: productId, variantId })}`);
+        try {
+            if (supabase) {
+                // Cloud: the edge function checks payment, signs the link and logs the download
+                const { data, error } = await supabase.functions.invoke('download', { body: { orderId: order.id, productId, variantId } });
+                if (error || !data?.url) throw new Error(data?.message || error?.message || 'Link tidak tersedia');
+                window.open(data.url, '_blank');
+                addDownloadLog({ id: generateUUID(), orderId: order.id, productId, variantId, downloadedAt: new Date().toISOString() });
+            } else {
+                const token = await DownloadService.createToken(settings.downloadSecret || '', order.id, productId, DownloadService.ttlMinutes(settings), variantId);
+                navigate(`/download/${token}`);
+            }
+        } catch (e: any) { alert('Gagal membuat link download: ' + (e.message || e)); } finally { setPendingDownload(null); }
+    };
+
+    const handleSaveReview = () => {
+        if (!reviewDraft || !user?.id) return;
+        const comment = reviewDraft.comment.trim();
+        const error = ReviewService.validate(reviewDraft.rating, comment);
+        if (error) return alert(error);
+        const existing = ReviewService.own(reviews, user.id, reviewDraft.productId);
+        const now = new Date().toISOString();
+        saveReview(existing
+            ? { ...existing, rating: reviewDraft.rating, comment, customerName: user.name, orderId: reviewDraft.orderId, updatedAt: now }
+            : { id: generateUUID(), productId: reviewDraft.productId, customerId: user.id, customerName: user.name, orderId: reviewDraft.orderId, rating: reviewDraft.rating, comment, createdAt: now, updatedAt: now });
+        setReviewDraft(null);
+    };
+
+    const downloadRow = (order: Order, grant: DownloadGrant, label: React.ReactNode, key: React.Key) => {
+        const used = DownloadService.downloadCount(downloadLogs, order.id, grant.productId, grant.variantId);
+        const isPending = pendingDownload === `${order.id}:${CartService.lineKey({ id: grant.productId, variantId: grant.variantId })}`;
+        return (
+            <div key={key} className="flex justify-between items-center text-sm">
+                <span className="text-gray-300">{label}</span>
+                {DownloadService.isOrderDownloadable(order) && (
+                    <button onClick={() => handleDownload(order, grant)} disabled={used >= downloadLimit || isPending} className="text-xs font-bold px-3 py-1 rounded-lg border border-primary/30 text-primary hover:bg-primary/10 disabled:opacity-40 disabled:cursor-not-allowed">
+                        <i className={`fas ${isPending ? 'fa-spinner fa-spin' : 'fa-download'} mr-1`}></i> Download ({Math.max(0, downloadLimit - used)}/{downloadLimit})
+                    </button>
+                )}
+            </div>
+        );
+    };
+
     return (
         <div className="max-w-2xl mx-auto p-6 pb-24">
             <h2 className="text-2xl font-bold text-white mb-6">Riwayat Pesanan</h2>
+            {purchases.length > 0 && user.id && (
+                <div className="bg-dark-800 p-4 rounded-xl border border-dark-700 mb-6">
+                    <h3 className="font-bold text-white mb-3">Ulasan Produk</h3>
+                    <div className="space-y-3">{purchases.map(({ productId, orderId }) => {
+                        const product = products.find(p => p.id === productId)!;
+                        const own = ReviewService.own(reviews, user.id!, productId);
+                        const isEditing = reviewDraft?.productId === productId;
+                        return (
+                            <div key={productId} className="border-b border-dark-700 pb-3 last:border-0 last:pb-0">
+                                <div className="flex justify-between items-center gap-2">
+                                    <div className="min-w-0"><Link to={ProductService.path(product)} className="text-sm text-gray-300 hover:text-primary truncate block">{product.name}</Link>{own ? <div className="flex items-center gap-2"><StarRating value={own.rating} />{own.isHidden && <span className="text-xs text-yellow-500">Disembunyikan admin</span>}</div> : <span className="text-xs text-gray-500">Belum diulas</span>}</div>
+                                    {!isEditing && <button onClick={() => setReviewDraft({ productId, orderId: own?.orderId || orderId, rating: own?.rating || 5, comment: own?.comment || '' })} className="text-xs font-bold px-3 py-1 rounded-lg border border-yellow-500/30 text-yellow-400 hover:bg-yellow-500/10 flex-shrink-0"><i className="fas fa-star mr-1"></i> {own ? 'Ubah Ulasan' : 'Beri Ulasan'}</button>}
+                                </div>
+                                {own?.reply && !isEditing && <div className="mt-2 pl-3 border-l-2 border-primary text-xs text-gray-400"><span className="font-bold text-primary">Balasan penjual:</span> {own.reply}</div>}
+                                {isEditing && (
+                                    <div className="mt-3 space-y-2">
+                                        <StarRating value={reviewDraft.rating} onChange={rating => setReviewDraft({ ...reviewDraft, rating })} className="text-xl" />
+                                        <textarea value={reviewDraft.comment} onChange={e => setReviewDraft({ ...reviewDraft, comment: e.target.value })} maxLength={MAX_REVIEW_LENGTH} rows={3} placeholder="Ceritakan pengalaman Anda dengan produk ini (opsional)" className="w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-white text-sm" />
+                                        <div className="flex justify-end gap-2"><button onClick={() => setReviewDraft(null)} className="px-3 py-1 text-sm text-gray-400 hover:text-white">Batal</button><button onClick={handleSaveReview} className="px-4 py-1 rounded-lg bg-primary hover:bg-indigo-600 text-white text-sm font-bold">Kirim Ulasan</button></div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}</div>
+                </div>
+            )}
             {myOrders.length === 0 ? (
                 <div className="text-center py-12 text-gray-500 bg-dark-800 rounded-xl border border-dark-700">Belum ada riwayat pesanan.</div>
             ) : (
@@ -571,20 +1276,29 @@ const CustomerHistory: React.FC = () => {
                         <div key={order.id} className="bg-dark-800 p-4 rounded-xl border border-dark-700">
                             <div className="flex justify-between items-start mb-2">
                                 <div>
-                                    <span className={`text-xs font-bold px-2 py-1 rounded ${order.status === 'PAID' ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}`}>{order.status}</span>
+                                    <span className={`text-xs font-bold px-2 py-1 rounded ${ORDER_STATUS_STYLES[order.status]}`}>{ORDER_STATUS_LABELS[order.status]}</span>
                                     <span className="text-gray-400 text-xs ml-2">{new Date(order.date).toLocaleString()}</span>
                                 </div>
                                 <span className="font-bold text-white">Rp {order.total.toLocaleString()}</span>
                             </div>
                             <div className="space-y-2 border-t border-dark-700 pt-2 mt-2">
-                                {order.items.map((item, idx) => (
-                                    <div key={idx} className="flex justify-between text-sm">
-                                        <span className="text-gray-300">{item.name} x{item.quantity}</span>
+                                {order.items.map((item, idx) => item.bundleItems?.length ? (
+                                    // A bundle grants each of its products' downloads
+                                    <div key={idx}>
+                                        <div className="text-sm text-gray-300">{item.name} x{item.quantity} <span className="text-xs text-secondary ml-1"><i className="fas fa-box-open"></i> Paket</span></div>
+                                        <div className="pl-3 mt-1 space-y-1 border-l border-dark-700">{item.bundleItems.map(b => downloadRow(order, b, b.name, CartService.lineKey({ id: b.productId, variantId: b.variantId })))}</div>
                                     </div>
-                                ))}
+                                ) : downloadRow(order, { productId: item.id, variantId: item.variantId, name: CartService.displayName(item) }, `${CartService.displayName(item)} x${item.quantity}`, idx))}
                             </div>
                             {order.voucherCode && <div className="text-xs text-green-400 mt-2">Voucher: {order.voucherCode} (-Rp {order.discountAmount?.toLocaleString()})</div>}
-                            <div className="mt-3 text-xs text-gray-500">Metode: {order.paymentMethod}</div>
+                            {order.taxAmount > 0 && <div className="text-xs text-gray-400 mt-1">{order.pricing?.taxLabel || 'Pajak'}{order.pricing ? ` ${order.pricing.taxRate}%` : ''}: Rp {order.taxAmount.toLocaleString()}</div>}
+                            <div className="mt-3 flex justify-between items-center text-xs text-gray-500"><span>Metode: {order.paymentMethod}</span>{order.invoiceNumber && <button onClick={() => InvoiceService.open(order, settings)} className="font-bold px-3 py-1 rounded-lg border border-dark-700 text-gray-300 hover:bg-dark-700"><i className="fas fa-file-invoice mr-1"></i> Invoice {order.invoiceNumber}</button>}</div>
+                            {order.status === 'PENDING' && (order.paymentUrl || order.payCode) && (
+                                <div className="mt-3 flex items-center justify-between bg-dark-900 p-3 rounded-lg border border-dark-700">
+                                    {order.payCode ? <span className="text-xs text-gray-400">Kode Bayar: <span className="font-mono text-white">{order.payCode}</span></span> : <span />}
+                                    {order.paymentUrl && <a href={order.paymentUrl} className="text-xs font-bold bg-primary hover:bg-indigo-600 text-white px-3 py-2 rounded-lg"><i className="fas fa-credit-card mr-1"></i> Lanjutkan Pembayaran</a>}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -593,40 +1307,172 @@ const CustomerHistory: React.FC = () => {
     )
 }
 
+// Local-mode download endpoint; in cloud mode links point at the download edge function instead
+const DownloadPage: React.FC = () => {
+    const { token } = useParams();
+    const { settings, orders, products, downloadLogs, addDownloadLog } = useAppContext();
+    const [payload, setPayload] = useState<{ orderId: string; productId: string; variantId?: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        DownloadService.verifyToken(settings.downloadSecret || '', token || '').then(setPayload).catch(e => setError(e.message));
+    }, [token, settings.downloadSecret]);
+
+    const order = payload ? orders.find(o => o.id === payload.orderId) : undefined;
+    const product = payload ? products.find(p => p.id === payload.productId) : undefined;
+    const limit = DownloadService.limit(settings);
+    const fileUrl = product && ProductService.fileUrl(product, payload?.variantId);
+    const used = payload ? DownloadService.downloadCount(downloadLogs, payload.orderId, payload.productId, payload.variantId) : 0;
+
+    let problem = error;
+    if (!problem && payload) {
+        if (!order || !DownloadService.hasItem(order, payload.productId, payload.variantId)) problem = 'Pesanan tidak ditemukan.';
+        else if (!DownloadService.isOrderDownloadable(order)) problem = 'Pesanan belum dibayar.';
+        else if (!fileUrl) problem = 'File produk belum tersedia. Hubungi admin.';
+        else if (used >= limit) problem = 'Batas download untuk produk ini sudah habis.';
+    }
+
+    return (
+        <div className="max-w-md mx-auto p-6 pb-24">
+            <div className="bg-dark-800 rounded-xl border border-dark-700 p-6 text-center">
+                <i className={`fas ${problem ? 'fa-exclamation-triangle text-red-400' : 'fa-file-download text-primary'} text-5xl mb-4`}></i>
+                {problem ? <p className="text-red-400">{problem}</p> : !payload ? <p className="text-gray-400">Memeriksa link...</p> : (
+                    <>
+                        <h2 className="text-xl font-bold text-white mb-1">{product!.name}{payload.variantId && ` (${ProductService.variant(product!, payload.variantId)?.name || 'Lisensi'})`}</h2>
+                        <p className="text-gray-400 text-sm mb-6">Sisa download: {limit - used}/{limit}</p>
+                        <a href={fileUrl} download={product!.name} target="_blank" rel="noreferrer" onClick={() => addDownloadLog({ id: generateUUID(), orderId: payload.orderId, productId: payload.productId, variantId: payload.variantId, downloadedAt: new Date().toISOString() })} className="block w-full bg-primary hover:bg-indigo-600 text-white font-bold py-3 rounded-xl"><i className="fas fa-download mr-2"></i> Unduh File</a>
+                    </>
+                )}
+                <Link to="/history" className="block mt-4 text-gray-500 hover:text-white text-sm">Kembali ke Riwayat</Link>
+            </div>
+        </div>
+    );
+};
+
 const CustomerHome: React.FC = () => {
-  const { products, settings, addToCart, setReferralCode } = useAppContext();
-  const [searchParams] = useSearchParams();
-  const [categoryFilter, setCategoryFilter] = useState('All');
-  useEffect(() => { const ref = searchParams.get('ref'); if (ref) setReferralCode(ref); }, [searchParams, setReferralCode]);
+  const { products, orders, settings, addToCart } = useAppContext();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  useReferralParam();
+  // Search, filters and sort live in the query string (next to ref), so a filtered view can be shared
+  const query = CatalogService.parse(searchParams);
+  const updateQuery = (patch: Partial<CatalogQuery>) => setSearchParams(CatalogService.toParams({ ...query, ...patch }, searchParams), { replace: true });
+  const priceInput = (value: string) => value === '' ? undefined : Math.max(0, Number(value));
+  const isCategoryPage = location.pathname === '/categories';
   const categories = ['All', ...Array.from(new Set(products.map(p => p.category)))];
-  const filteredProducts = categoryFilter === 'All' ? products : products.filter(p => p.category === categoryFilter);
+  const sales = useMemo(() => CatalogService.salesCount(orders), [orders]);
+  const filteredProducts = CatalogService.search(products, query, sales);
+  const bundles = filteredProducts.filter(ProductService.isBundle);
+  const singles = filteredProducts.filter(p => !ProductService.isBundle(p));
+  const handleAdd = (p: Product, variantId?: string) => alert(addToCart(p, variantId) ? "Produk ditambahkan!" : "Jumlah produk ini di keranjang sudah maksimal.");
   return (
     <div className="pb-20">
-      <div className="relative bg-dark-800 overflow-hidden"><div className="absolute inset-0 bg-gradient-to-r from-primary/20 to-secondary/20 z-0"></div><div className="max-w-6xl mx-auto px-6 py-16 relative z-10 text-center md:text-left"><h1 className="text-4xl md:text-5xl font-extrabold text-white mb-4 leading-tight">Produk Digital Terbaik <br/><span className="text-primary">Untuk Kebutuhanmu</span></h1><p className="text-gray-300 text-lg mb-6 max-w-xl">{settings.description}</p><button onClick={() => document.getElementById('products')?.scrollIntoView({ behavior: 'smooth'})} className="bg-primary hover:bg-indigo-600 text-white px-8 py-3 rounded-full font-bold">Belanja Sekarang</button></div></div>
-      <div className="max-w-6xl mx-auto px-6 py-8 overflow-x-auto no-scrollbar"><div className="flex space-x-4">{categories.map(cat => <button key={cat} onClick={() => setCategoryFilter(cat)} className={`px-6 py-2 rounded-full border whitespace-nowrap transition-colors ${categoryFilter === cat ? 'bg-primary border-primary text-white' : 'bg-dark-800 border-dark-700 text-gray-400 hover:bg-dark-700'}`}>{cat}</button>)}</div></div>
-      <div id="products" className="max-w-6xl mx-auto px-6 mb-12"><h2 className="text-2xl font-bold text-white mb-6">Produk Terbaru</h2><div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">{filteredProducts.map(p => <ProductCard key={p.id} product={p} onAdd={() => { addToCart(p); alert("Produk ditambahkan!"); }} />)}</div></div>
+      {!isCategoryPage && <div className="relative bg-dark-800 overflow-hidden"><div className="absolute inset-0 bg-gradient-to-r from-primary/20 to-secondary/20 z-0"></div><div className="max-w-6xl mx-auto px-6 py-16 relative z-10 text-center md:text-left"><h1 className="text-4xl md:text-5xl font-extrabold text-white mb-4 leading-tight">Produk Digital Terbaik <br/><span className="text-primary">Untuk Kebutuhanmu</span></h1><p className="text-gray-300 text-lg mb-6 max-w-xl">{settings.description}</p><button onClick={() => document.getElementById('products')?.scrollIntoView({ behavior: 'smooth'})} className="bg-primary hover:bg-indigo-600 text-white px-8 py-3 rounded-full font-bold">Belanja Sekarang</button></div></div>}
+      <div className="max-w-6xl mx-auto px-6 pt-8 space-y-4">
+        {isCategoryPage && <h1 className="text-2xl font-bold text-white">Kategori</h1>}
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="relative flex-1"><i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-gray-500"></i><input type="search" value={query.q} onChange={e => updateQuery({ q: e.target.value })} placeholder="Cari produk, kategori, deskripsi..." className="w-full bg-dark-800 border border-dark-700 rounded-full pl-11 pr-4 py-2.5 text-white" /></div>
+          <div className="flex gap-2 items-center"><input type="number" min={0} value={query.minPrice ?? ''} onChange={e => updateQuery({ minPrice: priceInput(e.target.value) })} placeholder="Harga min" className="w-28 bg-dark-800 border border-dark-700 rounded-full px-4 py-2.5 text-white text-sm" /><span className="text-gray-500">–</span><input type="number" min={0} value={query.maxPrice ?? ''} onChange={e => updateQuery({ maxPrice: priceInput(e.target.value) })} placeholder="Harga maks" className="w-28 bg-dark-800 border border-dark-700 rounded-full px-4 py-2.5 text-white text-sm" /></div>
+          <select value={query.sort} onChange={e => updateQuery({ sort: e.target.value as CatalogSort })} className="bg-dark-800 border border-dark-700 rounded-full px-4 py-2.5 text-white text-sm">{CATALOG_SORTS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}</select>
+        </div>
+        <div className="overflow-x-auto no-scrollbar pb-2"><div className="flex space-x-4">{categories.map(cat => <button key={cat} onClick={() => updateQuery({ category: cat })} className={`px-6 py-2 rounded-full border whitespace-nowrap transition-colors ${query.category === cat ? 'bg-primary border-primary text-white' : 'bg-dark-800 border-dark-700 text-gray-400 hover:bg-dark-700'}`}>{cat}</button>)}</div></div>
+        {CatalogService.isFiltered(query) && <div className="flex justify-between items-center text-sm text-gray-400"><span>{filteredProducts.length} produk ditemukan</span><button onClick={() => updateQuery({ q: '', category: 'All', minPrice: undefined, maxPrice: undefined })} className="text-primary hover:text-indigo-400"><i className="fas fa-times mr-1"></i> Reset filter</button></div>}
+      </div>
+      {bundles.length > 0 && <div className="max-w-6xl mx-auto px-6 mt-8 mb-12"><h2 className="text-2xl font-bold text-white mb-6"><i className="fas fa-box-open text-secondary mr-2"></i>Paket Hemat</h2><div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">{bundles.map(p => <ProductCard key={p.id} product={p} savings={ProductService.bundleSavings(p, products)} onAdd={variantId => handleAdd(p, variantId)} />)}</div></div>}
+      <div id="products" className="max-w-6xl mx-auto px-6 mt-8 mb-12"><h2 className="text-2xl font-bold text-white mb-6">{query.q ? `Hasil untuk "${query.q.trim()}"` : isCategoryPage || query.category !== 'All' ? (query.category === 'All' ? 'Semua Produk' : query.category) : 'Produk Terbaru'}</h2>{filteredProducts.length === 0 ? <div className="text-center py-12 text-gray-500 bg-dark-800 rounded-xl border border-dark-700">Tidak ada produk yang cocok.</div> : <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">{singles.map(p => <ProductCard key={p.id} product={p} onAdd={variantId => handleAdd(p, variantId)} />)}</div>}</div>
+    </div>
+  );
+};
+
+const ProductDetail: React.FC = () => {
+  const { slug } = useParams();
+  const { products, settings, addToCart, reviews } = useAppContext();
+  const product = ProductService.bySlug(products, decodeURIComponent(slug || ''));
+  const [variantId, setVariantId] = useState<string>();
+  const [activeImage, setActiveImage] = useState(0);
+  useReferralParam();
+  usePageTitle(product ? `${product.name} | ${settings.storeName}` : null);
+  useEffect(() => { setVariantId(undefined); setActiveImage(0); window.scrollTo(0, 0); }, [product?.id]);
+  const description = useMemo(() => MarkdownService.toHtml(product?.description || ''), [product?.description]);
+
+  if (!product) return <div className="min-h-screen flex flex-col items-center justify-center p-6 text-center"><i className="fas fa-search text-6xl text-dark-700 mb-4"></i><h2 className="text-xl font-bold text-white mb-2">Produk tidak ditemukan</h2><Link to="/" className="text-primary">Kembali Belanja</Link></div>;
+
+  const images = [product.image, ...(product.gallery || [])].filter(Boolean);
+  const variant = ProductService.variant(product, variantId) || ProductService.defaultVariant(product);
+  const selected = variant || product;
+  const savings = ProductService.isBundle(product) ? ProductService.bundleSavings(product, products) : 0;
+  const related = ProductService.related(product, products);
+  const rating = ReviewService.summary(reviews, product.id);
+  const productReviews = ReviewService.forProduct(reviews, product.id);
+  const handleAdd = (p: Product, id?: string) => alert(addToCart(p, id) ? "Produk ditambahkan!" : "Jumlah produk ini di keranjang sudah maksimal.");
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 pb-24">
+      <Link to="/" className="text-sm text-gray-400 hover:text-white"><i className="fas fa-arrow-left mr-2"></i>Kembali</Link>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mt-4">
+        <div>
+          <div className="bg-dark-800 rounded-xl overflow-hidden border border-dark-700 aspect-square"><img src={images[activeImage] || product.image} alt={product.name} className="w-full h-full object-cover" /></div>
+          {images.length > 1 && <div className="flex gap-2 mt-3 overflow-x-auto no-scrollbar">{images.map((src, idx) => <button key={idx} onClick={() => setActiveImage(idx)} className={`w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden border-2 ${idx === activeImage ? 'border-primary' : 'border-dark-700'}`}><img src={src} alt={`${product.name} ${idx + 1}`} className="w-full h-full object-cover" /></button>)}</div>}
+        </div>
+        <div>
+          <div className="text-xs text-primary mb-1 font-semibold uppercase tracking-wider">{product.category}</div>
+          <h1 className="text-3xl font-bold text-white mb-2">{product.name}</h1>
+          <div className="flex items-center gap-2 mb-4 text-sm text-gray-400">{rating.count > 0 ? <><StarRating value={rating.average} className="text-sm" /><span>{rating.average.toFixed(1)} dari {rating.count} ulasan</span></> : <span>Belum ada ulasan</span>}{product.isPopular && <span className="text-yellow-400 font-bold ml-2"><i className="fas fa-fire mr-1"></i>Populer</span>}</div>
+          <div className="mb-4">{selected.discountPrice ? <><span className="text-gray-400 line-through mr-2">Rp {selected.price.toLocaleString()}</span><span className="text-3xl font-bold text-white">Rp {selected.discountPrice.toLocaleString()}</span></> : <span className="text-3xl font-bold text-white">Rp {selected.price.toLocaleString()}</span>}</div>
+          {savings > 0 && <div className="text-sm font-bold text-green-400 mb-4">Hemat Rp {savings.toLocaleString()} dibanding beli satuan</div>}
+          {ProductService.hasVariants(product) && <div className="mb-4"><label className="block text-sm text-gray-400 mb-2">Pilih Lisensi</label><div className="grid gap-2">{product.variants!.map(v => <button key={v.id} onClick={() => setVariantId(v.id)} className={`flex justify-between items-center p-3 rounded-lg border text-left ${variant?.id === v.id ? 'bg-primary/20 border-primary' : 'bg-dark-800 border-dark-700'}`}><span className="text-white font-medium">{v.name}</span><span className="text-sm text-gray-300">Rp {(v.discountPrice || v.price).toLocaleString()}</span></button>)}</div></div>}
+          {ProductService.isBundle(product) && <div className="mb-4 bg-dark-800 border border-dark-700 rounded-lg p-4"><p className="text-sm text-gray-400 mb-2">Isi paket:</p><ul className="space-y-1">{product.bundleItems!.map(item => { const included = products.find(p => p.id === item.productId); return <li key={`${item.productId}:${item.variantId || ''}`} className="text-sm text-gray-300"><i className="fas fa-check text-green-400 mr-2"></i>{included ? <Link to={ProductService.path(included)} className="hover:text-primary">{item.name}</Link> : item.name}</li>; })}</ul></div>}
+          {product.singleLicense && <p className="text-xs text-gray-500 mb-4"><i className="fas fa-info-circle mr-1"></i> Maksimal 1 lisensi per pesanan.</p>}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button onClick={() => handleAdd(product, variant?.id)} className="flex-1 bg-primary hover:bg-indigo-600 text-white py-3 rounded-lg font-bold flex items-center justify-center gap-2"><i className="fas fa-shopping-cart"></i> Tambah ke Keranjang</button>
+            {product.previewUrl && <a href={product.previewUrl} target="_blank" rel="noreferrer" download className="flex-1 border border-dark-700 hover:bg-dark-800 text-gray-200 py-3 rounded-lg font-bold flex items-center justify-center gap-2"><i className="fas fa-eye"></i> Lihat Contoh</a>}
+          </div>
+        </div>
+      </div>
+      {description && <div className="mt-10 bg-dark-800 border border-dark-700 rounded-xl p-6"><h2 className="text-xl font-bold text-white mb-4">Deskripsi</h2><div className="text-gray-300 space-y-3 leading-relaxed" dangerouslySetInnerHTML={{ __html: description }} /></div>}
+      <div className="mt-10 bg-dark-800 border border-dark-700 rounded-xl p-6">
+        <h2 className="text-xl font-bold text-white mb-1">Ulasan Pembeli</h2>
+        <p className="text-xs text-gray-500 mb-4">Hanya pembeli dengan pesanan lunas yang bisa memberi ulasan, dari halaman Riwayat Pesanan.</p>
+        {productReviews.length === 0 ? <p className="text-sm text-gray-400">Belum ada ulasan untuk produk ini.</p> : <div className="space-y-4 divide-y divide-dark-700">{productReviews.map(r => (
+          <div key={r.id} className="pt-4 first:pt-0">
+            <div className="flex items-center justify-between"><span className="font-bold text-white text-sm">{r.customerName} <span className="text-xs text-green-400 font-normal ml-1"><i className="fas fa-check-circle"></i> Pembeli terverifikasi</span></span><span className="text-xs text-gray-500">{new Date(r.createdAt).toLocaleDateString()}</span></div>
+            <StarRating value={r.rating} />
+            {r.comment && <p className="text-sm text-gray-300 mt-1 whitespace-pre-line">{r.comment}</p>}
+            {r.reply && <div className="mt-2 ml-4 pl-3 border-l-2 border-primary text-sm text-gray-400"><span className="font-bold text-primary text-xs block">Balasan {settings.storeName}</span>{r.reply}</div>}
+          </div>
+        ))}</div>}
+      </div>
+      {related.length > 0 && <div className="mt-10"><h2 className="text-xl font-bold text-white mb-6">Produk Terkait</h2><div className="grid grid-cols-2 md:grid-cols-4 gap-6">{related.map(p => <ProductCard key={p.id} product={p} onAdd={id => handleAdd(p, id)} />)}</div></div>}
     </div>
   );
 };
 
 const CustomerCart: React.FC = () => {
-  const { cart, removeFromCart, clearCart, settings, paymentMethods, vouchers, referralCode, affiliates, updateAffiliates, user, addOrder } = useAppContext();
+  const { cart, products, updateCartQuantity, removeFromCart, clearCart, revalidateCart, settings, paymentMethods, vouchers, orders, referralCode, affiliates, user, addOrder, supabase } = useAppContext();
   const [selectedPayment, setSelectedPayment] = useState<string>('');
   const [voucherCode, setVoucherCode] = useState('');
   const [appliedVoucher, setAppliedVoucher] = useState<Voucher | null>(null);
+  const [tripayChannel, setTripayChannel] = useState(TRIPAY_CHANNELS[0].code);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [priceChanges, setPriceChanges] = useState<CartChange[]>([]);
   const navigate = useNavigate();
 
-  const subTotal = cart.reduce((sum, item) => sum + ((item.discountPrice || item.price) * item.quantity), 0);
-  let discountAmount = 0;
-  if (appliedVoucher) discountAmount = appliedVoucher.type === 'PERCENT' ? (subTotal * appliedVoucher.value) / 100 : appliedVoucher.value;
-  const total = Math.max(0, subTotal - discountAmount);
+  useEffect(() => { const changes = revalidateCart(); if (changes.length) setPriceChanges(changes); }, [products]);
+
+  const customer = user?.role === 'CUSTOMER' ? { id: user.id, phone: user.phone } : null;
+  // Re-checked on every cart change, e.g. removing the product a scoped voucher applied to
+  const voucherCheck = appliedVoucher ? VoucherService.check(vouchers.find(v => v.id === appliedVoucher.id), { items: cart, orders, customer }) : null;
+  const activeVoucher = voucherCheck?.valid ? appliedVoucher : null;
+  const affiliate = referralCode ? affiliates.find(a => a.code === referralCode.toUpperCase() && a.isActive) : undefined;
+  const pricing = PricingService.quote({ items: cart, voucher: activeVoucher, referral: affiliate, tax: PricingService.taxConfig(settings) });
 
   const handleApplyVoucher = () => {
-    const found = vouchers.find(v => v.code === voucherCode.toUpperCase() && v.isActive);
-    if (found) { setAppliedVoucher(found); alert("Voucher digunakan!"); } else { alert("Voucher tidak valid"); setAppliedVoucher(null); }
+    const found = vouchers.find(v => v.code === voucherCode.toUpperCase());
+    const check = VoucherService.check(found, { items: cart, orders, customer });
+    if (check.valid) { setAppliedVoucher(found!); alert("Voucher digunakan!"); } else { alert(check.reason); setAppliedVoucher(null); }
   };
 
-  const handleCheckout = () => {
+  const handleCheckout = async () => {
     if (!selectedPayment) return alert('Pilih metode pembayaran');
     if (cart.length === 0) return alert('Keranjang kosong');
     // Require login for history feature
@@ -635,38 +1481,79 @@ const CustomerCart: React.FC = () => {
         navigate('/login');
         return;
     }
+    if (voucherCheck && !voucherCheck.valid) return alert(voucherCheck.reason);
+    // Stop so the buyer sees the new total before paying it
+    const changes = revalidateCart();
+    if (changes.length) { setPriceChanges(changes); return alert('Harga beberapa produk berubah. Periksa kembali total belanja Anda.'); }
 
     const paymentMethod = paymentMethods.find(p => p.id === selectedPayment);
-    
-    // Save Order to DB
-    const newOrder: Order = {
-        id: generateUUID(),
-        customerName: user.name,
-        customerWhatsapp: user.phone || '',
+    const isTripay = paymentMethod?.type === 'TRIPAY';
+    if (isTripay && !(supabase ? settings.tripayEnabled : TripayService.isConfigured(settings))) return alert('Pembayaran Tripay belum tersedia, silakan pilih metode lain.');
+
+    // Prices, voucher and referral are checked again against the catalog; in the cloud the server places the order
+    const request: CheckoutRequest = {
+        orderId: generateUUID(),
         items: [...cart],
-        total: total,
-        paymentMethod: paymentMethod?.name || 'Unknown',
-        status: 'PENDING',
-        date: new Date().toISOString(),
-        voucherCode: appliedVoucher?.code,
-        discountAmount: discountAmount
+        paymentMethodId: selectedPayment,
+        voucherId: activeVoucher?.id,
+        referralCode: affiliate?.code,
+        total: pricing.total,
     };
-    addOrder(newOrder);
-
-    // Affiliate Logic
-    if (referralCode) {
-      const affiliate = affiliates.find(a => a.code === referralCode);
-      if (affiliate && affiliate.isActive) {
-        const commission = Math.round((subTotal * affiliate.commissionRate) / 100);
-        updateAffiliates(affiliates.map(a => a.id === affiliate.id ? { ...a, totalEarnings: a.totalEarnings + commission } : a));
-      }
+    setIsProcessing(true);
+    let placed: PlacedOrder;
+    try {
+        if (supabase) {
+            const { data, error } = await supabase.functions.invoke('place-order', { body: request });
+            if (error || !data?.order) throw new Error(await functionErrorMessage(error) || 'Pesanan gagal dibuat');
+            placed = data;
+        } else {
+            placed = CheckoutService.place(request, { products, paymentMethods, voucher: vouchers.find(v => v.id === activeVoucher?.id), orders, affiliate, settings }, { id: user.id, name: user.name, phone: user.phone || '' }, generateUUID());
+        }
+    } catch (e: any) {
+        setIsProcessing(false);
+        alert(e.message || e);
+        return;
+    }
+    let { order } = placed;
+    const { commission } = placed;
+
+    // Tripay: the closed-payment transaction is made for the stored order and recorded on it
+    let tripayTx: TripayTransaction | null = null;
+    try {
+        if (isTripay) {
+            const returnUrl = `${window.location.origin}${window.location.pathname}#/history`;
+            let tx: TripayTransaction;
+            if (supabase) {
+                const paymentRequest: TripayPaymentRequest = { orderId: order.id, method: tripayChannel, returnUrl };
+                const { data, error } = await supabase.functions.invoke('tripay-transaction', { body: paymentRequest });
+                if (error || !data?.reference) {
+                    addOrder(order, commission);
+                    throw new Error(`${await functionErrorMessage(error) || 'Transaksi tidak dibuat'}. Pesanan tersimpan tanpa pembayaran.`);
+                }
+                tx = data;
+            } else tx = await TripayService.createTransaction(settings, TripayService.requestFor(order, tripayChannel, settings.email, returnUrl));
+            tripayTx = tx;
+            order = { ...order, ...TripayService.orderFields(tx, order.paymentMethod) };
+        }
+    } catch (e: any) {
+        alert('Gagal membuat transaksi Tripay: ' + (e.message || e));
+        return;
+    } finally { setIsProcessing(false); }
+    addOrder(order, commission);
+
+    if (tripayTx) {
+      clearCart();
+      // Without a hosted checkout page the pay code / instructions are shown in the order history
+      if (tripayTx.checkoutUrl) window.location.href = tripayTx.checkoutUrl; else navigate('/history');
+      return;
     }
     
     let message = `Halo *${settings.storeName}*, saya ingin memesan:\n\n`;
-    cart.forEach((item, idx) => { message += `${idx + 1}. ${item.name} x${item.quantity} - Rp ${(item.discountPrice || item.price).toLocaleString()}\n`; });
-    message += `\nSubtotal: Rp ${subTotal.toLocaleString()}`;
-    if (appliedVoucher) message += `\nVoucher (${appliedVoucher.code}): -Rp ${discountAmount.toLocaleString()}`;
-    message += `\n*Total Akhir: Rp ${total.toLocaleString()}*`;
+    pricing.lines.forEach((line, idx) => { message += `${idx + 1}. ${line.name} x${line.quantity} - Rp ${line.unitPrice.toLocaleString()}\n`; });
+    message += `\nSubtotal: Rp ${pricing.subtotal.toLocaleString()}`;
+    if (pricing.discount) message += `\nVoucher (${pricing.voucherCode}): -Rp ${pricing.discount.toLocaleString()}`;
+    if (pricing.tax) message += `\n${pricing.taxLabel} ${pricing.taxRate}%${pricing.taxInclusive ? ' (termasuk)' : ''}: Rp ${pricing.tax.toLocaleString()}`;
+    message += `\n*Total Akhir: Rp ${pricing.total.toLocaleString()}*`;
     message += `\nMetode Pembayaran: ${paymentMethod?.name}`;
     message += `\nNama: ${user.name}`;
     if (referralCode) message += `\nRef: ${referralCode}`;
@@ -683,13 +1570,122 @@ const CustomerCart: React.FC = () => {
     <div className="max-w-2xl mx-auto p-6 pb-24">
       <h1 className="text-2xl font-bold text-white mb-6">Checkout</h1>
       <div className="bg-dark-800 rounded-xl overflow-hidden mb-6 border border-dark-700">
-        {cart.map(item => (<div key={item.id} className="flex items-center gap-4 p-4 border-b border-dark-700"><img src={item.image} className="w-16 h-16 object-cover rounded" /><div className="flex-1"><h4 className="font-bold text-white text-sm">{item.name}</h4><p className="text-primary text-sm">Rp {(item.discountPrice || item.price).toLocaleString()} x {item.quantity}</p></div><button onClick={() => removeFromCart(item.id)} className="text-red-400 p-2"><i className="fas fa-trash"></i></button></div>))}
-        <div className="p-4 bg-dark-900 border-b border-dark-700"><div className="flex gap-2"><input type="text" value={voucherCode} onChange={(e) => setVoucherCode(e.target.value.toUpperCase())} placeholder="Kode voucher?" className="flex-1 bg-dark-800 border border-dark-700 rounded-lg px-3 py-2 text-white uppercase" /><button onClick={handleApplyVoucher} className="bg-secondary text-white px-4 py-2 rounded-lg text-sm">Pakai</button></div>{appliedVoucher && <div className="mt-2 text-green-400 text-sm">Voucher aktif!</div>}</div>
-        <div className="p-4 bg-dark-900 space-y-2"><div className="flex justify-between text-gray-400 text-sm"><span>Subtotal</span><span>Rp {subTotal.toLocaleString()}</span></div>{appliedVoucher && <div className="flex justify-between text-green-400 text-sm"><span>Diskon</span><span>-Rp {discountAmount.toLocaleString()}</span></div>}<div className="flex justify-between border-t border-dark-700 pt-2 mt-2"><span className="text-gray-300">Total</span><span className="text-xl font-bold text-white">Rp {total.toLocaleString()}</span></div></div>
+        {priceChanges.length > 0 && (<div className="p-4 bg-yellow-500/10 border-b border-yellow-500/30 text-sm text-yellow-300"><div className="flex justify-between items-start"><p className="font-bold mb-1"><i className="fas fa-exclamation-triangle mr-1"></i> Keranjang diperbarui</p><button onClick={() => setPriceChanges([])} className="text-yellow-300/70 hover:text-yellow-200"><i className="fas fa-times"></i></button></div><ul className="space-y-0.5">{priceChanges.map(c => <li key={c.key}>{c.name}: {c.newPrice === null ? 'tidak dijual lagi, dihapus dari keranjang' : <>Rp {c.oldPrice.toLocaleString()} → Rp {c.newPrice.toLocaleString()}</>}</li>)}</ul></div>)}
+        {cart.map(item => (<div key={CartService.lineKey(item)} className="flex items-center gap-4 p-4 border-b border-dark-700"><img src={item.image} className="w-16 h-16 object-cover rounded" /><div className="flex-1"><h4 className="font-bold text-white text-sm">{item.name}</h4>{item.variantName && <p className="text-xs text-gray-400">Lisensi {item.variantName}</p>}<p className="text-primary text-sm">Rp {(item.discountPrice || item.price).toLocaleString()}</p></div>{item.singleLicense ? <span className="text-xs text-gray-400 px-2">1 lisensi</span> : <div className="flex items-center border border-dark-700 rounded-lg"><button onClick={() => updateCartQuantity(CartService.lineKey(item), item.quantity - 1)} disabled={item.quantity <= 1} className="px-2 py-1 text-gray-300 disabled:opacity-30"><i className="fas fa-minus text-xs"></i></button><input type="number" min={1} max={CartService.maxQuantity(item)} value={item.quantity} onChange={e => updateCartQuantity(CartService.lineKey(item), Number(e.target.value))} className="w-10 bg-transparent text-center text-white text-sm" /><button onClick={() => updateCartQuantity(CartService.lineKey(item), item.quantity + 1)} disabled={item.quantity >= CartService.maxQuantity(item)} className="px-2 py-1 text-gray-300 disabled:opacity-30"><i className="fas fa-plus text-xs"></i></button></div>}<button onClick={() => removeFromCart(CartService.lineKey(item))} className="text-red-400 p-2"><i className="fas fa-trash"></i></button></div>))}
+        <div className="p-4 bg-dark-900 border-b border-dark-700"><div className="flex gap-2"><input type="text" value={voucherCode} onChange={(e) => setVoucherCode(e.target.value.toUpperCase())} placeholder="Kode voucher?" className="flex-1 bg-dark-800 border border-dark-700 rounded-lg px-3 py-2 text-white uppercase" /><button onClick={handleApplyVoucher} className="bg-secondary text-white px-4 py-2 rounded-lg text-sm">Pakai</button></div>{voucherCheck && (voucherCheck.valid ? <div className="mt-2 text-green-400 text-sm">Voucher aktif!</div> : <div className="mt-2 text-yellow-400 text-sm">{voucherCheck.reason}</div>)}</div>
+        <div className="p-4 bg-dark-900 space-y-2"><div className="flex justify-between text-gray-400 text-sm"><span>Subtotal</span><span>Rp {pricing.subtotal.toLocaleString()}</span></div>{pricing.discount > 0 && <div className="flex justify-between text-green-400 text-sm"><span>Diskon</span><span>-Rp {pricing.discount.toLocaleString()}</span></div>}{pricing.tax > 0 && <div className="flex justify-between text-gray-400 text-sm"><span>{pricing.taxLabel} {pricing.taxRate}%{pricing.taxInclusive && ' (termasuk)'}</span><span>Rp {pricing.tax.toLocaleString()}</span></div>}<div className="flex justify-between border-t border-dark-700 pt-2 mt-2"><span className="text-gray-300">Total</span><span className="text-xl font-bold text-white">Rp {pricing.total.toLocaleString()}</span></div></div>
       </div>
       <h2 className="text-lg font-bold text-white mb-3">Pilih Pembayaran</h2>
       <div className="grid gap-3 mb-6">{paymentMethods.map(pm => (<div key={pm.id} onClick={() => setSelectedPayment(pm.id)} className={`cursor-pointer p-4 rounded-xl border flex items-center justify-between ${selectedPayment === pm.id ? 'bg-primary/20 border-primary' : 'bg-dark-800 border-dark-700'}`}><span className="font-medium text-white">{pm.name}</span>{selectedPayment === pm.id && <i className="fas fa-check-circle text-primary"></i>}</div>))}</div>
-      <button onClick={handleCheckout} className="w-full bg-green-500 hover:bg-green-600 text-white font-bold py-4 rounded-xl shadow-lg flex items-center justify-center gap-2"><i className="fab fa-whatsapp text-xl"></i> Konfirmasi Pesanan</button>
+      {selectedPaymentDetails?.type === 'TRIPAY' && (<div className="mb-6"><label className="block text-sm text-gray-400 mb-1">Channel Pembayaran</label><select value={tripayChannel} onChange={e => setTripayChannel(e.target.value)} className="w-full bg-dark-800 border border-dark-700 rounded-lg px-4 py-3 text-white">{TRIPAY_CHANNELS.map(ch => <option key={ch.code} value={ch.code}>{ch.name}</option>)}</select></div>)}
+      <button onClick={handleCheckout} disabled={isProcessing} className="w-full bg-green-500 hover:bg-green-600 disabled:bg-gray-600 text-white font-bold py-4 rounded-xl shadow-lg flex items-center justify-center gap-2">{isProcessing ? <><i className="fas fa-spinner fa-spin"></i> Memproses...</> : selectedPaymentDetails?.type === 'TRIPAY' ? <><i className="fas fa-credit-card text-xl"></i> Bayar Sekarang</> : <><i className="fab fa-whatsapp text-xl"></i> Konfirmasi Pesanan</>}</button>
+    </div>
+  );
+};
+
+// --- Affiliate Views ---
+
+const AffiliateDashboard: React.FC = () => {
+  const { user, affiliates, orders, referralClicks, payouts, products, commissions, updateBankDetails } = useAppContext();
+  const affiliate = affiliates.find(a => a.id === user?.id);
+  const [target, setTarget] = useState('');
+  const [bankDetails, setBankDetails] = useState(affiliate?.bankDetails || '');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => { setBankDetails(affiliate?.bankDetails || ''); }, [affiliate?.bankDetails]);
+
+  if (!affiliate) return <Navigate to="/account" />;
+
+  const myClicks = referralClicks.filter(c => c.affiliateId === affiliate.id);
+  const myOrders = orders.filter(o => o.affiliateId === affiliate.id).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const convertedOrders = myOrders.filter(o => o.status !== 'CANCELLED');
+  const conversionRate = myClicks.length > 0 ? (convertedOrders.length / myClicks.length) * 100 : 0;
+  const commissionByOrder = new Map(commissions.filter(c => c.affiliateId === affiliate.id).map(c => [c.orderId, c]));
+  const pendingCommission = CommissionService.sum(commissions, affiliate.id, ['PENDING']);
+  const approvedCommission = CommissionService.sum(commissions, affiliate.id, ['APPROVED']);
+  const myPayouts = payouts.filter(p => p.affiliateId === affiliate.id && p.status !== 'CANCELLED').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const categories = Array.from(new Set(products.map(p => p.category)));
+
+  const baseUrl = `${window.location.origin}${window.location.pathname}#/`;
+  // target is '', 'category:<name>' or 'product:<id>'; a product link opens its detail page
+  const [targetKind, targetValue] = target.split(/:(.*)/s);
+  const targetProduct = targetKind === 'product' ? products.find(p => p.id === targetValue) : undefined;
+  const ref = `ref=${encodeURIComponent(affiliate.code)}`;
+  const referralLink = targetProduct
+    ? `${baseUrl}${ProductService.path(targetProduct).slice(1)}?${ref}`
+    : `${baseUrl}?${ref}${targetKind === 'category' ? `&category=${encodeURIComponent(targetValue)}` : ''}`;
+  const handleCopy = async () => {
+    try { await navigator.clipboard.writeText(referralLink); setCopied(true); setTimeout(() => setCopied(false), 2000); } catch { prompt('Salin link berikut:', referralLink); }
+  };
+  // Only show enough of the buyer's number to tell orders apart
+  const maskPhone = (phone: string) => phone.length > 4 ? `${'*'.repeat(phone.length - 4)}${phone.slice(-4)}` : phone;
+
+  const stats = [
+    { label: 'Klik', value: myClicks.length.toLocaleString(), icon: 'fa-mouse-pointer', color: 'text-blue-500 bg-blue-500/20' },
+    { label: 'Pesanan', value: convertedOrders.length.toLocaleString(), icon: 'fa-shopping-bag', color: 'text-purple-500 bg-purple-500/20' },
+    { label: 'Konversi', value: `${conversionRate.toFixed(1)}%`, icon: 'fa-percentage', color: 'text-primary bg-primary/20' },
+    { label: 'Komisi Pending', value: `Rp ${pendingCommission.toLocaleString()}`, icon: 'fa-hourglass-half', color: 'text-yellow-500 bg-yellow-500/20' },
+    { label: 'Komisi Disetujui', value: `Rp ${approvedCommission.toLocaleString()}`, icon: 'fa-check-circle', color: 'text-green-500 bg-green-500/20' },
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 pb-24 space-y-6">
+      <div className="flex justify-between items-center">
+        <div><h2 className="text-2xl font-bold text-white">Dashboard Afiliasi</h2><p className="text-gray-400 text-sm">{affiliate.name} · Kode <span className="font-mono text-primary">{affiliate.code}</span> · Komisi {affiliate.commissionRate}%</p></div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(s => (
+          <div key={s.label} className="bg-dark-800 p-4 rounded-xl border border-dark-700">
+            <div className={`w-10 h-10 rounded-full flex items-center justify-center mb-3 ${s.color}`}><i className={`fas ${s.icon}`}></i></div>
+            <p className="text-gray-400 text-xs">{s.label}</p><h3 className="text-lg font-bold text-white mt-1">{s.value}</h3>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+        <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Link Referral</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <select value={target} onChange={e => setTarget(e.target.value)} className="bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white"><option value="">Semua Produk</option><optgroup label="Kategori">{categories.map(cat => <option key={cat} value={`category:${cat}`}>Kategori: {cat}</option>)}</optgroup><optgroup label="Produk">{products.map(p => <option key={p.id} value={`product:${p.id}`}>{p.name}</option>)}</optgroup></select>
+          <input readOnly value={referralLink} onFocus={e => e.target.select()} className="md:col-span-2 bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white text-sm font-mono" />
+        </div>
+        <button onClick={handleCopy} className="mt-3 bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm"><i className={`fas ${copied ? 'fa-check' : 'fa-copy'} mr-2`}></i>{copied ? 'Tersalin!' : 'Salin Link'}</button>
+      </div>
+
+      <div className="bg-dark-800 rounded-xl border border-dark-700 overflow-hidden">
+        <h3 className="text-lg font-bold text-white p-6 pb-2">Pesanan dari Referral</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-400">
+            <thead className="bg-dark-900 text-gray-200"><tr><th className="px-6 py-3">Tanggal</th><th className="px-6 py-3">Pembeli</th><th className="px-6 py-3">Total</th><th className="px-6 py-3">Komisi</th><th className="px-6 py-3">Status</th></tr></thead>
+            <tbody className="divide-y divide-dark-700">
+              {myOrders.length === 0 ? <tr><td colSpan={5} className="px-6 py-8 text-center">Belum ada pesanan dari link Anda.</td></tr> : myOrders.map(o => (
+                <tr key={o.id}><td className="px-6 py-3">{new Date(o.date).toLocaleDateString()}</td><td className="px-6 py-3 font-mono">{maskPhone(o.customerWhatsapp)}</td><td className="px-6 py-3">Rp {o.total.toLocaleString()}</td><td className="px-6 py-3 text-white font-bold">Rp {(commissionByOrder.get(o.id)?.amount || 0).toLocaleString()}</td><td className="px-6 py-3"><span className={`text-xs font-bold px-2 py-1 rounded ${ORDER_STATUS_STYLES[o.status]}`}>{ORDER_STATUS_LABELS[o.status]}</span>{commissionByOrder.get(o.id) && <span className={`ml-2 text-xs font-bold px-2 py-1 rounded ${COMMISSION_STATUS_STYLES[commissionByOrder.get(o.id)!.status]}`}>{COMMISSION_STATUS_LABELS[commissionByOrder.get(o.id)!.status]}</span>}</td></tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+          <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Riwayat Pembayaran Komisi</h3>
+          {myPayouts.length === 0 ? <p className="text-gray-500 text-sm">Belum ada pembayaran.</p> : (
+            <div className="space-y-3">
+              {myPayouts.map(p => (
+                <div key={p.id} className="flex justify-between items-center text-sm">
+                  <div><div className="text-white font-bold">Rp {p.amount.toLocaleString()}</div><div className="text-xs text-gray-500">{new Date(p.paidAt || p.createdAt).toLocaleDateString()} · {p.bankDetails}</div></div>
+                  <span className={`text-xs font-bold px-2 py-1 rounded ${p.status === 'PAID' ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}`}>{p.status === 'PAID' ? 'Dibayar' : 'Diproses'}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="bg-dark-800 p-6 rounded-xl border border-dark-700">
+          <h3 className="text-lg font-bold text-white mb-4 border-b border-dark-700 pb-2">Rekening Pembayaran</h3>
+          <textarea value={bankDetails} onChange={e => setBankDetails(e.target.value)} rows={3} placeholder="Contoh: BCA 1234567890 a.n. Nama Anda" className="w-full bg-dark-900 border border-dark-700 rounded-lg px-4 py-2 text-white text-sm" />
+          <button onClick={() => { updateBankDetails(affiliate.id, bankDetails.trim()); alert('Rekening disimpan.'); }} disabled={bankDetails.trim() === (affiliate.bankDetails || '')} className="mt-3 w-full bg-primary hover:bg-indigo-600 disabled:bg-gray-600 text-white py-2 rounded-lg text-sm">Simpan Rekening</button>
+        </div>
+      </div>
     </div>
   );
 };
@@ -731,7 +1727,7 @@ const CustomerLayout: React.FC = () => {
           </div>
         </div>
       </nav>
-      <div className="min-h-screen"><Routes><Route path="/" element={<CustomerHome />} /><Route path="/cart" element={<CustomerCart />} /><Route path="/categories" element={<CustomerHome />} /><Route path="/account" element={<AccountView />} /><Route path="/affiliate" element={user?.role === 'AFFILIATE' ? <div className="p-6">Dashboard Affiliate</div> : <Navigate to="/account" />} /><Route path="/history" element={<CustomerHistory />} /></Routes></div>
+      <div className="min-h-screen"><Routes><Route path="/" element={<CustomerHome />} /><Route path="/cart" element={<CustomerCart />} /><Route path="/categories" element={<CustomerHome />} /><Route path="/product/:slug" element={<ProductDetail />} /><Route path="/account" element={<AccountView />} /><Route path="/affiliate" element={user?.role === 'AFFILIATE' ? <AffiliateDashboard /> : <Navigate to="/account" />} /><Route path="/history" element={<CustomerHistory />} /><Route path="/download/:token" element={<DownloadPage />} /></Routes></div>
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-dark-800 border-t border-dark-700 pb-safe z-50">
         <div className="grid grid-cols-4 h-16">
           <Link to="/" className={`flex flex-col items-center justify-center w-full h-full ${location.pathname === '/' ? 'text-primary' : 'text-gray-400'}`}><i className="fas fa-store mb-1"></i><span className="text-[10px] font-medium">Toko</span></Link>
@@ -745,26 +1741,79 @@ const CustomerLayout: React.FC = () => {
   );
 };
 
+const SYNC_TABLE_LABELS: Record<string, string> = {
+  products: 'Produk', payment_methods: 'Pembayaran', vouchers: 'Voucher', affiliates: 'Afiliasi', customers: 'Pelanggan',
+  orders: 'Pesanan', commissions: 'Komisi', affiliate_payouts: 'Payout', payout_batches: 'Batch Payout', product_reviews: 'Ulasan',
+};
+
+const previewValue = (value: unknown) => value === undefined || value === null ? '—' : (typeof value === 'object' ? JSON.stringify(value) : String(value)).slice(0, 60);
+
+// Records changed here and elsewhere at the same time; neither side is written until the admin picks one
+const SyncConflictPanel: React.FC = () => {
+  const { syncConflicts, resolveConflict } = useAppContext();
+  const [busy, setBusy] = useState<SyncConflict | null>(null);
+  if (syncConflicts.length === 0) return null;
+
+  const title = (c: SyncConflict) => { const item = c.local || c.remote; return item?.name || item?.code || item?.customerName || c.id; };
+  const handleResolve = async (c: SyncConflict, keep: 'local' | 'remote') => {
+    setBusy(c);
+    try { await resolveConflict(c, keep); } catch (e: any) { alert("Gagal menyelesaikan konflik: " + (e.message || e)); } finally { setBusy(null); }
+  };
+
+  return (
+    <div className="bg-yellow-500/10 border-b border-yellow-500/30 p-4 max-h-72 overflow-y-auto">
+      <h3 className="font-bold text-yellow-400 flex items-center gap-2"><i className="fas fa-code-branch"></i> {syncConflicts.length} Konflik Sinkronisasi</h3>
+      <p className="text-xs text-gray-400 mb-3">Data berikut diubah di perangkat lain saat Anda juga mengubahnya. Pilih versi yang dipakai.</p>
+      <div className="space-y-2">
+        {syncConflicts.map(c => (
+          <div key={`${c.table}/${c.id}`} className="bg-dark-800 border border-dark-700 rounded-lg p-3 text-sm">
+            <div className="flex flex-wrap justify-between items-center gap-2"><div><span className="text-xs bg-dark-700 text-gray-300 px-2 py-0.5 rounded mr-2">{SYNC_TABLE_LABELS[c.table] || c.table}</span><span className="font-bold text-white">{title(c)}</span></div><div className="flex gap-2"><button disabled={busy === c} onClick={() => handleResolve(c, 'local')} className="px-3 py-1 rounded bg-primary hover:bg-indigo-600 disabled:opacity-50 text-white text-xs font-bold">Pakai Versi Saya</button><button disabled={busy === c} onClick={() => handleResolve(c, 'remote')} className="px-3 py-1 rounded bg-dark-700 hover:bg-dark-600 disabled:opacity-50 text-gray-200 text-xs font-bold">Pakai Versi Cloud</button></div></div>
+            {!c.local ? <p className="text-xs text-gray-400 mt-2">Anda menghapus data ini, tetapi di cloud data ini diubah.</p>
+              : !c.remote ? <p className="text-xs text-gray-400 mt-2">Data ini sudah dihapus di cloud, tetapi Anda mengubahnya.</p>
+              : <ul className="mt-2 text-xs font-mono space-y-1">{SyncService.changedFields(c).map(f => <li key={f} className="text-gray-400 break-all"><span className="text-gray-300">{f}</span>: <span className="text-primary">{previewValue(c.local[f])}</span> <span className="text-gray-600">(saya)</span> · <span className="text-yellow-400">{previewValue(c.remote[f])}</span> <span className="text-gray-600">(cloud)</span></li>)}</ul>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const AdminLayout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('dashboard');
-  const { logout, saveNotification } = useAppContext();
+  const { logout, saveNotification, newOrders, clearNewOrders } = useAppContext();
   const navigate = useNavigate();
+  const [alertOrder, setAlertOrder] = useState<Order | null>(null);
+  const latestOrder = newOrders[0];
+
+  useEffect(() => {
+    if (!latestOrder) return;
+    setAlertOrder(latestOrder);
+    const timer = setTimeout(() => setAlertOrder(null), 6000);
+    return () => clearTimeout(timer);
+  }, [latestOrder?.id]);
+
+  // Opening the orders tab counts as having seen them
+  useEffect(() => { if (activeTab === 'orders' && newOrders.length > 0) clearNewOrders(); }, [activeTab, newOrders.length]);
 
   return (
     <div className="flex h-screen bg-dark-900 text-gray-100 overflow-hidden">
-      <AdminSidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} activeTab={activeTab} setActiveTab={setActiveTab} onLogout={() => { logout(); navigate('/login'); }} />
+      <AdminSidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} activeTab={activeTab} setActiveTab={setActiveTab} badges={{ orders: newOrders.length }} onLogout={() => { logout(); navigate('/login'); }} />
       <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
         <header className="md:hidden flex items-center justify-between bg-dark-800 p-4 border-b border-dark-700"><button onClick={() => setSidebarOpen(true)} className="text-gray-300"><i className="fas fa-bars text-xl"></i></button><span className="font-bold text-white">Admin Panel</span><div className="w-6"></div></header>
+        <SyncConflictPanel />
         <main className="flex-1 overflow-y-auto bg-dark-900 relative">
           {activeTab === 'dashboard' && <AdminDashboard />}
+          {activeTab === 'orders' && <AdminOrders />}
           {activeTab === 'products' && <AdminProducts />}
           {activeTab === 'customers' && <AdminCustomers />}
           {activeTab === 'vouchers' && <AdminVouchers />}
+          {activeTab === 'reviews' && <AdminReviews />}
           {activeTab === 'affiliates' && <AdminAffiliates />}
           {activeTab === 'settings' && <AdminSettings />}
           {activeTab === 'database' && <AdminDatabase />}
         </main>
+        {alertOrder && (<div className="fixed top-6 right-6 z-50 bg-dark-800 border border-primary/50 text-white px-4 py-3 rounded-lg shadow-xl flex items-center gap-3"><i className="fas fa-bell text-primary animate-bounce"></i><div><div className="font-bold">Pesanan Baru!</div><div className="text-sm text-gray-400">{alertOrder.customerName} · Rp {alertOrder.total.toLocaleString()}</div></div><button onClick={() => { setActiveTab('orders'); setAlertOrder(null); }} className="ml-2 text-primary text-sm font-bold">Lihat</button></div>)}
         {saveNotification && (<div className="fixed bottom-6 right-6 z-50 bg-primary text-white px-4 py-3 rounded-lg shadow-xl flex items-center gap-3 animate-bounce"><i className="fas fa-cloud-upload-alt"></i><span className="font-medium">{saveNotification}</span></div>)}
       </div>
     </div>
@@ -772,15 +1821,29 @@ const AdminLayout: React.FC = () => {
 };
 
 const Login: React.FC = () => {
-  const { login, affiliates, settings, customers, updateCustomers } = useAppContext();
+  const { login, affiliates, settings, customers, updateCustomers, updatePassword, supabase } = useAppContext();
   const [isRegister, setIsRegister] = useState(false);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const navigate = useNavigate();
 
-  const handleAuth = (e: React.FormEvent) => {
+  const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Cloud: the auth function checks the password and hands back a Supabase session
+    if (supabase) {
+        if (isRegister && (!username || !password || !name)) return alert("Semua kolom wajib diisi.");
+        const body = isRegister ? { action: 'register', name, whatsapp: username, password } : { action: 'login', username, password };
+        const { data, error } = await supabase.functions.invoke('auth', { body });
+        if (error || !data?.session) return alert(await functionErrorMessage(error) || 'Login Gagal. Periksa Username/No WA dan Password.');
+        await supabase.auth.setSession(data.session);
+        const account = AuthService.userFromToken(data.session.access_token);
+        if (!account) return alert('Login Gagal. Sesi tidak valid.');
+        login(account.role, account.name, account.id, account.phone);
+        navigate(account.role === 'ADMIN' ? '/admin' : account.role === 'AFFILIATE' ? '/account' : '/');
+        return;
+    }
     
     // Register Flow
     if (isRegister) {
@@ -791,7 +1854,7 @@ const Login: React.FC = () => {
             id: generateUUID(),
             name: name,
             whatsapp: username,
-            password: password,
+            password: await PasswordService.hash(password),
             createdAt: new Date().toISOString()
         };
         updateCustomers([...customers, newCustomer]);
@@ -802,18 +1865,24 @@ const Login: React.FC = () => {
     }
 
     // Login Flow
+    // Plain-text passwords from older data still verify once and are replaced with a hash
+    const check = async (role: User['role'], id: string, stored: string | undefined) => {
+      const result = await PasswordService.verify(password, stored);
+      if (result.valid && result.needsRehash) updatePassword(role, id, await PasswordService.hash(password));
+      return result.valid;
+    };
+
     // 1. Check Admin (Dynamic from Settings)
     const adminUser = settings.adminUsername || 'admin';
-    const adminPass = settings.adminPassword || 'admin';
-    if (username === adminUser && password === adminPass) {
+    if (username === adminUser && await check('ADMIN', 'settings_01', settings.adminPassword || 'admin')) {
       login('ADMIN', 'Admin User');
       navigate('/admin');
       return;
     }
 
     // 2. Check Affiliates
-    const affiliate = affiliates.find(a => a.code === username.toUpperCase() && a.password === password);
-    if (affiliate) {
+    const affiliate = affiliates.find(a => a.code === username.toUpperCase());
+    if (affiliate && await check('AFFILIATE', affiliate.id, affiliate.password)) {
         if (!affiliate.isActive) return alert("Akun affiliate non-aktif.");
         login('AFFILIATE', affiliate.name, affiliate.id);
         navigate('/account');
@@ -821,8 +1890,8 @@ const Login: React.FC = () => {
     }
 
     // 3. Check Customers
-    const customer = customers.find(c => c.whatsapp === username && c.password === password);
-    if (customer) {
+    const customer = customers.find(c => c.whatsapp === username);
+    if (customer && await check('CUSTOMER', customer.id, customer.password)) {
         login('CUSTOMER', customer.name, customer.id, customer.whatsapp);
         navigate('/');
         return;
@@ -866,22 +1935,47 @@ const AppContent: React.FC = () => {
 };
 
 export default function App() {
-  const [settings, setSettings] = useState<StoreSettings>(DataService.getSettings());
-  const [products, setProducts] = useState<Product[]>(DataService.getProducts());
-  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(DataService.getPayments());
-  const [vouchers, setVouchers] = useState<Voucher[]>(DataService.getVouchers());
-  const [affiliates, setAffiliates] = useState<Affiliate[]>(DataService.getAffiliates());
-  const [customers, setCustomers] = useState<Customer[]>(DataService.getCustomers());
-  const [orders, setOrders] = useState<Order[]>(DataService.getOrders());
+  const [settings, setSettings] = useState<StoreSettings>(() => localRepositories.settings.cached()!);
+  const [products, setProducts] = useState<Product[]>(() => localRepositories.products.cached());
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(() => localRepositories.paymentMethods.cached());
+  const [vouchers, setVouchers] = useState<Voucher[]>(() => localRepositories.vouchers.cached());
+  const [affiliates, setAffiliates] = useState<Affiliate[]>(() => localRepositories.affiliates.cached());
+  const [customers, setCustomers] = useState<Customer[]>(() => localRepositories.customers.cached());
+  const [orders, setOrders] = useState<Order[]>(() => localRepositories.orders.cached());
+  const [downloadLogs, setDownloadLogs] = useState<DownloadLog[]>(() => localRepositories.downloadLogs.cached());
+  const [referralClicks, setReferralClicks] = useState<ReferralClick[]>(() => localRepositories.referralClicks.cached());
+  const [payouts, setPayouts] = useState<AffiliatePayout[]>(() => localRepositories.payouts.cached());
+  const [commissions, setCommissions] = useState<Commission[]>(() => localRepositories.commissions.cached());
+  const [payoutBatches, setPayoutBatches] = useState<PayoutBatch[]>(() => localRepositories.payoutBatches.cached());
+  const [reviews, setReviews] = useState<ProductReview[]>(() => localRepositories.reviews.cached());
   
-  const [cart, setCart] = useState<CartItem[]>([]);
-  const [user, setUser] = useState<User | null>(null);
+  // Local mode restores the stand-in session right away; cloud mode waits for Supabase Auth
+  const [user, setUser] = useState<User | null>(() => settings.supabaseUrl ? null : AuthService.userFromToken(localSession.get()));
+  const cartOwner = useRef(CartService.ownerKey(user));
+  const [cart, setCart] = useState<CartItem[]>(() => localCarts.get(cartOwner.current));
+  const [isAuthReady, setIsAuthReady] = useState(!settings.supabaseUrl);
   const [referralCode, setReferralCode] = useState<string | null>(null);
   const [isCloudConnected, setIsCloudConnected] = useState(false);
   const [debugDataCount, setDebugDataCount] = useState(0);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [saveNotification, setSaveNotification] = useState<string | null>(null);
+  const [schemaVersions, setSchemaVersions] = useState<number[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const syncBases = useRef<Record<string, SyncBase>>({});
+  const conflictsRef = useRef(syncConflicts);
+  conflictsRef.current = syncConflicts;
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(() => localOutbox.get());
+  // The flush loop reads and writes the outbox between awaits, so it works on a ref that is saved synchronously
+  const outboxRef = useRef(outbox);
+  const outboxBusy = useRef<string | null>(null);
+  const isFlushing = useRef(false);
+  // Orders that arrived live since the admin last opened the orders tab
+  const [newOrders, setNewOrders] = useState<Order[]>([]);
+  // Latest lists for the realtime handlers, which outlive the render that subscribed them
+  const liveState = useRef<Record<string, any[]>>({});
+  liveState.current = { orders, customers, products, vouchers };
 
   const supabase = useMemo(() => {
     if (settings.supabaseUrl && settings.supabaseKey) {
@@ -889,114 +1983,393 @@ export default function App() {
     }
     return null;
   }, [settings.supabaseUrl, settings.supabaseKey]);
+  const cloudRepositories = useMemo(() => supabase ? createRepositories(createSupabaseBackend(supabase)) : null, [supabase]);
+
+  useEffect(() => {
+    if (!supabase) { setIsAuthReady(true); return; }
+    // Fires with the stored session first, then on sign-in, refresh and sign-out
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(AuthService.userFromToken(session?.access_token));
+      setIsAuthReady(true);
+    });
+    return () => data.subscription.unsubscribe();
+  }, [supabase]);
+
+  // A missing schema_version table (error) just means no migration has been recorded yet
+  const checkSchema = () => {
+    if (!cloudRepositories) return;
+    cloudRepositories.schemaVersions.list().then(rows => setSchemaVersions((rows || []).map(v => v.version)));
+  };
 
+  // Re-fetched when the session changes, since row-level security decides what each role sees
   useEffect(() => {
-    if (!supabase) { setIsDataLoaded(true); return; }
+    if (!cloudRepositories) { setIsDataLoaded(true); return; }
+    if (!isAuthReady) return;
+    const cloud = cloudRepositories;
+    // Versioned tables also record what the cloud held: the base auto-sync diffs against.
+    // Writes still in the outbox are laid over the result so they don't vanish until sent.
+    const loadSynced = async <T,>(repo: Repository<T>): Promise<T[] | null> => {
+      const rows = await repo.listVersioned();
+      if (!rows) return null;
+      syncBases.current[repo.table] = SyncService.createBase(repo, rows);
+      return OutboxService.overlay(rows.map(r => r.item), outboxRef.current, repo.table, repo.idOf);
+    };
     const fetchData = async () => {
       setFetchError(null);
+      // The fresh copy replaces local edits, so any open conflict is moot
+      setSyncConflicts([]);
+      checkSchema();
       try {
-          const { data: prodData } = await supabase.from('products').select('*');
-          if (prodData) {
-            const mappedProducts = prodData.map((p: any) => ({ id: p.id, name: p.name, category: p.category, description: p.description, price: Number(p.price), discountPrice: p.discount_price ? Number(p.discount_price) : undefined, image: p.image, fileUrl: p.file_url, isPopular: p.is_popular }));
-            setProducts(mappedProducts); DataService.saveProducts(mappedProducts);
-          }
-          const { data: vouchData } = await supabase.from('vouchers').select('*');
-          if (vouchData) {
-            const mappedVouchers = vouchData.map((v: any) => ({ id: v.id, code: v.code, type: v.type, value: Number(v.value), isActive: v.is_active }));
-            setVouchers(mappedVouchers); DataService.saveVouchers(mappedVouchers);
-          }
-          const { data: affData } = await supabase.from('affiliates').select('*');
-          if (affData) {
-            const mappedAff = affData.map((a: any) => ({ id: a.id, name: a.name, code: a.code, password: a.password, commissionRate: Number(a.commission_rate), totalEarnings: Number(a.total_earnings), bankDetails: a.bank_details, isActive: a.is_active }));
-            setAffiliates(mappedAff); DataService.saveAffiliates(mappedAff);
-          }
-          const { data: custData } = await supabase.from('customers').select('*');
-          if (custData) {
-            const mappedCust = custData.map((c: any) => ({ id: c.id, name: c.name, whatsapp: c.whatsapp, password: c.password, createdAt: c.created_at }));
-            setCustomers(mappedCust); DataService.saveCustomers(mappedCust);
-          }
-          const { data: settingsData } = await supabase.from('store_settings').select('*').single();
-          if (settingsData) {
-             const newSettings: StoreSettings = { ...settings, storeName: settingsData.store_name, address: settingsData.address, whatsapp: settingsData.whatsapp, email: settingsData.email, description: settingsData.description, logoUrl: settingsData.logo_url, tripayApiKey: settingsData.tripay_api_key, tripayPrivateKey: settingsData.tripay_private_key, tripayMerchantCode: settingsData.tripay_merchant_code, adminUsername: settingsData.admin_username, adminPassword: settingsData.admin_password };
-             setSettings(newSettings); DataService.saveSettings(newSettings);
-          }
-          const { data: payData } = await supabase.from('payment_methods').select('*');
-          if (payData) {
-              const mappedPayments = payData.map((p: any) => ({ id: p.id, type: p.type, name: p.name, accountNumber: p.account_number, accountName: p.account_name, description: p.description, logo: p.logo, is_active: p.is_active }));
-              setPaymentMethods(mappedPayments); DataService.savePayments(mappedPayments);
-          }
-          // Fetch Orders (New)
-          const { data: orderData } = await supabase.from('orders').select('*');
-          if (orderData) {
-             const mappedOrders = orderData.map((o: any) => ({ id: o.id, customerName: o.customer_name, customerWhatsapp: o.customer_whatsapp, total: Number(o.total), paymentMethod: o.payment_method, status: o.status, items: o.items, voucherCode: o.voucher_code, discountAmount: Number(o.discount_amount), date: o.created_at }));
-             setOrders(mappedOrders); DataService.saveOrders(mappedOrders);
+          // A null list means the table could not be read (e.g. pending migration); keep the local copy then
+          const productData = await loadSynced(cloud.products);
+          if (productData) setProducts(productData);
+          const voucherData = await loadSynced(cloud.vouchers);
+          if (voucherData) setVouchers(voucherData);
+          const affiliateData = await loadSynced(cloud.affiliates);
+          if (affiliateData) setAffiliates(affiliateData);
+          const customerData = await loadSynced(cloud.customers);
+          if (customerData) setCustomers(customerData);
+          const settingsData = await cloud.settings.load();
+          if (settingsData) setSettings(prev => ({ ...prev, ...settingsData }));
+          const paymentData = await loadSynced(cloud.paymentMethods);
+          if (paymentData) setPaymentMethods(paymentData);
+          const orderData = await loadSynced(cloud.orders);
+          if (orderData) setOrders(orderData);
+          const logData = await cloud.downloadLogs.list();
+          if (logData) setDownloadLogs(logData);
+          const commissionData = await loadSynced(cloud.commissions);
+          if (commissionData) {
+             setCommissions(commissionData);
+             // Payment callbacks update the ledger server-side, so re-derive earnings from what was loaded
+             setAffiliates(prev => CommissionService.withEarnings(prev, commissionData));
           }
+          const clickData = await cloud.referralClicks.list();
+          if (clickData) setReferralClicks(OutboxService.overlay(clickData, outboxRef.current, cloud.referralClicks.table, cloud.referralClicks.idOf));
+          const payoutData = await loadSynced(cloud.payouts);
+          if (payoutData) setPayouts(payoutData);
+          const batchData = await loadSynced(cloud.payoutBatches);
+          if (batchData) setPayoutBatches(batchData);
+          const reviewData = await loadSynced(cloud.reviews);
+          if (reviewData) setReviews(reviewData);
           
-          setIsCloudConnected(true); setDebugDataCount(prodData ? prodData.length : 0);
+          setIsCloudConnected(true); setDebugDataCount(productData ? productData.length : 0);
       } catch (err: any) { console.error(err); setFetchError(err.message); } finally { setIsDataLoaded(true); }
     };
     fetchData();
-  }, [supabase]);
+  }, [cloudRepositories, isAuthReady, user?.role, user?.id, reloadKey]);
+
+  // Every change is written to browser storage (the offline copy when the cloud is used)
+  const usePersistLocal = <T,>(data: T[], repo: Repository<T>) => {
+    useEffect(() => { repo.saveAll(data); }, [data]);
+  };
+
+  usePersistLocal(products, localRepositories.products);
+  usePersistLocal(paymentMethods, localRepositories.paymentMethods);
+  usePersistLocal(vouchers, localRepositories.vouchers);
+  usePersistLocal(affiliates, localRepositories.affiliates);
+  usePersistLocal(customers, localRepositories.customers);
+  usePersistLocal(orders, localRepositories.orders);
+  usePersistLocal(downloadLogs, localRepositories.downloadLogs);
+  usePersistLocal(referralClicks, localRepositories.referralClicks);
+  usePersistLocal(commissions, localRepositories.commissions);
+  usePersistLocal(payouts, localRepositories.payouts);
+  usePersistLocal(payoutBatches, localRepositories.payoutBatches);
+  usePersistLocal(reviews, localRepositories.reviews);
+  useEffect(() => { localRepositories.settings.save(settings); }, [settings]);
 
   // Auto-Sync Logic
   const shouldSync = isCloudConnected && isDataLoaded && user?.role === 'ADMIN';
 
-  const useAutoSync = (data: any, table: string, mapper: (item: any) => any, saveLocal: (d: any) => void) => {
+  const updateOutbox = (update: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+    outboxRef.current = update(outboxRef.current);
+    localOutbox.save(outboxRef.current);
+    setOutbox(outboxRef.current);
+  };
+
+  // Cloud writes always go through the outbox, so a network blip delays them instead of losing them
+  const enqueueWrites = (mutations: OutboxMutation[]) => {
+    if (!cloudRepositories) return;
+    updateOutbox(entries => mutations.reduce((acc, m) => OutboxService.enqueue(acc, m, generateUUID(), outboxBusy.current), entries));
+  };
+
+  // Sends due entries oldest first. A failure leaves the entry at the head with a backoff;
+  // a conflict hands the record to the conflict panel.
+  const flushOutbox = async () => {
+    if (!cloudRepositories || isFlushing.current) return;
+    const repos = repositoryByTable(cloudRepositories);
+    isFlushing.current = true;
+    let sent = 0;
+    try {
+      for (let entry = OutboxService.next(outboxRef.current, Date.now()); entry; entry = OutboxService.next(outboxRef.current, Date.now())) {
+        const current = entry;
+        const repo = repos[current.table];
+        outboxBusy.current = current.id;
+        try {
+          const result = await OutboxService.send(repo, current);
+          const base = syncBases.current[current.table];
+          if (result === 'conflict') {
+            const conflict = await SyncService.conflictFor(repo, current.recordId, current.op === 'remove' ? null : current.data);
+            updateOutbox(entries => OutboxService.dropRecord(entries, current));
+            // Deleted on both sides is not a conflict
+            if (conflict.local || conflict.remote) setSyncConflicts(prev => [...prev, conflict]);
+            else if (base) syncBases.current[current.table] = SyncService.applied(base, current, '');
+          } else {
+            updateOutbox(entries => OutboxService.succeeded(entries, current, result.version));
+            if (base && (current.op === 'put' || current.op === 'remove')) syncBases.current[current.table] = SyncService.applied(base, current, result.version);
+            sent++;
+          }
+        } catch (e) {
+          console.error(e);
+          updateOutbox(entries => OutboxService.failed(entries, current, e, Date.now()));
+        }
+      }
+    } finally {
+      outboxBusy.current = null;
+      isFlushing.current = false;
+    }
+    const { pending, failed } = OutboxService.counts(outboxRef.current);
+    if (sent === 0 && pending + failed === 0) return;
+    setSaveNotification(pending + failed > 0 ? `${pending + failed} perubahan belum terkirim` : `${sent} perubahan tersimpan`);
+    setTimeout(() => setSaveNotification(null), 2000);
+  };
+
+  // Flush whenever the queue changes or its head becomes due, and right away when the browser is back online
+  useEffect(() => {
+    if (!cloudRepositories || !isAuthReady) return;
+    const at = OutboxService.nextAttemptAt(outbox);
+    const timer = at === null ? undefined : setTimeout(flushOutbox, Math.max(0, at - Date.now()));
+    const onOnline = () => updateOutbox(OutboxService.wake);
+    window.addEventListener('online', onOnline);
+    return () => { clearTimeout(timer); window.removeEventListener('online', onOnline); };
+  }, [outbox, cloudRepositories, isAuthReady]);
+
+  // Live changes from other sessions (new orders, registrations, catalog edits) merged into state.
+  // Records with unsent local edits are left alone; pushing those surfaces a conflict if needed.
+  useEffect(() => {
+    if (!cloudRepositories || !isAuthReady) return;
+    const cloud = cloudRepositories;
+    const subscribe = <T,>(repo: Repository<T>, setItems: React.Dispatch<React.SetStateAction<T[]>>, onCreated?: (item: T) => void) => repo.subscribe?.(change => {
+      const existing = (liveState.current[repo.table] as T[] || []).find(item => repo.idOf(item) === change.id);
+      const base = syncBases.current[repo.table];
+      if (outboxRef.current.some(e => e.table === repo.table && e.recordId === change.id)) return;
+      if (existing && base && !SyncService.matches(base, change.id, existing)) return;
+      if (base) syncBases.current[repo.table] = SyncService.received(base, change);
+      setItems(prev => {
+        const rest = prev.filter(item => repo.idOf(item) !== change.id);
+        if (!change.item) return rest;
+        return rest.length < prev.length ? prev.map(item => repo.idOf(item) === change.id ? change.item! : item) : [change.item, ...prev];
+      });
+      if (!existing && change.item) onCreated?.(change.item);
+    });
+    const unsubscribers = [
+      subscribe(cloud.orders, setOrders, order => {
+        if (user?.role !== 'ADMIN') return;
+        setNewOrders(prev => [order, ...prev]);
+        playChime();
+      }),
+      subscribe(cloud.customers, setCustomers),
+      subscribe(cloud.products, setProducts),
+      subscribe(cloud.vouchers, setVouchers),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe?.());
+  }, [cloudRepositories, isAuthReady, user?.role, user?.id]);
+
+  // Queues only what changed since the base: edits as conditional writes, removals as tombstones.
+  // A record someone else changed in the meantime becomes a conflict instead of being overwritten.
+  const useAutoSync = <T,>(data: T[], repo: Repository<T> | undefined) => {
     useEffect(() => {
-        if (!shouldSync || !supabase) return;
-        const timer = setTimeout(async () => {
-            setSaveNotification(`Saving ${table}...`);
-            await supabase.from(table).upsert(data.map(ensureUuid).map(mapper));
-            setSaveNotification(`${table} Saved!`); setTimeout(() => setSaveNotification(null), 2000);
-            saveLocal(data);
+        if (!shouldSync || !repo) return;
+        const timer = setTimeout(() => {
+            const base = syncBases.current[repo.table];
+            // Never read from the cloud (e.g. pending migration), so there is nothing to diff against
+            if (!base) return;
+            const open = new Set(conflictsRef.current.filter(c => c.table === repo.table).map(c => c.id));
+            const changes = SyncService.changes(repo, base, data, open);
+            if (changes.length > 0) enqueueWrites(changes);
         }, 2000);
         return () => clearTimeout(timer);
-    }, [data, shouldSync, supabase]);
+    }, [data, shouldSync, repo]);
   };
 
-  useAutoSync(products, 'products', p => ({ id: p.id, name: p.name, category: p.category, description: p.description, price: p.price, discount_price: p.discountPrice, image: p.image, file_url: p.fileUrl, is_popular: p.isPopular }), DataService.saveProducts);
-  useAutoSync(vouchers, 'vouchers', v => ({ id: v.id, code: v.code, type: v.type, value: v.value, is_active: v.isActive }), DataService.saveVouchers);
-  useAutoSync(affiliates, 'affiliates', a => ({ id: a.id, name: a.name, code: a.code, password: a.password, commission_rate: a.commissionRate, total_earnings: a.totalEarnings, bank_details: a.bankDetails, is_active: a.isActive }), DataService.saveAffiliates);
-  useAutoSync(customers, 'customers', c => ({ id: c.id, name: c.name, whatsapp: c.whatsapp, password: c.password, created_at: c.createdAt }), DataService.saveCustomers);
-  useAutoSync(orders, 'orders', o => ({ id: o.id, customer_name: o.customerName, customer_whatsapp: o.customerWhatsapp, total: o.total, payment_method: o.paymentMethod, status: o.status, items: o.items, voucher_code: o.voucherCode, discount_amount: o.discountAmount, created_at: o.date }), DataService.saveOrders);
-
-  // Settings & Payments Special Sync
+  useAutoSync(products, cloudRepositories?.products);
+  useAutoSync(paymentMethods, cloudRepositories?.paymentMethods);
+  useAutoSync(vouchers, cloudRepositories?.vouchers);
+  useAutoSync(affiliates, cloudRepositories?.affiliates);
+  useAutoSync(customers, cloudRepositories?.customers);
+  useAutoSync(orders, cloudRepositories?.orders);
+  useAutoSync(commissions, cloudRepositories?.commissions);
+  useAutoSync(payoutBatches, cloudRepositories?.payoutBatches);
+  useAutoSync(payouts, cloudRepositories?.payouts);
+  useAutoSync(reviews, cloudRepositories?.reviews);
+
+  // Settings Sync (single row, last write wins)
   useEffect(() => {
-    if (!shouldSync || !supabase) return;
+    if (!shouldSync || !cloudRepositories) return;
     const timer = setTimeout(async () => {
         setSaveNotification("Saving Settings...");
-        const dbSettings = { id: 'settings_01', store_name: settings.storeName, address: settings.address, whatsapp: settings.whatsapp, email: settings.email, description: settings.description, logo_url: settings.logoUrl, tripay_api_key: settings.tripayApiKey, tripay_private_key: settings.tripayPrivateKey, tripay_merchant_code: settings.tripayMerchantCode, admin_username: settings.adminUsername, admin_password: settings.adminPassword };
-        await supabase.from('store_settings').upsert(dbSettings);
-        const dbPayments = paymentMethods.map(ensureUuid).map(p => ({ id: p.id, type: p.type, name: p.name, account_number: p.accountNumber, account_name: p.accountName, description: p.description, logo: p.logo, is_active: p.isActive }));
-        await supabase.from('payment_methods').upsert(dbPayments);
-        setSaveNotification("Settings Saved!"); setTimeout(() => setSaveNotification(null), 2000);
-        DataService.saveSettings(settings); DataService.savePayments(paymentMethods);
+        try {
+            await cloudRepositories.settings.save(settings);
+            setSaveNotification("Settings Saved!");
+        } catch (e) { console.error(e); setSaveNotification("Settings gagal disimpan"); }
+        setTimeout(() => setSaveNotification(null), 2000);
     }, 2000);
     return () => clearTimeout(timer);
-  }, [settings, paymentMethods, shouldSync, supabase]);
+  }, [settings, shouldSync, cloudRepositories]);
+
+  const resolveConflict = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    if (!cloudRepositories) return;
+    const cloud = cloudRepositories;
+    const targets: Record<string, [Repository<any>, any[], (items: any[]) => void]> = {
+      products: [cloud.products, products, setProducts],
+      payment_methods: [cloud.paymentMethods, paymentMethods, setPaymentMethods],
+      vouchers: [cloud.vouchers, vouchers, setVouchers],
+      affiliates: [cloud.affiliates, affiliates, setAffiliates],
+      customers: [cloud.customers, customers, setCustomers],
+      orders: [cloud.orders, orders, setOrders],
+      commissions: [cloud.commissions, commissions, updateCommissions],
+      affiliate_payouts: [cloud.payouts, payouts, setPayouts],
+      payout_batches: [cloud.payoutBatches, payoutBatches, setPayoutBatches],
+      product_reviews: [cloud.reviews, reviews, setReviews],
+    };
+    const [repo, items, apply] = targets[conflict.table];
+    syncBases.current[conflict.table] = await SyncService.resolve(repo, syncBases.current[conflict.table] || new Map(), conflict, keep);
+    if (keep === 'remote') {
+      const rest = items.filter(item => repo.idOf(item) !== conflict.id);
+      const exists = rest.length < items.length;
+      apply(!conflict.remote ? rest : exists ? items.map(item => repo.idOf(item) === conflict.id ? conflict.remote : item) : [conflict.remote, ...items]);
+    }
+    setSyncConflicts(prev => prev.filter(c => c !== conflict));
+  };
 
-  const addToCart = (product: Product) => {
-    setCart(prev => {
-      const existing = prev.find(p => p.id === product.id);
-      return existing ? prev.map(p => p.id === product.id ? { ...p, quantity: p.quantity + 1 } : p) : [...prev, { ...product, quantity: 1 }];
-    });
+  useEffect(() => { localCarts.save(cartOwner.current, cart); }, [cart]);
+
+  // Each account has its own saved cart; what a visitor collected before logging in is added to it
+  useEffect(() => {
+    const owner = CartService.ownerKey(user);
+    if (owner === cartOwner.current) return;
+    const previous = cartOwner.current;
+    cartOwner.current = owner;
+    if (previous === 'guest') {
+      const guest = localCarts.get('guest');
+      localCarts.save('guest', []);
+      setCart(CartService.merge(localCarts.get(owner), guest));
+    } else setCart(localCarts.get(owner));
+  }, [user?.id, user?.role]);
+
+  // false: already in the cart at the product's maximum quantity
+  const addToCart = (product: Product, variantId?: string) => {
+    const next = CartService.add(cart, product, variantId);
+    setCart(next);
+    return next !== cart;
+  };
+
+  // Catalog prices win over the copies kept in the cart; the changes are returned for a notice
+  const revalidateCart = (): CartChange[] => {
+    if (!isDataLoaded) return [];
+    const { items, changes } = CartService.revalidate(cart, products);
+    if (JSON.stringify(items) !== JSON.stringify(cart)) setCart(items);
+    return changes;
+  };
+
+  const recordReferralClick = (code: string, landingPath: string) => {
+    const affiliate = affiliates.find(a => a.code === code.toUpperCase() && a.isActive);
+    // Count a visitor once per browser session, not on every re-render or reload
+    const sessionKey = `ds_ref_click_${code.toUpperCase()}`;
+    if (!affiliate || sessionStorage.getItem(sessionKey)) return;
+    sessionStorage.setItem(sessionKey, '1');
+    const click: ReferralClick = { id: generateUUID(), affiliateId: affiliate.id, code: affiliate.code, landingPath, clickedAt: new Date().toISOString() };
+    setReferralClicks(prev => [click, ...prev]);
+    enqueueWrites([{ table: 'referral_clicks', recordId: click.id, op: 'insert', data: click }]);
+  };
+
+  // Affiliates edit their own payout account; they don't trigger admin auto-sync, so write through directly
+  const updateBankDetails = (affiliateId: string, bankDetails: string) => {
+    const newAffiliates = affiliates.map(a => a.id === affiliateId ? { ...a, bankDetails } : a);
+    setAffiliates(newAffiliates);
+    enqueueWrites([{ table: 'affiliates', recordId: affiliateId, op: 'update', data: { bankDetails } }]);
+  };
+
+  // Stores a freshly hashed password; written through since logins happen before any admin auto-sync
+  const updatePassword = (role: User['role'], id: string, passwordHash: string) => {
+    if (role === 'ADMIN') {
+      setSettings(prev => ({ ...prev, adminPassword: passwordHash }));
+      cloudRepositories?.settings.update({ adminPassword: passwordHash }).catch(console.error);
+    } else if (role === 'AFFILIATE') {
+      setAffiliates(prev => prev.map(a => a.id === id ? { ...a, password: passwordHash } : a));
+      enqueueWrites([{ table: 'affiliates', recordId: id, op: 'update', data: { password: passwordHash } }]);
+    } else {
+      setCustomers(prev => prev.map(c => c.id === id ? { ...c, password: passwordHash } : c));
+      enqueueWrites([{ table: 'customers', recordId: id, op: 'update', data: { password: passwordHash } }]);
+    }
   };
 
-  const addOrder = (order: Order) => {
-    const newOrders = [order, ...orders];
-    setOrders(newOrders);
-    DataService.saveOrder(order); // Local fallback
+  const addDownloadLog = (log: DownloadLog) => setDownloadLogs(prev => [log, ...prev]);
+
+  // A customer's own review; written through since customers don't trigger auto-sync.
+  // Edits only send the customer's fields, moderation stays with the admin.
+  const saveReview = (review: ProductReview) => {
+    const exists = reviews.some(r => r.id === review.id);
+    setReviews(prev => exists ? prev.map(r => r.id === review.id ? review : r) : [review, ...prev]);
+    const { rating, comment, customerName, orderId, updatedAt } = review;
+    enqueueWrites([exists
+      ? { table: 'product_reviews', recordId: review.id, op: 'update', data: { rating, comment, customerName, orderId, updatedAt } }
+      : { table: 'product_reviews', recordId: review.id, op: 'insert', data: review }]);
   };
 
-  const login = (role: 'ADMIN' | 'CUSTOMER' | 'AFFILIATE', name: string, id?: string, phone?: string) => setUser({ role, name, id, phone });
-  const resetLocalData = () => { localStorage.clear(); window.location.reload(); };
+  // Automatic "popular" flags follow sales and ratings; the admin session applies them so they sync like any product edit
+  useEffect(() => {
+    if (!settings.autoPopular || user?.role !== 'ADMIN' || !isDataLoaded) return;
+    const next = ReviewService.withPopular(products, orders, reviews);
+    if (next !== products) setProducts(next);
+  }, [settings.autoPopular, user?.role, isDataLoaded, products, orders, reviews]);
+
+  const updateCommissions = (next: Commission[]) => {
+    setCommissions(next);
+    setAffiliates(prev => CommissionService.withEarnings(prev, next));
+  };
+
+  // The order is already stored (by the place-order function in the cloud), so it only joins the local state
+  const addOrder = (order: Order, commission?: Commission) => {
+    setOrders([order, ...orders]);
+    if (commission) updateCommissions([commission, ...commissions]);
+  };
+
+  // A paid order gets its invoice number here in local mode; in the cloud the database issues it
+  const changeOrderStatus = (order: Order, to: OrderStatus) => {
+    const changed = OrderService.changeStatus(order, to, user?.name || 'Admin');
+    const updated = cloudRepositories ? changed : InvoiceService.assign(changed, orders);
+    setOrders(prev => prev.map(o => o.id === order.id ? updated : o));
+    const drafts = PayoutService.reconcileDrafts(payoutBatches, payouts, CommissionService.applyOrderStatus(commissions, updated));
+    updateCommissions(drafts.commissions);
+    if (drafts.released.length) {
+      setPayoutBatches(drafts.batches);
+      setPayouts(drafts.payouts);
+    }
+  };
+
+  const login = (role: 'ADMIN' | 'CUSTOMER' | 'AFFILIATE', name: string, id?: string, phone?: string) => {
+    const account = { role, name, id, phone };
+    // Cloud sessions come from the auth function; local mode keeps a stand-in token with the same claims
+    if (!supabase) localSession.save(AuthService.createLocalToken(account));
+    setUser(account);
+  };
+  const logout = () => {
+    if (supabase) supabase.auth.signOut(); else localSession.clear();
+    setUser(null);
+  };
+  // Writes still in the outbox would be lost along with the data they were made on
+  const resetLocalData = () => {
+    if (outbox.length) return alert(`Masih ada ${outbox.length} perubahan yang belum terkirim ke cloud. Kirim atau buang dulu sebelum reset.`);
+    localStoreData.clear();
+    window.location.reload();
+  };
 
   return (
     <AppContext.Provider value={{
-      settings, updateSettings: setSettings, products, updateProducts: setProducts, vouchers, updateVouchers: setVouchers, affiliates, updateAffiliates: setAffiliates, customers, updateCustomers: setCustomers, orders, addOrder, cart, addToCart, removeFromCart: (id) => setCart(p => p.filter(x => x.id !== id)), clearCart: () => setCart([]), user, login, logout: () => setUser(null), paymentMethods, updatePayments: setPaymentMethods, referralCode, setReferralCode, supabase, isCloudConnected, debugDataCount, resetLocalData, fetchError, saveNotification
+      settings, updateSettings: setSettings, products, updateProducts: setProducts, vouchers, updateVouchers: setVouchers, affiliates, updateAffiliates: setAffiliates, customers, updateCustomers: setCustomers, orders, addOrder, updateOrders: setOrders, changeOrderStatus, commissions, updateCommissions, downloadLogs, addDownloadLog, cart, addToCart, updateCartQuantity: (key, quantity) => setCart(p => CartService.setQuantity(p, key, quantity)), removeFromCart: (key) => setCart(p => CartService.remove(p, key)), clearCart: () => setCart([]), revalidateCart, user, login, logout, paymentMethods, updatePayments: setPaymentMethods, referralCode, setReferralCode, referralClicks, recordReferralClick, payouts, updatePayouts: setPayouts, payoutBatches, updatePayoutBatches: setPayoutBatches, reviews, updateReviews: setReviews, saveReview, updateBankDetails, updatePassword, supabase, cloudRepositories, isCloudConnected, debugDataCount, resetLocalData, fetchError, schemaVersions, checkSchema, reloadCloudData: () => setReloadKey(k => k + 1), syncConflicts, resolveConflict, outbox, newOrders, clearNewOrders: () => setNewOrders([]), retryOutbox: () => updateOutbox(OutboxService.retry), discardFailedOutbox: () => updateOutbox(OutboxService.discardFailed), saveNotification
     }}>
       <Router>
-        <AppContent />
+        {isAuthReady && <AppContent />}
       </Router>
     </AppContext.Provider>
   );
@@ -7,15 +7,18 @@ interface Props {
   setIsOpen: (val: boolean) => void;
   activeTab: string;
   setActiveTab: (val: string) => void;
+  badges?: Record<string, number>; // Unseen items per tab, e.g. live orders
   onLogout: () => void;
 }
 
-const AdminSidebar: React.FC<Props> = ({ isOpen, setIsOpen, activeTab, setActiveTab, onLogout }) => {
+const AdminSidebar: React.FC<Props> = ({ isOpen, setIsOpen, activeTab, setActiveTab, badges, onLogout }) => {
   const menuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: 'fa-chart-pie' },
+    { id: 'orders', label: 'Pesanan', icon: 'fa-receipt' },
     { id: 'products', label: 'Produk', icon: 'fa-box-open' },
     { id: 'customers', label: 'Pelanggan', icon: 'fa-users-cog' },
     { id: 'vouchers', label: 'Voucher', icon: 'fa-ticket-alt' },
+    { id: 'reviews', label: 'Ulasan', icon: 'fa-star' },
     { id: 'affiliates', label: 'Afiliasi', icon: 'fa-handshake' },
     { id: 'settings', label: 'Pengaturan', icon: 'fa-cog' },
     { id: 'database', label: 'Database & API', icon: 'fa-database' },
@@ -55,6 +58,9 @@ const AdminSidebar: React.FC<Props> = ({ isOpen, setIsOpen, activeTab, setActive
                 >
                   <i className={`fas ${item.icon} w-6`}></i>
                   {item.label}
+                  {!!badges?.[item.id] && (
+                    <span className="ml-auto bg-red-500 text-white text-xs font-bold rounded-full px-2 py-0.5">{badges[item.id]}</span>
+                  )}
                 </button>
               ))}
             </nav>
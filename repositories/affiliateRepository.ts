@@ -0,0 +1,58 @@
+import type { Affiliate } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, Repository, StorageBackend } from './backend';
+import { defineCodec, numeric } from './codec';
+
+export const affiliateStore: EntityStore<Affiliate> = {
+  table: 'affiliates',
+  idField: 'id',
+  codec: defineCodec<Affiliate>({
+    id: 'id',
+    name: 'name',
+    code: 'code',
+    password: 'password',
+    commissionRate: numeric('commission_rate'),
+    totalEarnings: numeric('total_earnings'),
+    bankDetails: 'bank_details',
+    isActive: 'is_active',
+  }),
+  local: { get: DataService.getAffiliates, save: DataService.saveAffiliates },
+  versioned: true,
+};
+
+// Public view with just what referral attribution needs (code + rate)
+export const affiliateDirectoryStore: EntityStore<Affiliate> = {
+  ...affiliateStore,
+  table: 'affiliate_directory',
+  versioned: false,
+  codec: defineCodec<Affiliate>({
+    id: 'id',
+    name: 'name',
+    code: 'code',
+    password: null,
+    commissionRate: numeric('commission_rate'),
+    totalEarnings: null,
+    bankDetails: null,
+    isActive: 'is_active',
+  }),
+};
+
+export const createAffiliateRepository = (backend: StorageBackend): Repository<Affiliate> => {
+  const affiliates = createRepository(backend, affiliateStore);
+  if (backend.kind !== 'supabase') return affiliates;
+  const directory = createRepository(backend, affiliateDirectoryStore);
+
+  // Row-level security only returns the caller's own row (or all for admins); fill in the rest from the directory
+  const listVersioned = async () => {
+    const [own, listed] = await Promise.all([affiliates.listVersioned(), directory.list()]);
+    if (!own) return null;
+    const extra = (listed || []).filter(d => !own.some(r => r.item.id === d.id)).map(d => ({ item: { password: '', totalEarnings: 0, bankDetails: '', ...d }, version: '' }));
+    return [...own, ...extra];
+  };
+
+  return {
+    ...affiliates,
+    list: async () => (await listVersioned())?.map(r => r.item) ?? null,
+    listVersioned,
+  };
+};
@@ -0,0 +1,85 @@
+import type { Codec } from './codec';
+
+// A list of entities: one Supabase table, one localStorage key (through DataService)
+export interface EntityStore<T> {
+  table: string;
+  idField: keyof T & string;
+  codec: Codec<T>;
+  local: { get: () => T[]; save: (items: T[]) => void };
+  // Deletes leave a tombstone (deleted_at) and every row carries updated_at, see sync.ts
+  versioned?: boolean;
+}
+
+// A record plus the version the backend holds it at (Supabase: updated_at; '' where untracked)
+export interface Versioned<T> {
+  item: T;
+  version: string;
+}
+
+// A change another session made, pushed by the backend; item null means the record was deleted
+export interface RecordChange<T> {
+  id: string;
+  item: T | null;
+  version: string;
+}
+
+// A single-row table such as store_settings
+export interface DocumentStore<T> {
+  table: string;
+  id: string;
+  codec: Codec<T>;
+  local: { get: () => T; save: (item: T) => void };
+}
+
+export interface StorageBackend {
+  kind: 'local' | 'supabase' | 'memory';
+  // null when the backend cannot read the store (e.g. table missing before a migration)
+  load: <T>(store: EntityStore<T>) => Promise<T[] | null>;
+  // Synchronous read for backends that have one, used to render before anything loads
+  peek?: <T>(store: EntityStore<T>) => T[];
+  save: <T>(store: EntityStore<T>, items: T[]) => Promise<void>;
+  insert: <T>(store: EntityStore<T>, item: T) => Promise<void>;
+  update: <T>(store: EntityStore<T>, id: string, patch: Partial<T>) => Promise<void>;
+  loadVersioned: <T>(store: EntityStore<T>) => Promise<Versioned<T>[] | null>;
+  get: <T>(store: EntityStore<T>, id: string) => Promise<Versioned<T> | null>;
+  // Conditional writes: only apply while the stored version still equals `expected` (null = must not exist yet).
+  // They resolve to the new version, or null when someone else changed the record first; `force` skips the check.
+  put: <T>(store: EntityStore<T>, item: T, expected: string | null, force?: boolean) => Promise<string | null>;
+  remove: <T>(store: EntityStore<T>, id: string, expected: string | null, force?: boolean) => Promise<string | null>;
+  // Live changes for backends that push them; returns the unsubscribe function
+  subscribe?: <T>(store: EntityStore<T>, listener: (change: RecordChange<T>) => void) => () => void;
+  loadDocument: <T>(store: DocumentStore<T>) => Promise<T | null>;
+  peekDocument?: <T>(store: DocumentStore<T>) => T;
+  saveDocument: <T>(store: DocumentStore<T>, item: T) => Promise<void>;
+  updateDocument: <T>(store: DocumentStore<T>, patch: Partial<T>) => Promise<void>;
+}
+
+export interface Repository<T> {
+  list: () => Promise<T[] | null>;
+  cached: () => T[];
+  saveAll: (items: T[]) => Promise<void>;
+  insert: (item: T) => Promise<void>;
+  update: (id: string, patch: Partial<T>) => Promise<void>;
+  table: string;
+  idOf: (item: T) => string;
+  listVersioned: () => Promise<Versioned<T>[] | null>;
+  get: (id: string) => Promise<Versioned<T> | null>;
+  put: (item: T, expected: string | null, force?: boolean) => Promise<string | null>;
+  remove: (id: string, expected: string | null, force?: boolean) => Promise<string | null>;
+  subscribe?: (listener: (change: RecordChange<T>) => void) => () => void;
+}
+
+export const createRepository = <T>(backend: StorageBackend, store: EntityStore<T>): Repository<T> => ({
+  list: () => backend.load(store),
+  cached: () => backend.peek?.(store) || [],
+  saveAll: items => backend.save(store, items),
+  insert: item => backend.insert(store, item),
+  update: (id, patch) => backend.update(store, id, patch),
+  table: store.table,
+  idOf: item => String(item[store.idField]),
+  listVersioned: () => backend.loadVersioned(store),
+  get: id => backend.get(store, id),
+  put: (item, expected, force) => backend.put(store, item, expected, force),
+  remove: (id, expected, force) => backend.remove(store, id, expected, force),
+  subscribe: backend.subscribe && (listener => backend.subscribe!(store, listener)),
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Order, Product } from '../types';
+import { defineCodec, list, numeric } from './codec';
+import { orderStore } from './orderRepository';
+import { productStore } from './productRepository';
+
+interface Thing {
+  id: string;
+  name?: string;
+  price: number;
+  tags: string[];
+  local?: string;
+}
+
+const codec = defineCodec<Thing>({ id: 'id', name: 'display_name', price: numeric('price'), tags: list('tags'), local: null });
+
+describe('defineCodec', () => {
+  it('maps fields to their columns and back', () => {
+    const thing: Thing = { id: 't1', name: 'Satu', price: 1500, tags: ['a'] };
+    expect(codec.toRow(thing)).toEqual({ id: 't1', display_name: 'Satu', price: 1500, tags: ['a'] });
+    expect(codec.fromRow(codec.toRow(thing))).toEqual(thing);
+    expect(codec.column('name')).toBe('display_name');
+  });
+
+  it('writes missing values as null and leaves null columns off when reading', () => {
+    const row = codec.toRow({ id: 't1', price: 0, tags: [] });
+    expect(row).toEqual({ id: 't1', display_name: null, price: 0, tags: [] });
+    expect(codec.fromRow(row)).toEqual({ id: 't1', price: 0, tags: [] });
+  });
+
+  it('never stores fields marked null', () => {
+    expect(codec.toRow({ id: 't1', price: 1, tags: [], local: 'x' })).not.toHaveProperty('local');
+    expect(codec.fromRow({ id: 't1', price: 1, local: 'x' })).not.toHaveProperty('local');
+  });
+
+  it('patches only the fields present', () => {
+    expect(codec.toPatch({ name: undefined, price: 2000 })).toEqual({ display_name: null, price: 2000 });
+    expect(codec.toPatch({})).toEqual({});
+  });
+
+  it('reads numeric columns sent as strings and empty lists sent as null', () => {
+    expect(codec.fromRow({ id: 't1', price: '12500.00', tags: null })).toEqual({ id: 't1', price: 12500, tags: [] });
+    expect(codec.toPatch({ tags: undefined })).toEqual({ tags: [] });
+  });
+});
+
+describe('store codecs', () => {
+  it('round-trip an order', () => {
+    const order: Order = {
+      id: 'o1', items: [], total: 111000, customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'BCA', status: 'PAID', date: '2026-01-01T00:00:00.000Z',
+      taxAmount: 11000, statusHistory: [{ from: 'PENDING', to: 'PAID', changedBy: 'Admin', changedAt: '2026-01-02T00:00:00.000Z' }], customerId: 'c1', invoiceNumber: 'INV/2026/000001',
+    };
+    const row = orderStore.codec.toRow(order);
+    expect(row).toMatchObject({ created_at: order.date, customer_whatsapp: '0812', tax_amount: 11000, invoice_number: 'INV/2026/000001' });
+    expect(orderStore.codec.fromRow(row)).toEqual(order);
+  });
+
+  it('keep product files out of the products table', () => {
+    const product: Product = {
+      id: 'p1', name: 'Ebook', category: 'Ebook', description: '', price: 50000, image: '', fileUrl: 'https://files/p1.pdf', createdAt: '2026-01-01T00:00:00.000Z',
+      variants: [{ id: 'pro', name: 'Pro', price: 90000, fileUrl: 'https://files/p1-pro.pdf' }],
+    };
+    const row = productStore.codec.toRow(product);
+    expect(row).not.toHaveProperty('file_url');
+    expect(row.variants).toEqual([{ id: 'pro', name: 'Pro', price: 90000 }]);
+    expect(productStore.codec.fromRow(row)).toEqual({ ...product, fileUrl: undefined, variants: [{ id: 'pro', name: 'Pro', price: 90000 }], bundleItems: [], gallery: [] });
+  });
+});
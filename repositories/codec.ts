@@ -0,0 +1,52 @@
+// The single place where app entities (camelCase) are mapped to database rows (snake_case).
+
+export type Column<V> = string | { column: string; read?: (value: any) => V | undefined; write?: (value: V | undefined) => unknown };
+
+export type Row = Record<string, any>;
+
+export interface Codec<T> {
+  column: (field: keyof T & string) => string;
+  // Every mapped field; missing values are written as null so upserts clear them
+  toRow: (entity: T) => Row;
+  // Only the fields present on the patch
+  toPatch: (patch: Partial<T>) => Row;
+  // Null columns are left off so callers can merge the result over existing data
+  fromRow: (row: Row) => T;
+}
+
+// null marks a field that is not stored in this table (e.g. derived or local-only)
+export type Fields<T> = { [K in keyof T]-?: Column<T[K]> | null };
+
+export const numeric = (column: string): Column<number> => ({ column, read: v => (v == null ? undefined : Number(v)) });
+
+export const list = <V>(column: string): Column<V[]> => ({ column, read: v => v || [], write: v => v || [] });
+
+export const defineCodec = <T>(fields: Fields<T>): Codec<T> => {
+  const entries = (Object.entries(fields) as [keyof T & string, Column<any> | null][])
+    .filter((entry): entry is [keyof T & string, Column<any>] => entry[1] !== null)
+    .map(([field, spec]) => ({ field, ...(typeof spec === 'string' ? { column: spec } : spec) }));
+
+  const write = (entity: Partial<T>, onlyPresent: boolean): Row => {
+    const row: Row = {};
+    entries.forEach(({ field, column, write }) => {
+      if (onlyPresent && !(field in entity)) return;
+      const value = entity[field];
+      row[column] = write ? write(value) : value ?? null;
+    });
+    return row;
+  };
+
+  return {
+    column: field => entries.find(e => e.field === field)?.column || field,
+    toRow: entity => write(entity, false),
+    toPatch: patch => write(patch, true),
+    fromRow: row => {
+      const entity: any = {};
+      entries.forEach(({ field, column, read }) => {
+        const value = read ? read(row[column]) : row[column] ?? undefined;
+        if (value !== undefined) entity[field] = value;
+      });
+      return entity as T;
+    },
+  };
+};
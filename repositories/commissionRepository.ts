@@ -0,0 +1,25 @@
+import type { Commission } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec, numeric } from './codec';
+
+export const commissionStore: EntityStore<Commission> = {
+  table: 'commissions',
+  idField: 'id',
+  codec: defineCodec<Commission>({
+    id: 'id',
+    affiliateId: 'affiliate_id',
+    orderId: 'order_id',
+    baseAmount: numeric('base_amount'),
+    rate: numeric('rate'),
+    amount: numeric('amount'),
+    status: 'status',
+    payoutId: 'payout_id',
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }),
+  local: { get: DataService.getCommissions, save: DataService.saveCommissions },
+  versioned: true,
+};
+
+export const createCommissionRepository = (backend: StorageBackend) => createRepository(backend, commissionStore);
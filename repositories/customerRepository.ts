@@ -0,0 +1,20 @@
+import type { Customer } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec } from './codec';
+
+export const customerStore: EntityStore<Customer> = {
+  table: 'customers',
+  idField: 'id',
+  codec: defineCodec<Customer>({
+    id: 'id',
+    name: 'name',
+    whatsapp: 'whatsapp',
+    password: 'password',
+    createdAt: 'created_at',
+  }),
+  local: { get: DataService.getCustomers, save: DataService.saveCustomers },
+  versioned: true,
+};
+
+export const createCustomerRepository = (backend: StorageBackend) => createRepository(backend, customerStore);
@@ -0,0 +1,19 @@
+import type { DownloadLog } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec } from './codec';
+
+export const downloadLogStore: EntityStore<DownloadLog> = {
+  table: 'download_logs',
+  idField: 'id',
+  codec: defineCodec<DownloadLog>({
+    id: 'id',
+    orderId: 'order_id',
+    productId: 'product_id',
+    variantId: 'variant_id',
+    downloadedAt: 'downloaded_at',
+  }),
+  local: { get: DataService.getDownloadLogs, save: DataService.saveDownloadLogs },
+};
+
+export const createDownloadLogRepository = (backend: StorageBackend) => createRepository(backend, downloadLogStore);
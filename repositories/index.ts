@@ -0,0 +1,70 @@
+import { DataService } from '../services/dataService';
+import type { StorageBackend } from './backend';
+import { createProductRepository } from './productRepository';
+import { createSettingsRepository } from './settingsRepository';
+import { createPaymentMethodRepository } from './paymentMethodRepository';
+import { createVoucherRepository } from './voucherRepository';
+import { createAffiliateRepository } from './affiliateRepository';
+import { createCustomerRepository } from './customerRepository';
+import { createOrderRepository } from './orderRepository';
+import { createDownloadLogRepository } from './downloadLogRepository';
+import { createReferralClickRepository } from './referralClickRepository';
+import { createCommissionRepository } from './commissionRepository';
+import { createPayoutRepository } from './payoutRepository';
+import { createPayoutBatchRepository } from './payoutBatchRepository';
+import { createReviewRepository } from './reviewRepository';
+import { createSchemaVersionRepository } from './schemaVersionRepository';
+
+export type { StorageBackend, Repository, Versioned, RecordChange } from './backend';
+export type { SyncBase, SyncConflict } from './sync';
+export { SyncService } from './sync';
+export type { OutboxEntry, OutboxMutation } from './outbox';
+export { OutboxService, OUTBOX_MAX_ATTEMPTS } from './outbox';
+export type { SettingsRepository } from './settingsRepository';
+export { localBackend } from './localBackend';
+export { createSupabaseBackend } from './supabaseBackend';
+export { createMemoryBackend } from './memoryBackend';
+
+export const createRepositories = (backend: StorageBackend) => ({
+  backend,
+  products: createProductRepository(backend),
+  settings: createSettingsRepository(backend),
+  paymentMethods: createPaymentMethodRepository(backend),
+  vouchers: createVoucherRepository(backend),
+  affiliates: createAffiliateRepository(backend),
+  customers: createCustomerRepository(backend),
+  orders: createOrderRepository(backend),
+  downloadLogs: createDownloadLogRepository(backend),
+  referralClicks: createReferralClickRepository(backend),
+  commissions: createCommissionRepository(backend),
+  payouts: createPayoutRepository(backend),
+  payoutBatches: createPayoutBatchRepository(backend),
+  reviews: createReviewRepository(backend),
+  schemaVersions: createSchemaVersionRepository(backend),
+});
+
+export type Repositories = ReturnType<typeof createRepositories>;
+
+// Local-mode session token (see AuthService.createLocalToken)
+export const localSession = {
+  get: DataService.getSession,
+  save: DataService.saveSession,
+  clear: DataService.clearSession,
+};
+
+// Pending cloud writes (see OutboxService)
+export const localOutbox = {
+  get: DataService.getOutbox,
+  save: DataService.saveOutbox,
+};
+
+// Shopping carts, kept in this browser only
+export const localCarts = {
+  get: DataService.getCart,
+  save: DataService.saveCart,
+};
+
+// Store data cached in this browser (see DataService.clearStoreData)
+export const localStoreData = {
+  clear: DataService.clearStoreData,
+};
@@ -0,0 +1,33 @@
+import type { EntityStore, StorageBackend } from './backend';
+
+const idOf = <T>(store: EntityStore<T>, item: T) => String(item[store.idField]);
+
+// Browser storage via DataService; entities are kept as-is, so no codec is involved.
+// There is a single writer, so versions are not tracked and conditional writes always apply.
+export const localBackend: StorageBackend = {
+  kind: 'local',
+  load: async store => store.local.get(),
+  peek: store => store.local.get(),
+  save: async (store, items) => store.local.save(items),
+  insert: async (store, item) => store.local.save([item, ...store.local.get()]),
+  update: async (store, id, patch) => store.local.save(store.local.get().map(item => (item[store.idField] as unknown) === id ? { ...item, ...patch } : item)),
+  loadVersioned: async store => store.local.get().map(item => ({ item, version: '' })),
+  get: async (store, id) => {
+    const item = store.local.get().find(i => idOf(store, i) === id);
+    return item ? { item, version: '' } : null;
+  },
+  put: async (store, item) => {
+    const items = store.local.get();
+    const exists = items.some(i => idOf(store, i) === idOf(store, item));
+    store.local.save(exists ? items.map(i => idOf(store, i) === idOf(store, item) ? item : i) : [item, ...items]);
+    return '';
+  },
+  remove: async (store, id) => {
+    store.local.save(store.local.get().filter(i => idOf(store, i) !== id));
+    return '';
+  },
+  loadDocument: async store => store.local.get(),
+  peekDocument: store => store.local.get(),
+  saveDocument: async (store, item) => store.local.save(item),
+  updateDocument: async (store, patch) => store.local.save({ ...store.local.get(), ...patch }),
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Order, Product, StoreSettings, Voucher } from '../types';
+import type { RecordChange } from './backend';
+import { createRepositories } from './index';
+import { createMemoryBackend } from './memoryBackend';
+import { OutboxService } from './outbox';
+
+const product = (id: string, price: number): Product => ({ id, name: `Produk ${id}`, category: 'Ebook', description: '', price, image: '' });
+
+const order: Order = { id: 'o1', items: [], total: 50000, customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'BCA', status: 'PENDING', date: '2026-01-01T00:00:00.000Z' };
+
+describe('repositories over the memory backend', () => {
+  it('lists the seeded records and what was saved', async () => {
+    const repos = createRepositories(createMemoryBackend({ products: [product('p1', 1000)] }));
+    expect(await repos.products.list()).toEqual([product('p1', 1000)]);
+    await repos.products.saveAll([product('p2', 2000)]);
+    expect(repos.products.cached()).toEqual([product('p2', 2000)]);
+  });
+
+  it('inserts, patches and reads single records', async () => {
+    const { orders } = createRepositories(createMemoryBackend());
+    await orders.insert(order);
+    await orders.update('o1', { status: 'PAID' });
+    expect(await orders.get('o1')).toEqual({ item: { ...order, status: 'PAID' }, version: '' });
+    expect(await orders.get('o2')).toBeNull();
+    expect(orders.idOf(order)).toBe('o1');
+  });
+
+  it('puts and removes records', async () => {
+    const { products } = createRepositories(createMemoryBackend({ products: [product('p1', 1000)] }));
+    await products.put(product('p1', 1500), '');
+    await products.put(product('p2', 2000), null);
+    expect((await products.listVersioned())?.map(v => v.item)).toEqual([product('p2', 2000), product('p1', 1500)]);
+    await products.remove('p1', '');
+    expect(await products.list()).toEqual([product('p2', 2000)]);
+  });
+
+  it('tells subscribers about every write', async () => {
+    const { orders } = createRepositories(createMemoryBackend());
+    const changes: RecordChange<Order>[] = [];
+    const unsubscribe = orders.subscribe!(change => changes.push(change));
+    await orders.insert(order);
+    await orders.update('o1', { status: 'PAID' });
+    await orders.remove('o1', '');
+    unsubscribe();
+    await orders.insert({ ...order, id: 'o2' });
+    expect(changes.map(c => [c.id, c.item?.status ?? null])).toEqual([['o1', 'PENDING'], ['o1', 'PAID'], ['o1', null]]);
+  });
+
+  it('keeps vouchers without the cloud usage counts', async () => {
+    const voucher: Voucher = { id: 'v1', code: 'HEMAT', type: 'FIXED', value: 10000, isActive: true };
+    const { vouchers } = createRepositories(createMemoryBackend({ vouchers: [voucher] }));
+    expect(await vouchers.list()).toEqual([voucher]);
+  });
+
+  it('stores the settings document and patches it', async () => {
+    const settings = { storeName: 'Toko', tripayApiKey: 'k', tripayPrivateKey: 'p', tripayMerchantCode: 'T1' } as StoreSettings;
+    const repos = createRepositories(createMemoryBackend());
+    expect(await repos.settings.load()).toBeNull();
+    await repos.settings.save(settings);
+    await repos.settings.update({ storeName: 'Toko Baru' });
+    expect(repos.settings.cached()?.storeName).toBe('Toko Baru');
+    expect(await repos.settings.load()).toMatchObject({ storeName: 'Toko Baru', tripayEnabled: true });
+  });
+
+  it('replays outbox entries', async () => {
+    const { orders } = createRepositories(createMemoryBackend());
+    const entries = OutboxService.enqueue([], { table: 'orders', recordId: 'o1', op: 'insert', data: order }, 'e1');
+    expect(await OutboxService.send(orders, entries[0])).toEqual({ version: '' });
+    expect(await orders.list()).toEqual([order]);
+  });
+});
@@ -0,0 +1,50 @@
+import type { EntityStore, RecordChange, StorageBackend } from './backend';
+
+// Keeps everything in plain maps keyed by table name; nothing survives a reload.
+// Seed lists/documents are optional, e.g. { products: [...], store_settings: {...} }.
+// Subscribers hear about every write, which makes it a stand-in for Supabase realtime.
+export const createMemoryBackend = (seed: Record<string, unknown> = {}): StorageBackend => {
+  const data = new Map<string, any>(Object.entries(seed));
+  const listeners = new Map<string, Set<(change: RecordChange<any>) => void>>();
+  const rows = (table: string): any[] => data.get(table) || [];
+  const notify = <T>(store: EntityStore<T>, id: string) => {
+    const item = rows(store.table).find(i => String(i[store.idField]) === id) ?? null;
+    listeners.get(store.table)?.forEach(listener => listener({ id, item, version: '' }));
+  };
+
+  return {
+    kind: 'memory',
+    load: async store => [...rows(store.table)],
+    peek: store => [...rows(store.table)],
+    save: async (store, items) => { data.set(store.table, [...items]); },
+    insert: async (store, item) => { data.set(store.table, [item, ...rows(store.table)]); notify(store, String(item[store.idField])); },
+    update: async (store, id, patch) => { data.set(store.table, rows(store.table).map(item => item[store.idField] === id ? { ...item, ...patch } : item)); notify(store, id); },
+    loadVersioned: async store => rows(store.table).map(item => ({ item, version: '' })),
+    get: async (store, id) => {
+      const item = rows(store.table).find(i => String(i[store.idField]) === id);
+      return item ? { item, version: '' } : null;
+    },
+    put: async (store, item) => {
+      const id = String(item[store.idField]);
+      const items = rows(store.table);
+      const exists = items.some(i => String(i[store.idField]) === id);
+      data.set(store.table, exists ? items.map(i => String(i[store.idField]) === id ? item : i) : [item, ...items]);
+      notify(store, id);
+      return '';
+    },
+    remove: async (store, id) => {
+      data.set(store.table, rows(store.table).filter(i => String(i[store.idField]) !== id));
+      notify(store, id);
+      return '';
+    },
+    subscribe: (store, listener) => {
+      if (!listeners.has(store.table)) listeners.set(store.table, new Set());
+      listeners.get(store.table)!.add(listener);
+      return () => { listeners.get(store.table)?.delete(listener); };
+    },
+    loadDocument: async store => data.get(store.table) ?? null,
+    peekDocument: store => data.get(store.table),
+    saveDocument: async (store, item) => { data.set(store.table, item); },
+    updateDocument: async (store, patch) => { data.set(store.table, { ...data.get(store.table), ...patch }); },
+  };
+};
@@ -0,0 +1,37 @@
+import type { Order } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec, list, numeric } from './codec';
+
+export const orderStore: EntityStore<Order> = {
+  table: 'orders',
+  idField: 'id',
+  codec: defineCodec<Order>({
+    id: 'id',
+    items: 'items',
+    total: numeric('total'),
+    customerName: 'customer_name',
+    customerWhatsapp: 'customer_whatsapp',
+    paymentMethod: 'payment_method',
+    status: 'status',
+    date: 'created_at',
+    voucherCode: 'voucher_code',
+    voucherId: 'voucher_id',
+    discountAmount: numeric('discount_amount'),
+    taxAmount: numeric('tax_amount'),
+    pricing: 'pricing',
+    statusHistory: list('status_history'),
+    paymentReference: 'payment_reference',
+    paymentUrl: 'payment_url',
+    payCode: 'pay_code',
+    customerId: 'customer_id',
+    referralCode: 'referral_code',
+    affiliateId: 'affiliate_id',
+    invoiceNumber: 'invoice_number',
+    invoicedAt: 'invoiced_at',
+  }),
+  local: { get: DataService.getOrders, save: DataService.saveOrders },
+  versioned: true,
+};
+
+export const createOrderRepository = (backend: StorageBackend) => createRepository(backend, orderStore);
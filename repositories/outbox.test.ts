@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { OutboxEntry, OutboxMutation, OutboxService, OUTBOX_MAX_ATTEMPTS } from './outbox';
+
+const entry = (id: string, mutation: Partial<OutboxMutation> = {}, extra: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  id, table: 'products', recordId: 'p1', op: 'put', data: { id: 'p1' }, expected: 'v1', status: 'PENDING', attempts: 0, nextAttemptAt: 0, createdAt: '2026-01-01T00:00:00.000Z', ...mutation, ...extra,
+});
+
+const NOW = 1_700_000_000_000;
+
+describe('OutboxService.enqueue', () => {
+  it('appends a change to a record with nothing waiting', () => {
+    const entries = OutboxService.enqueue([], { table: 'products', recordId: 'p1', op: 'put', data: { id: 'p1' }, expected: 'v1' }, 'e1');
+    expect(entries).toMatchObject([{ id: 'e1', op: 'put', status: 'PENDING', attempts: 0, nextAttemptAt: 0 }]);
+  });
+
+  it('folds a put into the waiting put for the same record', () => {
+    const entries = OutboxService.enqueue([entry('e1')], { table: 'products', recordId: 'p1', op: 'put', data: { id: 'p1', name: 'Baru' } }, 'e2');
+    expect(entries).toEqual([entry('e1', { data: { id: 'p1', name: 'Baru' } })]);
+  });
+
+  it('drops a record created and deleted before it was sent', () => {
+    expect(OutboxService.enqueue([entry('e1', { expected: null })], { table: 'products', recordId: 'p1', op: 'remove' }, 'e2')).toEqual([]);
+  });
+
+  it('turns a waiting put of an existing record into a remove', () => {
+    expect(OutboxService.enqueue([entry('e1')], { table: 'products', recordId: 'p1', op: 'remove' }, 'e2')).toEqual([entry('e1', { op: 'remove', data: undefined })]);
+  });
+
+  it('merges patches to the same record', () => {
+    const waiting = entry('e1', { op: 'update', data: { name: 'A' }, expected: undefined });
+    const entries = OutboxService.enqueue([waiting], { table: 'products', recordId: 'p1', op: 'update', data: { price: 1000 } }, 'e2');
+    expect(entries).toEqual([{ ...waiting, data: { name: 'A', price: 1000 } }]);
+  });
+
+  it('never folds into the entry being sent or into a failed one', () => {
+    const put = { table: 'products', recordId: 'p1', op: 'put' as const, data: { id: 'p1', name: 'Baru' } };
+    expect(OutboxService.enqueue([entry('e1')], put, 'e2', 'e1').map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(OutboxService.enqueue([entry('e1', {}, { status: 'FAILED' })], put, 'e2').map(e => e.id)).toEqual(['e1', 'e2']);
+  });
+});
+
+describe('OutboxService.next', () => {
+  it('sends the oldest pending entry once it is due', () => {
+    const entries = [entry('e1', {}, { nextAttemptAt: NOW + 1000 }), entry('e2', { recordId: 'p2' })];
+    expect(OutboxService.next(entries, NOW)).toBeNull();
+    expect(OutboxService.next(entries, NOW + 1000)?.id).toBe('e1');
+    expect(OutboxService.nextAttemptAt(entries)).toBe(NOW + 1000);
+  });
+
+  it('holds back what depends on a failed entry', () => {
+    const order = entry('e1', { table: 'orders', recordId: 'o1', op: 'insert', data: { id: 'o1' } }, { status: 'FAILED' });
+    const commission = entry('e2', { table: 'commissions', recordId: 'c1', op: 'insert', data: { id: 'c1', orderId: 'o1' } });
+    const edit = entry('e3', { table: 'orders', recordId: 'o1', op: 'update', data: { status: 'PAID' } });
+    const other = entry('e4', { recordId: 'p2', data: { id: 'p2' } });
+    expect(OutboxService.next([order, commission, edit, other], NOW)?.id).toBe('e4');
+    expect(OutboxService.next([order, commission, edit], NOW)).toBeNull();
+    expect(OutboxService.nextAttemptAt([order, commission, edit])).toBeNull();
+  });
+
+  it('holds back dependents of held entries too', () => {
+    const batch = entry('e1', { table: 'payout_batches', recordId: 'b1', data: { id: 'b1' } }, { status: 'FAILED' });
+    const payout = entry('e2', { table: 'affiliate_payouts', recordId: 'po1', data: { id: 'po1', batchId: 'b1' } });
+    const commission = entry('e3', { table: 'commissions', recordId: 'c1', op: 'update', data: { payoutId: 'po1' } });
+    expect(OutboxService.next([batch, payout, commission], NOW)).toBeNull();
+  });
+
+  it('sends the dependents again once the failed entry is discarded', () => {
+    const order = entry('e1', { table: 'orders', recordId: 'o1', op: 'insert', data: { id: 'o1' } }, { status: 'FAILED' });
+    const commission = entry('e2', { table: 'commissions', recordId: 'c1', op: 'insert', data: { id: 'c1', orderId: 'o1' } });
+    expect(OutboxService.next(OutboxService.discardFailed([order, commission]), NOW)?.id).toBe('e2');
+    expect(OutboxService.next(OutboxService.retry([order, commission]), NOW)?.id).toBe('e1');
+  });
+});
+
+describe('OutboxService.succeeded', () => {
+  it('removes the entry and bases later changes to the record on the new version', () => {
+    const sent = entry('e1');
+    const entries = OutboxService.succeeded([sent, entry('e2', { op: 'remove', data: undefined }), entry('e3', { recordId: 'p2' })], sent, 'v2');
+    expect(entries.map(e => [e.id, e.expected])).toEqual([['e2', 'v2'], ['e3', 'v1']]);
+  });
+
+  it('leaves expectations alone without a version', () => {
+    const sent = entry('e1', { op: 'insert' });
+    expect(OutboxService.succeeded([sent, entry('e2')], sent, '')).toEqual([entry('e2')]);
+  });
+});
+
+describe('OutboxService.failed', () => {
+  it('backs off exponentially from the time of the failure', () => {
+    let entries = [entry('e1')];
+    const waits = [1, 2, 3, 4].map(() => {
+      entries = OutboxService.failed(entries, entries[0], new Error('offline'), NOW);
+      return entries[0].nextAttemptAt - NOW;
+    });
+    expect(waits).toEqual([2000, 4000, 8000, 16000]);
+    expect(entries[0]).toMatchObject({ attempts: 4, lastError: 'offline', status: 'PENDING' });
+  });
+
+  it('caps the wait at five minutes', () => {
+    expect(OutboxService.backoff(8)).toBe(256000);
+    expect(OutboxService.backoff(12)).toBe(5 * 60 * 1000);
+  });
+
+  it('marks the entry failed after the last attempt', () => {
+    const last = entry('e1', {}, { attempts: OUTBOX_MAX_ATTEMPTS - 1 });
+    expect(OutboxService.failed([last], last, 'denied', NOW)[0]).toMatchObject({ status: 'FAILED', attempts: OUTBOX_MAX_ATTEMPTS, lastError: 'denied' });
+  });
+});
+
+describe('OutboxService.overlay', () => {
+  const items = [{ id: 'p1', name: 'A' }, { id: 'p2', name: 'B' }];
+  const idOf = (item: { id: string }) => item.id;
+
+  it('shows unsent writes over the cloud data', () => {
+    const entries = [
+      entry('e1', { recordId: 'p3', data: { id: 'p3', name: 'C' } }),
+      entry('e2', { op: 'update', data: { name: 'A2' } }),
+      entry('e3', { recordId: 'p2', op: 'remove', data: undefined }),
+      entry('e4', { table: 'orders', recordId: 'p1', op: 'remove', data: undefined }),
+    ];
+    expect(OutboxService.overlay(items, entries, 'products', idOf)).toEqual([{ id: 'p3', name: 'C' }, { id: 'p1', name: 'A2' }]);
+  });
+
+  it('replaces a record with its queued put', () => {
+    expect(OutboxService.overlay(items, [entry('e1', { data: { id: 'p1', name: 'Z' } })], 'products', idOf)).toEqual([{ id: 'p1', name: 'Z' }, items[1]]);
+  });
+});
@@ -0,0 +1,125 @@
+import type { Repository } from './backend';
+
+// A cloud write waiting to be sent. Kept in browser storage, so it survives reloads and
+// network outages, and replayed oldest first once Supabase is reachable again.
+export interface OutboxEntry {
+  id: string;
+  table: string;
+  recordId: string;
+  op: 'insert' | 'update' | 'put' | 'remove';
+  data?: any; // The record for insert/put, the patch for update
+  expected?: string | null; // put/remove: the version the change was made against
+  status: 'PENDING' | 'FAILED';
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+  createdAt: string;
+}
+
+export type OutboxMutation = Pick<OutboxEntry, 'table' | 'recordId' | 'op' | 'data' | 'expected'>;
+
+// Outcome of sending one entry: the new version, or 'conflict' when someone else changed the record first
+export type OutboxResult = { version: string } | 'conflict';
+
+export const OUTBOX_MAX_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+const sameRecord = (a: Pick<OutboxEntry, 'table' | 'recordId'>, b: Pick<OutboxEntry, 'table' | 'recordId'>) => a.table === b.table && a.recordId === b.recordId;
+
+// A later change to the same record, or a record pointing at it (e.g. a commission's orderId)
+const dependsOn = (entry: OutboxEntry, earlier: OutboxEntry) =>
+  sameRecord(entry, earlier) || Object.values(entry.data || {}).includes(earlier.recordId);
+
+// The oldest pending entry that isn't waiting on a failed one; what depends on a failed entry would be
+// rejected (or land on the wrong base) without it, so it waits too until that entry is retried or discarded
+const head = (entries: OutboxEntry[]): OutboxEntry | undefined => {
+  const held: OutboxEntry[] = [];
+  for (const e of entries) {
+    if (e.status === 'PENDING' && !held.some(h => dependsOn(e, h))) return e;
+    held.push(e);
+  }
+  return undefined;
+};
+
+export const OutboxService = {
+  backoff: (attempts: number): number => Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS),
+
+  // Folds the mutation into a waiting entry for the same record where the result is equivalent
+  // (the entry being sent right now, `busyId`, is never touched)
+  enqueue: (entries: OutboxEntry[], mutation: OutboxMutation, id: string, busyId?: string | null): OutboxEntry[] => {
+    const idx = entries.findIndex(e => e.status === 'PENDING' && e.id !== busyId && sameRecord(e, mutation));
+    const waiting = idx === -1 ? null : entries[idx];
+    const fold = (changes: Partial<OutboxEntry>) => entries.map((e, i) => i === idx ? { ...e, ...changes } : e);
+
+    if (waiting && mutation.op === 'put' && (waiting.op === 'put' || waiting.op === 'remove')) return fold({ op: 'put', data: mutation.data });
+    if (waiting && mutation.op === 'remove' && waiting.op === 'put') {
+      // Created and deleted before it ever reached the cloud
+      return waiting.expected === null ? entries.filter((_, i) => i !== idx) : fold({ op: 'remove', data: undefined });
+    }
+    if (waiting && mutation.op === 'remove' && waiting.op === 'remove') return entries;
+    if (waiting && mutation.op === 'update' && waiting.op === 'update') return fold({ data: { ...waiting.data, ...mutation.data } });
+
+    return [...entries, { ...mutation, id, status: 'PENDING', attempts: 0, nextAttemptAt: 0, createdAt: new Date().toISOString() }];
+  },
+
+  // Entries go out strictly in order (an order before its commission), so the first pending entry
+  // holds back the rest while it waits for its retry. Failed entries are set aside with their dependents.
+  next: (entries: OutboxEntry[], now: number): OutboxEntry | null => {
+    const first = head(entries);
+    return first && first.nextAttemptAt <= now ? first : null;
+  },
+
+  // When the head of the queue may be tried again (null: nothing can be sent)
+  nextAttemptAt: (entries: OutboxEntry[]): number | null => head(entries)?.nextAttemptAt ?? null,
+
+  send: async (repo: Repository<any>, entry: OutboxEntry): Promise<OutboxResult> => {
+    if (entry.op === 'insert') {
+      // A retry after a lost response finds the row already there
+      try { await repo.insert(entry.data); } catch (e: any) { if (e?.code !== '23505') throw e; }
+      return { version: '' };
+    }
+    if (entry.op === 'update') {
+      await repo.update(entry.recordId, entry.data);
+      return { version: '' };
+    }
+    const version = entry.op === 'put' ? await repo.put(entry.data, entry.expected ?? null) : await repo.remove(entry.recordId, entry.expected ?? null);
+    return version === null ? 'conflict' : { version };
+  },
+
+  // Later changes to the same record were made on top of this one, so they expect its version
+  succeeded: (entries: OutboxEntry[], entry: OutboxEntry, version: string): OutboxEntry[] => entries
+    .filter(e => e.id !== entry.id)
+    .map(e => version && sameRecord(e, entry) && (e.op === 'put' || e.op === 'remove') ? { ...e, expected: version } : e),
+
+  failed: (entries: OutboxEntry[], entry: OutboxEntry, error: unknown, now: number): OutboxEntry[] => entries.map(e => {
+    if (e.id !== entry.id) return e;
+    const attempts = e.attempts + 1;
+    const lastError = (error as any)?.message || String(error);
+    return attempts >= OUTBOX_MAX_ATTEMPTS ? { ...e, attempts, lastError, status: 'FAILED' } : { ...e, attempts, lastError, nextAttemptAt: now + OutboxService.backoff(attempts) };
+  }),
+
+  // A conflict settles every queued change to that record; the conflict panel takes over
+  dropRecord: (entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] => entries.filter(e => !sameRecord(e, entry)),
+
+  // Back online: no reason to sit out the rest of the backoff
+  wake: (entries: OutboxEntry[]): OutboxEntry[] => entries.map(e => e.status === 'PENDING' ? { ...e, nextAttemptAt: 0 } : e),
+
+  retry: (entries: OutboxEntry[]): OutboxEntry[] => entries.map(e => ({ ...e, status: 'PENDING', attempts: e.status === 'FAILED' ? 0 : e.attempts, nextAttemptAt: 0 })),
+
+  discardFailed: (entries: OutboxEntry[]): OutboxEntry[] => entries.filter(e => e.status !== 'FAILED'),
+
+  // Cloud data plus the writes still waiting to be sent, so a reload doesn't hide them
+  overlay: <T>(items: T[], entries: OutboxEntry[], table: string, idOf: (item: T) => string): T[] => entries
+    .filter(e => e.table === table)
+    .reduce((acc, e) => {
+      if (e.op === 'remove') return acc.filter(item => idOf(item) !== e.recordId);
+      if (e.op === 'update') return acc.map(item => idOf(item) === e.recordId ? { ...item, ...e.data } : item);
+      return acc.some(item => idOf(item) === e.recordId) ? acc.map(item => idOf(item) === e.recordId ? e.data : item) : [e.data, ...acc];
+    }, items),
+
+  counts: (entries: OutboxEntry[]) => ({
+    pending: entries.filter(e => e.status === 'PENDING').length,
+    failed: entries.filter(e => e.status === 'FAILED').length,
+  }),
+};
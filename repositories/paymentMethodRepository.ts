@@ -0,0 +1,23 @@
+import type { PaymentMethod } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec } from './codec';
+
+export const paymentMethodStore: EntityStore<PaymentMethod> = {
+  table: 'payment_methods',
+  idField: 'id',
+  codec: defineCodec<PaymentMethod>({
+    id: 'id',
+    type: 'type',
+    name: 'name',
+    accountNumber: 'account_number',
+    accountName: 'account_name',
+    description: 'description',
+    logo: 'logo',
+    isActive: 'is_active',
+  }),
+  local: { get: DataService.getPayments, save: DataService.savePayments },
+  versioned: true,
+};
+
+export const createPaymentMethodRepository = (backend: StorageBackend) => createRepository(backend, paymentMethodStore);
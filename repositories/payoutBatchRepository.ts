@@ -0,0 +1,23 @@
+import type { PayoutBatch } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec, numeric } from './codec';
+
+export const payoutBatchStore: EntityStore<PayoutBatch> = {
+  table: 'payout_batches',
+  idField: 'id',
+  codec: defineCodec<PayoutBatch>({
+    id: 'id',
+    status: 'status',
+    minimumAmount: numeric('minimum_amount'),
+    totalAmount: numeric('total_amount'),
+    createdBy: 'created_by',
+    createdAt: 'created_at',
+    confirmedBy: 'confirmed_by',
+    confirmedAt: 'confirmed_at',
+  }),
+  local: { get: DataService.getPayoutBatches, save: DataService.savePayoutBatches },
+  versioned: true,
+};
+
+export const createPayoutBatchRepository = (backend: StorageBackend) => createRepository(backend, payoutBatchStore);
@@ -0,0 +1,25 @@
+import type { AffiliatePayout } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec, list, numeric } from './codec';
+
+export const payoutStore: EntityStore<AffiliatePayout> = {
+  table: 'affiliate_payouts',
+  idField: 'id',
+  codec: defineCodec<AffiliatePayout>({
+    id: 'id',
+    batchId: 'batch_id',
+    affiliateId: 'affiliate_id',
+    amount: numeric('amount'),
+    bankDetails: 'bank_details',
+    commissionIds: list('commission_ids'),
+    status: 'status',
+    createdAt: 'created_at',
+    paidAt: 'paid_at',
+    note: 'note',
+  }),
+  local: { get: DataService.getPayouts, save: DataService.savePayouts },
+  versioned: true,
+};
+
+export const createPayoutRepository = (backend: StorageBackend) => createRepository(backend, payoutStore);
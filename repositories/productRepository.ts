@@ -0,0 +1,107 @@
+import type { Product, ProductVariant } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, Repository, StorageBackend } from './backend';
+import { defineCodec, list, numeric } from './codec';
+
+// Supabase keeps deliverables in the admin-only product_files table
+export interface ProductFile {
+  productId: string;
+  fileUrl?: string;
+  variantFiles?: Record<string, string>; // variant id -> deliverable
+}
+
+export const productStore: EntityStore<Product> = {
+  table: 'products',
+  idField: 'id',
+  codec: defineCodec<Product>({
+    id: 'id',
+    name: 'name',
+    category: 'category',
+    description: 'description',
+    price: numeric('price'),
+    discountPrice: numeric('discount_price'),
+    image: 'image',
+    fileUrl: null,
+    isPopular: 'is_popular',
+    singleLicense: 'single_license',
+    // Variant files go to product_files with the product's own file
+    variants: { column: 'variants', read: v => v || [], write: (v?: ProductVariant[]) => (v || []).map(({ fileUrl, ...variant }) => variant) },
+    bundleItems: list('bundle_items'),
+    // Older local products have no date; the cloud stamps them when first saved
+    createdAt: { column: 'created_at', write: v => v || new Date().toISOString() },
+    slug: 'slug',
+    gallery: list('gallery'),
+    previewUrl: 'preview_url',
+  }),
+  local: { get: DataService.getProducts, save: DataService.saveProducts },
+  versioned: true,
+};
+
+export const productFileStore: EntityStore<ProductFile> = {
+  table: 'product_files',
+  idField: 'productId',
+  codec: defineCodec<ProductFile>({ productId: 'product_id', fileUrl: 'file_url', variantFiles: 'variant_files' }),
+  // Other backends keep fileUrl on the product itself
+  local: { get: () => [], save: () => {} },
+};
+
+export const createProductRepository = (backend: StorageBackend): Repository<Product> => {
+  const products = createRepository(backend, productStore);
+  if (backend.kind !== 'supabase') return products;
+  const files = createRepository(backend, productFileStore);
+
+  const fileRows = async () => new Map(((await files.list()) || []).map(f => [f.productId, f]));
+  const withFiles = (product: Product, file?: ProductFile): Product => ({
+    ...product,
+    fileUrl: file?.fileUrl,
+    ...(product.variants && { variants: product.variants.map(v => ({ ...v, fileUrl: file?.variantFiles?.[v.id] })) }),
+  });
+  const fileRow = (product: Pick<Product, 'id' | 'fileUrl' | 'variants'>): ProductFile => ({
+    productId: product.id,
+    fileUrl: product.fileUrl,
+    variantFiles: Object.fromEntries((product.variants || []).filter(v => v.fileUrl).map(v => [v.id, v.fileUrl!])),
+  });
+
+  return {
+    ...products,
+    list: async () => {
+      const [items, rows] = await Promise.all([products.list(), fileRows()]);
+      if (!items) return null;
+      return items.map(p => withFiles(p, rows.get(p.id)));
+    },
+    listVersioned: async () => {
+      const [rows, fileById] = await Promise.all([products.listVersioned(), fileRows()]);
+      if (!rows) return null;
+      return rows.map(r => ({ ...r, item: withFiles(r.item, fileById.get(r.item.id)) }));
+    },
+    get: async id => {
+      const [row, file] = await Promise.all([products.get(id), files.get(id)]);
+      return row && { ...row, item: withFiles(row.item, file?.item) };
+    },
+    saveAll: async items => {
+      await products.saveAll(items);
+      await files.saveAll(items.map(fileRow));
+    },
+    insert: async item => {
+      await products.insert(item);
+      await files.insert(fileRow(item));
+    },
+    update: async (id, patch) => {
+      await products.update(id, patch);
+      if ('fileUrl' in patch) await files.update(id, { fileUrl: patch.fileUrl });
+      if ('variants' in patch) await files.update(id, { variantFiles: fileRow({ id, variants: patch.variants }).variantFiles });
+    },
+    // Realtime rows come from products alone, so look the deliverable up separately
+    subscribe: products.subscribe && (listener => products.subscribe!(async change => {
+      if (!change.item) return listener(change);
+      const file = await files.get(change.id);
+      listener({ ...change, item: withFiles(change.item, file?.item) });
+    })),
+    // The file row follows the product; a tombstoned product keeps it so past orders can still download
+    put: async (item, expected, force) => {
+      const version = await products.put(item, expected, force);
+      if (version !== null) await files.saveAll([fileRow(item)]);
+      return version;
+    },
+  };
+};
@@ -0,0 +1,19 @@
+import type { ReferralClick } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec } from './codec';
+
+export const referralClickStore: EntityStore<ReferralClick> = {
+  table: 'referral_clicks',
+  idField: 'id',
+  codec: defineCodec<ReferralClick>({
+    id: 'id',
+    affiliateId: 'affiliate_id',
+    code: 'code',
+    landingPath: 'landing_path',
+    clickedAt: 'clicked_at',
+  }),
+  local: { get: DataService.getReferralClicks, save: DataService.saveReferralClicks },
+};
+
+export const createReferralClickRepository = (backend: StorageBackend) => createRepository(backend, referralClickStore);
@@ -0,0 +1,27 @@
+import type { ProductReview } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec, numeric } from './codec';
+
+export const reviewStore: EntityStore<ProductReview> = {
+  table: 'product_reviews',
+  idField: 'id',
+  codec: defineCodec<ProductReview>({
+    id: 'id',
+    productId: 'product_id',
+    customerId: 'customer_id',
+    customerName: 'customer_name',
+    orderId: 'order_id',
+    rating: numeric('rating'),
+    comment: 'comment',
+    isHidden: { column: 'is_hidden', write: v => !!v },
+    reply: 'reply',
+    repliedAt: 'replied_at',
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }),
+  local: { get: DataService.getReviews, save: DataService.saveReviews },
+  versioned: true,
+};
+
+export const createReviewRepository = (backend: StorageBackend) => createRepository(backend, reviewStore);
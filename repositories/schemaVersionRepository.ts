@@ -0,0 +1,18 @@
+import { createRepository, EntityStore, StorageBackend } from './backend';
+import { defineCodec, numeric } from './codec';
+
+export interface SchemaVersion {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+// Written only by the migration scripts; browsers and local mode have no schema
+export const schemaVersionStore: EntityStore<SchemaVersion> = {
+  table: 'schema_version',
+  idField: 'name',
+  codec: defineCodec<SchemaVersion>({ version: numeric('version'), name: 'name', appliedAt: 'applied_at' }),
+  local: { get: () => [], save: () => {} },
+};
+
+export const createSchemaVersionRepository = (backend: StorageBackend) => createRepository(backend, schemaVersionStore);
@@ -0,0 +1,87 @@
+import type { StoreSettings } from '../types';
+import { DataService } from '../services/dataService';
+import type { DocumentStore, StorageBackend } from './backend';
+import { defineCodec, numeric } from './codec';
+
+export const settingsStore: DocumentStore<StoreSettings> = {
+  table: 'store_settings',
+  id: 'settings_01',
+  codec: defineCodec<StoreSettings>({
+    storeName: 'store_name',
+    address: 'address',
+    whatsapp: 'whatsapp',
+    email: 'email',
+    description: 'description',
+    logoUrl: 'logo_url',
+    supabaseUrl: null, // Connection details stay in the browser
+    supabaseKey: null,
+    tripayApiKey: 'tripay_api_key',
+    tripayPrivateKey: 'tripay_private_key',
+    tripayMerchantCode: 'tripay_merchant_code',
+    tripayMode: 'tripay_mode',
+    tripayBaseUrl: 'tripay_base_url',
+    tripayCallbackUrl: 'tripay_callback_url',
+    tripayEnabled: null,
+    downloadSecret: 'download_secret',
+    downloadLinkTtlMinutes: numeric('download_link_ttl_minutes'),
+    downloadLimit: numeric('download_limit'),
+    taxRate: numeric('tax_rate'),
+    taxInclusive: 'tax_inclusive',
+    taxLabel: 'tax_label',
+    autoPopular: 'auto_popular',
+    adminUsername: 'admin_username',
+    adminPassword: 'admin_password',
+  }),
+  local: { get: DataService.getSettings, save: DataService.saveSettings },
+};
+
+// Public subset for visitors; the secrets are not in the view at all
+export const storeProfileStore: DocumentStore<StoreSettings> = {
+  ...settingsStore,
+  table: 'store_profile',
+  codec: defineCodec<StoreSettings>({
+    storeName: 'store_name',
+    address: 'address',
+    whatsapp: 'whatsapp',
+    email: 'email',
+    description: 'description',
+    logoUrl: 'logo_url',
+    supabaseUrl: null,
+    supabaseKey: null,
+    tripayApiKey: null,
+    tripayPrivateKey: null,
+    tripayMerchantCode: null,
+    tripayMode: 'tripay_mode',
+    tripayBaseUrl: null,
+    tripayCallbackUrl: null,
+    tripayEnabled: 'tripay_enabled',
+    downloadSecret: null,
+    downloadLinkTtlMinutes: numeric('download_link_ttl_minutes'),
+    downloadLimit: numeric('download_limit'),
+    taxRate: numeric('tax_rate'),
+    taxInclusive: 'tax_inclusive',
+    taxLabel: 'tax_label',
+    autoPopular: null,
+    adminUsername: null,
+    adminPassword: null,
+  }),
+};
+
+export interface SettingsRepository {
+  // Fields the backend knows about; merge over the current settings
+  load: () => Promise<Partial<StoreSettings> | null>;
+  cached: () => StoreSettings | undefined;
+  save: (settings: StoreSettings) => Promise<void>;
+  update: (patch: Partial<StoreSettings>) => Promise<void>;
+}
+
+export const createSettingsRepository = (backend: StorageBackend): SettingsRepository => ({
+  load: async () => {
+    const settings = await backend.loadDocument(settingsStore);
+    if (settings) return { ...settings, tripayEnabled: !!(settings.tripayApiKey && settings.tripayPrivateKey && settings.tripayMerchantCode) };
+    return backend.kind === 'supabase' ? backend.loadDocument(storeProfileStore) : null;
+  },
+  cached: () => backend.peekDocument?.(settingsStore),
+  save: settings => backend.saveDocument(settingsStore, settings),
+  update: patch => backend.updateDocument(settingsStore, patch),
+});
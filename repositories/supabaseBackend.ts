@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EntityStore, StorageBackend } from './backend';
+import type { Row } from './codec';
+
+// Versioned tables keep deleted rows as tombstones; every read skips them
+const select = <T>(client: SupabaseClient, store: EntityStore<T>) => {
+  const query = client.from(store.table).select('*');
+  return store.versioned ? query.is('deleted_at', null) : query;
+};
+
+// Unique violation: the record was created elsewhere in the meantime
+const isDuplicate = (error: { code?: string } | null) => error?.code === '23505';
+
+// Reads are best effort (row-level security may hide rows, tables may not exist yet); writes throw
+export const createSupabaseBackend = (client: SupabaseClient): StorageBackend => ({
+  kind: 'supabase',
+  load: async store => {
+    const { data, error } = await select(client, store);
+    return error || !data ? null : data.map(store.codec.fromRow);
+  },
+  save: async (store, items) => {
+    if (items.length === 0) return;
+    // A full save is authoritative, so it also revives tombstoned rows it contains
+    const rows = items.map(item => store.versioned ? { ...store.codec.toRow(item), deleted_at: null } : store.codec.toRow(item));
+    const { error } = await client.from(store.table).upsert(rows);
+    if (error) throw error;
+  },
+  insert: async (store, item) => {
+    const { error } = await client.from(store.table).insert(store.codec.toRow(item));
+    if (error) throw error;
+  },
+  update: async (store, id, patch) => {
+    const { error } = await client.from(store.table).update(store.codec.toPatch(patch)).eq(store.codec.column(store.idField), id);
+    if (error) throw error;
+  },
+  loadVersioned: async store => {
+    const { data, error } = await select(client, store);
+    return error || !data ? null : data.map(row => ({ item: store.codec.fromRow(row), version: row.updated_at }));
+  },
+  get: async (store, id) => {
+    const { data, error } = await select(client, store).eq(store.codec.column(store.idField), id).maybeSingle();
+    return error || !data ? null : { item: store.codec.fromRow(data), version: data.updated_at };
+  },
+  // The touch_updated_at trigger bumps updated_at on every update, so a matching version means nobody wrote since
+  put: async (store, item, expected, force) => {
+    const idColumn = store.codec.column(store.idField);
+    const row = { ...store.codec.toRow(item), deleted_at: null };
+    const { data, error } = force
+      ? await client.from(store.table).upsert(row).select('updated_at')
+      : expected === null
+        ? await client.from(store.table).insert(row).select('updated_at')
+        : await client.from(store.table).update(row).eq(idColumn, row[idColumn]).eq('updated_at', expected).is('deleted_at', null).select('updated_at');
+    if (isDuplicate(error)) return null;
+    if (error) throw error;
+    return data?.[0]?.updated_at ?? null;
+  },
+  remove: async (store, id, expected, force) => {
+    const query = client.from(store.table).update({ deleted_at: new Date().toISOString() }).eq(store.codec.column(store.idField), id).is('deleted_at', null);
+    const { data, error } = await (force || expected === null ? query : query.eq('updated_at', expected)).select('updated_at');
+    if (error) throw error;
+    // Already gone counts as done when forcing
+    return data?.[0]?.updated_at ?? (force ? '' : null);
+  },
+  // Realtime only delivers rows the session may read (row-level security) from tables in the supabase_realtime publication
+  subscribe: (store, listener) => {
+    const idColumn = store.codec.column(store.idField);
+    const channel = client.channel(`changes:${store.table}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: store.table }, payload => {
+        const row: Row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        const deleted = payload.eventType === 'DELETE' || (store.versioned && !!row.deleted_at);
+        listener({ id: String(row[idColumn]), item: deleted ? null : store.codec.fromRow(row), version: row.updated_at ?? '' });
+      })
+      .subscribe();
+    return () => { client.removeChannel(channel); };
+  },
+  loadDocument: async store => {
+    const { data, error } = await client.from(store.table).select('*').eq('id', store.id).maybeSingle();
+    return error || !data ? null : store.codec.fromRow(data);
+  },
+  saveDocument: async (store, item) => {
+    const { error } = await client.from(store.table).upsert({ id: store.id, ...store.codec.toRow(item) });
+    if (error) throw error;
+  },
+  updateDocument: async (store, patch) => {
+    const { error } = await client.from(store.table).update(store.codec.toPatch(patch)).eq('id', store.id);
+    if (error) throw error;
+  },
+});
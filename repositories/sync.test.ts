@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { createRepository, Repository } from './backend';
+import { createMemoryBackend } from './memoryBackend';
+import { productStore } from './productRepository';
+import { SyncConflict, SyncService } from './sync';
+
+const product = (id: string, price: number, extra: Partial<Product> = {}): Product => ({ id, name: `Produk ${id}`, category: 'Ebook', description: '', price, image: '', ...extra });
+
+const repoWith = (...items: Product[]) => createRepository(createMemoryBackend({ products: items }), productStore);
+const baseOf = (repo: Repository<Product>, ...rows: [Product, string][]) => SyncService.createBase(repo, rows.map(([item, version]) => ({ item, version })));
+
+describe('SyncService.changes', () => {
+  const repo = repoWith();
+  const base = baseOf(repo, [product('p1', 1000), 'v1'], [product('p2', 2000), 'v2']);
+
+  it('finds nothing when the state matches the base', () => {
+    expect(SyncService.changes(repo, base, [product('p1', 1000), product('p2', 2000)])).toEqual([]);
+  });
+
+  it('ignores key order', () => {
+    const { price, ...rest } = product('p1', 1000);
+    expect(SyncService.changes(repo, base, [{ price, ...rest }, product('p2', 2000)])).toEqual([]);
+  });
+
+  it('puts edited records against the version they were read at', () => {
+    expect(SyncService.changes(repo, base, [product('p1', 1500), product('p2', 2000)])).toEqual([
+      { table: 'products', recordId: 'p1', op: 'put', data: product('p1', 1500), expected: 'v1' },
+    ]);
+  });
+
+  it('puts new records as not existing yet', () => {
+    const [change] = SyncService.changes(repo, base, [product('p1', 1000), product('p2', 2000), product('p3', 3000)]);
+    expect(change).toMatchObject({ recordId: 'p3', op: 'put', expected: null });
+  });
+
+  it('removes records that disappeared, which leaves a tombstone in the cloud', () => {
+    expect(SyncService.changes(repo, base, [product('p1', 1000)])).toEqual([{ table: 'products', recordId: 'p2', op: 'remove', expected: 'v2' }]);
+  });
+
+  it('skips records with an open conflict', () => {
+    expect(SyncService.changes(repo, base, [product('p1', 1500)], new Set(['p1', 'p2']))).toEqual([]);
+  });
+});
+
+describe('SyncService.applied and received', () => {
+  const repo = repoWith();
+  const base = baseOf(repo, [product('p1', 1000), 'v1']);
+
+  it('moves the base to what reached the cloud', () => {
+    const next = SyncService.applied(base, { table: 'products', recordId: 'p1', op: 'put', data: product('p1', 1500) }, 'v2');
+    expect(next.get('p1')?.version).toBe('v2');
+    expect(SyncService.matches(next, 'p1', product('p1', 1500))).toBe(true);
+    expect(SyncService.applied(next, { table: 'products', recordId: 'p1', op: 'remove' }, '').has('p1')).toBe(false);
+    expect(base.get('p1')?.version).toBe('v1');
+  });
+
+  it('takes over changes from other sessions', () => {
+    expect(SyncService.received(base, { id: 'p1', item: product('p1', 900), version: 'v9' }).get('p1')?.version).toBe('v9');
+    expect(SyncService.received(base, { id: 'p1', item: null, version: '' }).has('p1')).toBe(false);
+  });
+});
+
+describe('SyncService.resolve', () => {
+  const conflict = (local: Product | null, remote: Product | null): SyncConflict<Product> => ({ table: 'products', id: 'p1', local, remote, remoteVersion: 'v5' });
+
+  it('keeping the local side writes it over the cloud', async () => {
+    const repo = repoWith(product('p1', 2000));
+    const base = baseOf(repo, [product('p1', 1000), 'v1']);
+    const next = await SyncService.resolve(repo, base, conflict(product('p1', 1500), product('p1', 2000)), 'local');
+    expect(await repo.list()).toEqual([product('p1', 1500)]);
+    expect(SyncService.matches(next, 'p1', product('p1', 1500))).toBe(true);
+  });
+
+  it('keeping a local delete removes the record from the cloud', async () => {
+    const repo = repoWith(product('p1', 2000));
+    const next = await SyncService.resolve(repo, baseOf(repo, [product('p1', 1000), 'v1']), conflict(null, product('p1', 2000)), 'local');
+    expect(await repo.list()).toEqual([]);
+    expect(next.has('p1')).toBe(false);
+  });
+
+  it('fails when the cloud refuses the write', async () => {
+    const repo: Repository<Product> = { ...repoWith(), put: async () => null };
+    await expect(SyncService.resolve(repo, new Map(), conflict(product('p1', 1500), null), 'local')).rejects.toThrow('Gagal menyimpan products/p1');
+  });
+
+  it('keeping the remote side adopts it without writing', async () => {
+    const repo = repoWith(product('p1', 2000));
+    const next = await SyncService.resolve(repo, baseOf(repo, [product('p1', 1000), 'v1']), conflict(product('p1', 1500), product('p1', 2000)), 'remote');
+    expect(next.get('p1')?.version).toBe('v5');
+    expect(SyncService.matches(next, 'p1', product('p1', 2000))).toBe(true);
+    expect(await repo.list()).toEqual([product('p1', 2000)]);
+  });
+
+  it('keeping a remote delete drops the record from the base', async () => {
+    const repo = repoWith();
+    const next = await SyncService.resolve(repo, baseOf(repo, [product('p1', 1000), 'v1']), conflict(product('p1', 1500), null), 'remote');
+    expect(next.has('p1')).toBe(false);
+  });
+});
+
+describe('SyncService.changedFields', () => {
+  it('lists the fields that differ', () => {
+    const conflict: SyncConflict<Product> = { table: 'products', id: 'p1', local: product('p1', 1000, { isPopular: true }), remote: product('p1', 2000), remoteVersion: '' };
+    expect(SyncService.changedFields(conflict)).toEqual(['price', 'isPopular']);
+  });
+});
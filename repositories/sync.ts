@@ -0,0 +1,83 @@
+import type { RecordChange, Repository, Versioned } from './backend';
+import type { OutboxMutation } from './outbox';
+
+// What the cloud held when this browser last read or wrote each record, keyed by id.
+// Changes are found by diffing the app state against it, deletes by ids that disappeared.
+export type SyncBase = Map<string, { version: string; snapshot: string }>;
+
+// A record someone else changed (or deleted) after we last saw it, while we changed it too
+export interface SyncConflict<T = any> {
+  table: string;
+  id: string;
+  local: T | null; // null: deleted here
+  remote: T | null; // null: deleted in the cloud
+  remoteVersion: string;
+}
+
+// Key order differs between records built in the UI and records decoded from rows, so sort keys
+const snapshot = (value: unknown): string => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]])) : v);
+
+export const SyncService = {
+  createBase: <T>(repo: Repository<T>, rows: Versioned<T>[]): SyncBase =>
+    new Map(rows.map(r => [repo.idOf(r.item), { version: r.version, snapshot: snapshot(r.item) }])),
+
+  // Records that changed since the base become puts, ids that disappeared become removes (tombstones).
+  // Records with an open conflict are left alone until it is resolved.
+  changes: <T>(repo: Repository<T>, base: SyncBase, items: T[], skip: Set<string> = new Set()): OutboxMutation[] => {
+    const present = new Set(items.map(repo.idOf));
+    const puts = items
+      .filter(item => !skip.has(repo.idOf(item)) && base.get(repo.idOf(item))?.snapshot !== snapshot(item))
+      .map(item => ({ table: repo.table, recordId: repo.idOf(item), op: 'put' as const, data: item, expected: base.get(repo.idOf(item))?.version ?? null }));
+    const removes = [...base.entries()]
+      .filter(([id]) => !present.has(id) && !skip.has(id))
+      .map(([id, known]) => ({ table: repo.table, recordId: id, op: 'remove' as const, expected: known.version }));
+    return [...puts, ...removes];
+  },
+
+  // The base once a queued change reached the cloud
+  applied: (base: SyncBase, change: OutboxMutation, version: string): SyncBase => {
+    const next: SyncBase = new Map(base);
+    if (change.op === 'remove') next.delete(change.recordId); else next.set(change.recordId, { version, snapshot: snapshot(change.data) });
+    return next;
+  },
+
+  // Whether the record still equals what the cloud held, i.e. has no local edit in it
+  matches: <T>(base: SyncBase, id: string, item: T): boolean => base.get(id)?.snapshot === snapshot(item),
+
+  // The base after another session's change arrived and was taken over
+  received: <T>(base: SyncBase, change: RecordChange<T>): SyncBase => {
+    const next: SyncBase = new Map(base);
+    if (change.item) next.set(change.id, { version: change.version, snapshot: snapshot(change.item) }); else next.delete(change.id);
+    return next;
+  },
+
+  conflictFor: async <T>(repo: Repository<T>, id: string, local: T | null): Promise<SyncConflict<T>> => {
+    const remote = await repo.get(id);
+    return { table: repo.table, id, local, remote: remote?.item ?? null, remoteVersion: remote?.version ?? '' };
+  },
+
+  // 'local' overwrites the cloud with our side; 'remote' adopts the cloud's side, which the caller
+  // then applies to its state. Either way the base ends up matching the cloud again.
+  resolve: async <T>(repo: Repository<T>, base: SyncBase, conflict: SyncConflict<T>, keep: 'local' | 'remote'): Promise<SyncBase> => {
+    const next: SyncBase = new Map(base);
+    const winner = keep === 'local' ? conflict.local : conflict.remote;
+    if (keep === 'local') {
+      const version = conflict.local ? await repo.put(conflict.local, null, true) : await repo.remove(conflict.id, null, true);
+      if (version === null) throw new Error(`Gagal menyimpan ${conflict.table}/${conflict.id}`);
+      if (winner) next.set(conflict.id, { version, snapshot: snapshot(winner) }); else next.delete(conflict.id);
+    } else if (winner) {
+      next.set(conflict.id, { version: conflict.remoteVersion, snapshot: snapshot(winner) });
+    } else {
+      next.delete(conflict.id);
+    }
+    return next;
+  },
+
+  // Fields that differ between the two sides, for display
+  changedFields: (conflict: SyncConflict): string[] => {
+    const local = conflict.local || {};
+    const remote = conflict.remote || {};
+    return Object.keys({ ...local, ...remote }).filter(k => snapshot(local[k]) !== snapshot(remote[k]));
+  },
+};
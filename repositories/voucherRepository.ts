@@ -0,0 +1,62 @@
+import type { Voucher } from '../types';
+import { DataService } from '../services/dataService';
+import { createRepository, EntityStore, Repository, StorageBackend } from './backend';
+import { defineCodec, list, numeric } from './codec';
+
+// Redemption counts across all customers; row-level security hides other customers' orders
+export interface VoucherUsage {
+  voucherId: string;
+  used: number;
+}
+
+export const voucherStore: EntityStore<Voucher> = {
+  table: 'vouchers',
+  idField: 'id',
+  codec: defineCodec<Voucher>({
+    id: 'id',
+    code: 'code',
+    type: 'type',
+    value: numeric('value'),
+    isActive: 'is_active',
+    startsAt: 'starts_at',
+    endsAt: 'ends_at',
+    minSubtotal: numeric('min_subtotal'),
+    maxDiscount: numeric('max_discount'),
+    usageLimit: numeric('usage_limit'),
+    perCustomerLimit: numeric('per_customer_limit'),
+    productIds: list('product_ids'),
+    categories: list('categories'),
+    usedCount: null,
+  }),
+  local: { get: DataService.getVouchers, save: DataService.saveVouchers },
+  versioned: true,
+};
+
+export const voucherUsageStore: EntityStore<VoucherUsage> = {
+  table: 'voucher_usage',
+  idField: 'voucherId',
+  codec: defineCodec<VoucherUsage>({ voucherId: 'voucher_id', used: numeric('used') }),
+  // Other backends count from the orders they hold
+  local: { get: () => [], save: () => {} },
+};
+
+export const createVoucherRepository = (backend: StorageBackend): Repository<Voucher> => {
+  const vouchers = createRepository(backend, voucherStore);
+  if (backend.kind !== 'supabase') return vouchers;
+  const usage = createRepository(backend, voucherUsageStore);
+  const usedCounts = async () => new Map(((await usage.list()) || []).map(u => [u.voucherId, u.used]));
+
+  return {
+    ...vouchers,
+    list: async () => {
+      const [items, used] = await Promise.all([vouchers.list(), usedCounts()]);
+      if (!items) return null;
+      return items.map(v => ({ ...v, usedCount: used.get(v.id) }));
+    },
+    listVersioned: async () => {
+      const [rows, used] = await Promise.all([vouchers.listVersioned(), usedCounts()]);
+      if (!rows) return null;
+      return rows.map(r => ({ ...r, item: { ...r.item, usedCount: used.get(r.item.id) } }));
+    },
+  };
+};
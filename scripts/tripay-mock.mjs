@@ -0,0 +1,114 @@
+// Local stand-in for the Tripay API, for testing closed payments without the sandbox.
+//
+//   TRIPAY_API_KEY=dev-key TRIPAY_PRIVATE_KEY=dev-private TRIPAY_MERCHANT_CODE=T0001 npm run mock:tripay
+//
+// Point "API Base URL" in the admin Tripay settings to http://localhost:4010 and use the same keys.
+// The hosted checkout page has buttons that send a signed callback to the transaction's callback_url.
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 4010);
+const API_KEY = process.env.TRIPAY_API_KEY || 'dev-key';
+const PRIVATE_KEY = process.env.TRIPAY_PRIVATE_KEY || 'dev-private';
+const MERCHANT_CODE = process.env.TRIPAY_MERCHANT_CODE || 'T0001';
+
+const transactions = new Map();
+const hmac = (message) => crypto.createHmac('sha256', PRIVATE_KEY).update(message).digest('hex');
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Authorization, Content-Type', 'Content-Type': 'application/json', ...headers });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve) => {
+  let data = '';
+  req.on('data', (chunk) => { data += chunk; });
+  req.on('end', () => resolve(data));
+});
+
+const sendCallback = async (tx, status) => {
+  tx.status = status;
+  const body = JSON.stringify({
+    reference: tx.reference,
+    merchant_ref: tx.merchant_ref,
+    payment_method: tx.payment_name,
+    payment_method_code: tx.payment_method,
+    total_amount: tx.amount,
+    fee_merchant: 0,
+    fee_customer: 0,
+    total_fee: 0,
+    amount_received: tx.amount,
+    is_closed_payment: 1,
+    status,
+    paid_at: status === 'PAID' ? Math.floor(Date.now() / 1000) : null,
+    note: null,
+  });
+  if (!tx.callback_url) return { ok: false, message: 'Transaction has no callback_url' };
+  try {
+    const res = await fetch(tx.callback_url, { method: 'POST', headers: { 'Content-Type': 'application/json', 'X-Callback-Event': 'payment_status', 'X-Callback-Signature': hmac(body) }, body });
+    return { ok: res.ok, message: `${res.status} ${await res.text()}` };
+  } catch (e) {
+    return { ok: false, message: e.message };
+  }
+};
+
+const checkoutPage = (tx, result) => `<!DOCTYPE html><html><head><title>Mock Tripay ${tx.reference}</title></head>
+<body style="font-family:sans-serif;max-width:480px;margin:40px auto">
+<h2>Mock Tripay Checkout</h2>
+<p>Ref: <b>${tx.reference}</b><br>Order: ${tx.merchant_ref}<br>Channel: ${tx.payment_method}<br>Pay code: ${tx.pay_code}<br>Amount: Rp ${tx.amount.toLocaleString('id-ID')}<br>Status: <b>${tx.status}</b></p>
+${result ? `<p>Callback: ${result.ok ? 'OK' : 'FAILED'} — ${result.message}</p>` : ''}
+<form method="post" action="/checkout/${tx.reference}/PAID"><button>Simulate payment</button></form>
+<form method="post" action="/checkout/${tx.reference}/EXPIRED"><button>Simulate expiry</button></form>
+${tx.return_url ? `<p><a href="${tx.return_url}">Back to store</a></p>` : ''}
+</body></html>`;
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+
+  if (req.method === 'POST' && url.pathname === '/transaction/create') {
+    if (req.headers.authorization !== `Bearer ${API_KEY}`) return send(res, 401, { success: false, message: 'Invalid API key' });
+    let body;
+    try { body = JSON.parse(await readBody(req)); } catch { return send(res, 400, { success: false, message: 'Invalid JSON' }); }
+    if (body.signature !== hmac(`${MERCHANT_CODE}${body.merchant_ref}${body.amount}`)) return send(res, 400, { success: false, message: 'Invalid signature' });
+    const itemsTotal = (body.order_items || []).reduce((sum, i) => sum + i.price * i.quantity, 0);
+    if (itemsTotal !== body.amount) return send(res, 400, { success: false, message: 'Order items total does not match amount' });
+
+    const reference = `DEV-${MERCHANT_CODE}${Date.now()}`;
+    const tx = {
+      reference,
+      merchant_ref: body.merchant_ref,
+      payment_method: body.method,
+      payment_name: body.method,
+      amount: body.amount,
+      callback_url: body.callback_url,
+      return_url: body.return_url,
+      pay_code: String(Math.floor(1e11 + Math.random() * 9e11)),
+      status: 'UNPAID',
+      expired_time: body.expired_time,
+    };
+    transactions.set(reference, tx);
+    console.log(`created ${reference} for order ${tx.merchant_ref} (Rp ${tx.amount})`);
+    return send(res, 200, {
+      success: true,
+      message: '',
+      data: { ...tx, checkout_url: `http://localhost:${PORT}/checkout/${reference}`, qr_url: null, instructions: [{ title: 'Mock', steps: ['Open the checkout page and press "Simulate payment".'] }] },
+    });
+  }
+
+  const checkout = url.pathname.match(/^\/checkout\/([^/]+)(?:\/(PAID|EXPIRED))?$/);
+  if (checkout) {
+    const tx = transactions.get(checkout[1]);
+    if (!tx) return send(res, 404, { success: false, message: 'Transaction not found' });
+    if (req.method === 'POST' && checkout[2]) {
+      const result = await sendCallback(tx, checkout[2]);
+      console.log(`callback ${checkout[2]} for ${tx.reference}: ${result.message}`);
+      return send(res, 200, checkoutPage(tx, result), { 'Content-Type': 'text/html' });
+    }
+    return send(res, 200, checkoutPage(tx), { 'Content-Type': 'text/html' });
+  }
+
+  send(res, 404, { success: false, message: 'Not found' });
+});
+
+server.listen(PORT, () => console.log(`Mock Tripay listening on http://localhost:${PORT}`));
@@ -0,0 +1,174 @@
+import { Order } from '../types';
+import { PricingService } from './pricingService';
+import { OrderService } from './orderService';
+
+export type AnalyticsPeriod = '7d' | '30d' | '90d' | 'year' | 'all';
+export type AnalyticsGranularity = 'day' | 'week';
+
+export const ANALYTICS_PERIODS: { value: AnalyticsPeriod; label: string }[] = [
+  { value: '7d', label: '7 Hari' },
+  { value: '30d', label: '30 Hari' },
+  { value: '90d', label: '90 Hari' },
+  { value: 'year', label: 'Tahun Ini' },
+  { value: 'all', label: 'Semua' },
+];
+
+export interface DateRange {
+  from: Date | null; // null: since the first order
+  to: Date;
+}
+
+export interface StatusTotals {
+  orders: number;
+  revenue: number; // What buyers pay, tax included
+}
+
+export interface SeriesPoint {
+  key: string; // yyyy-mm-dd of the day or the week's Monday
+  label: string;
+  paid: StatusTotals;
+  pending: StatusTotals;
+}
+
+export interface RankedItem {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number; // After voucher discounts
+}
+
+export interface SalesSummary {
+  paid: StatusTotals & { netRevenue: number; tax: number; averageOrder: number };
+  pending: StatusTotals;
+  cancelled: number;
+  vouchers: { orders: number; cost: number };
+  affiliates: { orders: number; revenue: number; share: number }; // share: percent of paid revenue
+  customers: { new: number; returning: number; newRevenue: number; returningRevenue: number };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Weeks start on Monday
+const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - ((day.getDay() + 6) % 7));
+};
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const within = (time: number, range: DateRange) => (!range.from || time >= range.from.getTime()) && time <= range.to.getTime();
+
+const inRange = (order: Order, range: DateRange) => within(new Date(order.date).getTime(), range);
+
+const totals = (orders: Order[]): StatusTotals => ({ orders: orders.length, revenue: orders.reduce((sum, o) => sum + o.total, 0) });
+
+// Orders from before customer accounts only carry the WhatsApp number
+const customerKey = (order: Order) => order.customerId || order.customerWhatsapp || order.customerName;
+
+// Revenue per order line after its share of the voucher discount (older orders: list price x quantity)
+const lineRevenue = (order: Order): { item: Order['items'][number]; quantity: number; revenue: number }[] => order.items.map(item => {
+  const line = order.pricing?.lines.find(l => l.productId === item.id && l.variantId === item.variantId);
+  return line
+    ? { item, quantity: line.quantity, revenue: line.amount - line.discount }
+    : { item, quantity: item.quantity, revenue: (item.discountPrice || item.price) * item.quantity };
+});
+
+const rank = (entries: Map<string, RankedItem>, limit: number) =>
+  Array.from(entries.values()).sort((a, b) => b.revenue - a.revenue || b.quantity - a.quantity).slice(0, limit);
+
+export const AnalyticsService = {
+  range: (period: AnalyticsPeriod, now = new Date()): DateRange => {
+    const today = startOfDay(now);
+    const days = { '7d': 7, '30d': 30, '90d': 90 }[period as '7d' | '30d' | '90d'];
+    if (days) return { from: new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1)), to: now };
+    if (period === 'year') return { from: new Date(now.getFullYear(), 0, 1), to: now };
+    return { from: null, to: now };
+  },
+
+  summary: (orders: Order[], range: DateRange): SalesSummary => {
+    const current = orders.filter(o => inRange(o, range));
+    const paid = current.filter(OrderService.isPaid);
+    const paidTotals = totals(paid);
+    const tax = paid.reduce((sum, o) => sum + (o.taxAmount || 0), 0);
+    const referred = paid.filter(o => o.affiliateId);
+    const discounted = paid.filter(o => (o.discountAmount || 0) > 0);
+
+    // A customer is new when their first paid order ever falls in the period
+    const firstPaid = new Map<string, number>();
+    orders.filter(OrderService.isPaid).forEach(o => {
+      const t = new Date(o.date).getTime();
+      const key = customerKey(o);
+      if (!firstPaid.has(key) || t < firstPaid.get(key)!) firstPaid.set(key, t);
+    });
+    const buyers = new Map<string, number>();
+    paid.forEach(o => buyers.set(customerKey(o), (buyers.get(customerKey(o)) || 0) + o.total));
+    const customers = { new: 0, returning: 0, newRevenue: 0, returningRevenue: 0 };
+    buyers.forEach((revenue, key) => {
+      if (within(firstPaid.get(key)!, range)) { customers.new++; customers.newRevenue += revenue; } else { customers.returning++; customers.returningRevenue += revenue; }
+    });
+
+    const affiliateRevenue = referred.reduce((sum, o) => sum + o.total, 0);
+    return {
+      paid: {
+        ...paidTotals,
+        netRevenue: paid.reduce((sum, o) => sum + PricingService.commissionBase(o), 0),
+        tax,
+        averageOrder: paid.length ? Math.round(paidTotals.revenue / paid.length) : 0,
+      },
+      pending: totals(current.filter(o => o.status === 'PENDING')),
+      cancelled: current.filter(o => o.status === 'CANCELLED').length,
+      vouchers: { orders: discounted.length, cost: discounted.reduce((sum, o) => sum + (o.discountAmount || 0), 0) },
+      affiliates: { orders: referred.length, revenue: affiliateRevenue, share: paidTotals.revenue ? Math.round((affiliateRevenue / paidTotals.revenue) * 1000) / 10 : 0 },
+      customers,
+    };
+  },
+
+  // One point per day or week of the period, empty ones included so the chart keeps its time axis
+  series: (orders: Order[], range: DateRange, granularity: AnalyticsGranularity): SeriesPoint[] => {
+    const current = orders.filter(o => inRange(o, range) && o.status !== 'CANCELLED');
+    const bucketOf = (date: Date) => granularity === 'week' ? startOfWeek(date) : startOfDay(date);
+    const first = range.from || current.reduce<Date | null>((min, o) => !min || new Date(o.date) < min ? new Date(o.date) : min, null);
+    if (!first) return [];
+    const points = new Map<string, SeriesPoint>();
+    for (let d = bucketOf(first); d.getTime() <= range.to.getTime(); d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + (granularity === 'week' ? 7 : 1))) {
+      const label = d.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+      points.set(dayKey(d), { key: dayKey(d), label: granularity === 'week' ? `Mg ${label}` : label, paid: { orders: 0, revenue: 0 }, pending: { orders: 0, revenue: 0 } });
+    }
+    current.forEach(o => {
+      const point = points.get(dayKey(bucketOf(new Date(o.date))));
+      if (!point) return;
+      const bucket = OrderService.isPaid(o) ? point.paid : point.pending;
+      bucket.orders++;
+      bucket.revenue += o.total;
+    });
+    return Array.from(points.values());
+  },
+
+  // Suggested chart granularity: days for short periods, weeks otherwise
+  granularityFor: (range: DateRange, orders: Order[]): AnalyticsGranularity => {
+    const from = range.from || orders.reduce<Date | null>((min, o) => !min || new Date(o.date) < min ? new Date(o.date) : min, null);
+    return from && (range.to.getTime() - from.getTime()) / DAY > 45 ? 'week' : 'day';
+  },
+
+  // Bundles count as themselves; variants are grouped under their product
+  topProducts: (orders: Order[], range: DateRange, limit = 5): RankedItem[] => {
+    const entries = new Map<string, RankedItem>();
+    orders.filter(o => OrderService.isPaid(o) && inRange(o, range)).forEach(o => lineRevenue(o).forEach(({ item, quantity, revenue }) => {
+      const entry = entries.get(item.id) || { key: item.id, name: item.name, quantity: 0, revenue: 0 };
+      entries.set(item.id, { ...entry, quantity: entry.quantity + quantity, revenue: entry.revenue + revenue });
+    }));
+    return rank(entries, limit);
+  },
+
+  topCategories: (orders: Order[], range: DateRange, limit = 5): RankedItem[] => {
+    const entries = new Map<string, RankedItem>();
+    orders.filter(o => OrderService.isPaid(o) && inRange(o, range)).forEach(o => lineRevenue(o).forEach(({ item, quantity, revenue }) => {
+      const category = item.category || 'Lainnya';
+      const entry = entries.get(category) || { key: category, name: category, quantity: 0, revenue: 0 };
+      entries.set(category, { ...entry, quantity: entry.quantity + quantity, revenue: entry.revenue + revenue });
+    }));
+    return rank(entries, limit);
+  },
+};
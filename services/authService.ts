@@ -0,0 +1,62 @@
+import type { User } from '../types';
+import { base64UrlEncode, base64UrlDecode, toHex } from './cryptoUtils';
+
+export const SESSION_TTL_HOURS = 24;
+
+// Claims the RLS policies read. Supabase only lets the service role write app_metadata,
+// so the auth edge function sets it; the local stand-in token carries the same shape.
+export interface AuthClaims {
+  sub: string;
+  exp: number; // epoch seconds
+  role: 'authenticated';
+  app_metadata: {
+    role: User['role'];
+    account_id: string;
+    name: string;
+    phone?: string;
+  };
+}
+
+export const AuthService = {
+  // The admin has no table row of its own; customers/affiliates use their row id
+  accountId: (user: Pick<User, 'role' | 'id'>): string => user.id || user.role.toLowerCase(),
+
+  // Supabase Auth needs an email, so accounts get a synthetic one per role + id
+  email: (role: User['role'], accountId: string): string => `${role.toLowerCase()}.${accountId}@auth.digistore.local`.toLowerCase(),
+
+  // Stable Auth user id for a store account (UUID-shaped SHA-256 of role + account id)
+  userId: async (role: User['role'], accountId: string): Promise<string> => {
+    const hex = toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${role}:${accountId}`)));
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  },
+
+  appMetadata: (user: User): AuthClaims['app_metadata'] => ({ role: user.role, account_id: AuthService.accountId(user), name: user.name, phone: user.phone }),
+
+  decode: (token: string | null | undefined): AuthClaims | null => {
+    try {
+      const claims = JSON.parse(base64UrlDecode((token || '').split('.')[1] || ''));
+      return claims?.app_metadata?.role ? claims : null;
+    } catch {
+      return null;
+    }
+  },
+
+  // Expired or foreign tokens (e.g. a Supabase session without store claims) yield no user
+  userFromToken: (token: string | null | undefined): User | null => {
+    const claims = AuthService.decode(token);
+    if (!claims || claims.exp * 1000 < Date.now()) return null;
+    const { role, account_id, name, phone } = claims.app_metadata;
+    return { role, name, id: role === 'ADMIN' ? undefined : account_id, phone };
+  },
+
+  // Local mode has no server to sign with, so the stand-in token is unsigned (alg "none")
+  createLocalToken: (user: User): string => {
+    const claims: AuthClaims = {
+      sub: AuthService.accountId(user),
+      exp: Math.floor(Date.now() / 1000) + SESSION_TTL_HOURS * 3600,
+      role: 'authenticated',
+      app_metadata: AuthService.appMetadata(user),
+    };
+    return `${base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(claims))}.`;
+  },
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { Order, Product, StoreSettings } from '../types';
+import { BackupData, BackupService, BACKUP_FORMAT } from './backupService';
+import { LATEST_SCHEMA_VERSION } from './migrationService';
+
+const settings = { storeName: 'Toko', supabaseUrl: 'https://x.supabase.co', supabaseKey: 'anon' } as StoreSettings;
+
+const product = (id: string, name: string, extra: Partial<Product> = {}): Product => ({ id, name, category: 'Ebook', description: '', price: 50000, image: '', ...extra });
+
+const order = (id: string, date: string, extra: Partial<Order> = {}): Order => ({
+  id, items: [], total: 50000, customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'BCA', status: 'PAID', date, ...extra,
+});
+
+const empty = (): BackupData => ({
+  settings, paymentMethods: [], products: [], vouchers: [], affiliates: [], customers: [], orders: [], downloadLogs: [], referralClicks: [], payoutBatches: [], commissions: [], payouts: [], reviews: [],
+});
+
+const file = (data: unknown, version = LATEST_SCHEMA_VERSION) => JSON.stringify({ format: BACKUP_FORMAT, version, createdAt: '2026-01-01T00:00:00.000Z', storeName: 'Toko', data });
+
+describe('BackupService.create', () => {
+  it('leaves the Supabase connection out of the archive', () => {
+    const archive = BackupService.create(empty(), '2026-02-03T00:00:00.000Z');
+    expect(archive).toMatchObject({ format: BACKUP_FORMAT, version: LATEST_SCHEMA_VERSION, storeName: 'Toko' });
+    expect(archive.data.settings).toEqual({ storeName: 'Toko' });
+    expect(BackupService.fileName(archive)).toBe(`digistore-backup-2026-02-03-v${LATEST_SCHEMA_VERSION}.json`);
+  });
+});
+
+describe('BackupService.read', () => {
+  it('reads back an archive it created', () => {
+    const data = { ...empty(), products: [product('p1', 'Ebook', { slug: 'ebook' })] };
+    const check = BackupService.read(JSON.stringify(BackupService.create(data)));
+    expect(check.errors).toEqual([]);
+    expect(check.migrations).toEqual([]);
+    expect(check.archive?.data.products).toEqual(data.products);
+  });
+
+  it('rejects files that are not a backup', () => {
+    expect(BackupService.read('{not json').errors).toEqual(['File bukan JSON yang valid']);
+    expect(BackupService.read('{"format":"other"}').errors).toEqual(['Bukan file backup DigiStore']);
+    expect(BackupService.read(file(empty(), 0)).errors).toEqual(['Versi backup tidak dikenali']);
+    expect(BackupService.read(file({ products: [] })).errors).toEqual(['Backup tidak berisi pengaturan toko']);
+  });
+
+  it('rejects archives from a newer app', () => {
+    expect(BackupService.read(file(empty(), LATEST_SCHEMA_VERSION + 1)).errors[0]).toContain('versi aplikasi yang lebih baru');
+  });
+
+  it('starts collections the archive does not have as empty', () => {
+    const check = BackupService.read(file({ settings: { storeName: 'Toko' }, products: [] }));
+    expect(check.archive?.data.reviews).toEqual([]);
+  });
+
+  it('reports collections that are not lists', () => {
+    expect(BackupService.read(file({ ...empty(), orders: {} })).errors).toEqual(['Pesanan: harus berupa daftar']);
+  });
+
+  it('caps the number of reported problems', () => {
+    const products = Array.from({ length: 15 }, (_, i) => ({ id: `p${i}` }));
+    const { errors } = BackupService.read(file({ ...empty(), products }));
+    expect(errors).toHaveLength(11);
+    expect(errors[10]).toBe('...dan 5 masalah lainnya');
+  });
+
+  describe('migrations', () => {
+    it('gives products from before product pages a unique slug', () => {
+      const products = [product('p1', 'Ebook Bisnis'), product('p2', 'Ebook Bisnis'), product('p3', 'Lain', { slug: 'lain' })];
+      const check = BackupService.read(file({ ...empty(), products }, 15));
+      expect(check.archive?.data.products.map(p => p.slug)).toEqual(['ebook-bisnis', 'ebook-bisnis-2', 'lain']);
+      expect(check.migrations).toEqual(['product_pages', 'invoice_numbers']);
+      expect(check.archive?.version).toBe(LATEST_SCHEMA_VERSION);
+    });
+
+    it('numbers paid orders from before invoices, oldest first', () => {
+      const orders = [
+        order('o2', '2026-02-01T00:00:00.000Z'),
+        order('o1', '2026-01-01T00:00:00.000Z', { status: 'COMPLETED' }),
+        order('o3', '2026-03-01T00:00:00.000Z', { status: 'PENDING' }),
+      ];
+      const check = BackupService.read(file({ ...empty(), orders }, 17));
+      const numbers = Object.fromEntries(check.archive!.data.orders.map(o => [o.id, o.invoiceNumber]));
+      expect(numbers.o1?.endsWith('/000001')).toBe(true);
+      expect(numbers.o2?.endsWith('/000002')).toBe(true);
+      expect(numbers.o3).toBeUndefined();
+      expect(check.migrations).toEqual(['invoice_numbers']);
+    });
+
+    it('skips migrations the archive already has', () => {
+      const orders = [order('o1', '2026-01-01T00:00:00.000Z')];
+      expect(BackupService.read(file({ ...empty(), orders }, 18)).archive?.data.orders[0].invoiceNumber).toBeUndefined();
+    });
+  });
+});
+
+describe('BackupService.validate', () => {
+  it('accepts a well-formed store', () => {
+    expect(BackupService.validate({ ...empty(), products: [product('p1', 'Ebook')], orders: [order('o1', '2026-01-01T00:00:00.000Z')] })).toEqual([]);
+  });
+
+  it('needs a unique string id on every record', () => {
+    const data = { ...empty(), products: [product('p1', 'A'), product('p1', 'B'), { ...product('', 'C') }] };
+    expect(BackupService.validate(data)).toEqual(['Produk #2: ID p1 ganda', 'Produk #3: ID tidak valid']);
+  });
+
+  it('checks the fields each collection needs', () => {
+    const data = { ...empty(), settings: {} as StoreSettings, orders: [{ ...order('o1', '2026-01-01T00:00:00.000Z'), status: 'LOST' } as unknown as Order] };
+    expect(BackupService.validate(data)).toEqual(['Pengaturan: nama toko tidak valid', 'Pesanan #1: item, total, status atau tanggal tidak valid']);
+  });
+});
+
+describe('BackupService.diff', () => {
+  it('counts what a restore adds, changes and removes', () => {
+    const current = { ...empty(), products: [product('p1', 'A'), product('p2', 'B'), product('p3', 'C')] };
+    const incoming = { ...empty(), products: [product('p1', 'A'), product('p2', 'B2'), product('p4', 'D')] };
+    expect(BackupService.diff(current, incoming).find(d => d.key === 'products')).toEqual({ key: 'products', label: 'Produk', current: 3, incoming: 3, added: 1, changed: 1, removed: 1 });
+  });
+
+  it('ignores key order and empty fields', () => {
+    const { name, ...rest } = product('p1', 'A');
+    const current = { ...empty(), products: [{ ...rest, name, slug: undefined }] };
+    const incoming = { ...empty(), products: [product('p1', 'A')] };
+    expect(BackupService.diff(current, incoming).find(d => d.key === 'products')?.changed).toBe(0);
+  });
+
+  it('never removes from append-only logs', () => {
+    const current = { ...empty(), downloadLogs: [{ id: 'd1', orderId: 'o1', productId: 'p1', downloadedAt: '2026-01-01T00:00:00.000Z' }] };
+    expect(BackupService.diff(current, empty()).find(d => d.key === 'downloadLogs')?.removed).toBe(0);
+  });
+});
+
+describe('BackupService.settingsDiff', () => {
+  it('names changed settings but not the connection', () => {
+    expect(BackupService.settingsDiff(settings, { ...settings, storeName: 'Toko Baru', supabaseUrl: 'https://y.supabase.co' })).toEqual(['storeName']);
+  });
+});
@@ -0,0 +1,228 @@
+import { Affiliate, AffiliatePayout, Commission, Customer, DownloadLog, Order, PaymentMethod, PayoutBatch, Product, ProductReview, ReferralClick, StoreSettings, Voucher } from '../types';
+import type { Repositories, Repository } from '../repositories';
+import { LATEST_SCHEMA_VERSION } from './migrationService';
+import { ORDER_STATUSES } from './orderService';
+import { ProductService } from './productService';
+import { InvoiceService } from './invoiceService';
+
+export const BACKUP_FORMAT = 'digistore-backup';
+
+// Everything the store keeps; the session, outbox and carts stay with the browser
+export interface BackupData {
+  settings: StoreSettings;
+  paymentMethods: PaymentMethod[];
+  products: Product[];
+  vouchers: Voucher[];
+  affiliates: Affiliate[];
+  customers: Customer[];
+  orders: Order[];
+  downloadLogs: DownloadLog[];
+  referralClicks: ReferralClick[];
+  payoutBatches: PayoutBatch[];
+  commissions: Commission[];
+  payouts: AffiliatePayout[];
+  reviews: ProductReview[];
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number; // Schema version (see MIGRATIONS) of the app that made it
+  createdAt: string;
+  storeName: string;
+  data: BackupData;
+}
+
+export type BackupCollection = Exclude<keyof BackupData, 'settings'>;
+
+// Problem with one record, or null when it looks usable
+type RecordCheck = (item: any) => string | null;
+
+// In write order, so rows referenced by others (products, orders, affiliates) exist first.
+// appendOnly: logs that are never deleted, so records missing from the archive are kept.
+export const BACKUP_COLLECTIONS: { key: BackupCollection; label: string; appendOnly?: boolean; check?: RecordCheck }[] = [
+  { key: 'products', label: 'Produk', check: p => typeof p.name !== 'string' || typeof p.price !== 'number' ? 'nama atau harga tidak valid' : null },
+  { key: 'paymentMethods', label: 'Metode Pembayaran', check: m => typeof m.name !== 'string' ? 'nama tidak valid' : null },
+  { key: 'vouchers', label: 'Voucher', check: v => typeof v.code !== 'string' || typeof v.value !== 'number' ? 'kode atau nilai tidak valid' : null },
+  { key: 'affiliates', label: 'Afiliasi', check: a => typeof a.code !== 'string' ? 'kode tidak valid' : null },
+  { key: 'customers', label: 'Pelanggan', check: c => typeof c.whatsapp !== 'string' ? 'nomor WhatsApp tidak valid' : null },
+  { key: 'orders', label: 'Pesanan', check: o => !Array.isArray(o.items) || typeof o.total !== 'number' || !ORDER_STATUSES.includes(o.status) || typeof o.date !== 'string' ? 'item, total, status atau tanggal tidak valid' : null },
+  { key: 'downloadLogs', label: 'Log Download', appendOnly: true },
+  { key: 'referralClicks', label: 'Klik Referral', appendOnly: true },
+  { key: 'payoutBatches', label: 'Batch Pencairan' },
+  { key: 'commissions', label: 'Komisi', check: c => typeof c.amount !== 'number' ? 'jumlah tidak valid' : null },
+  { key: 'payouts', label: 'Pencairan', check: p => typeof p.amount !== 'number' ? 'jumlah tidak valid' : null },
+  { key: 'reviews', label: 'Ulasan', check: r => typeof r.productId !== 'string' || typeof r.rating !== 'number' ? 'produk atau rating tidak valid' : null },
+];
+
+// Data changes that came with a schema migration, applied to archives made before it.
+// Collections added by later migrations simply start empty.
+const BACKUP_MIGRATIONS: { version: number; name: string; up: (data: BackupData) => BackupData }[] = [
+  {
+    version: 16,
+    name: 'product_pages',
+    up: data => {
+      const products: Product[] = [];
+      data.products.forEach(p => products.push(p.slug ? p : { ...p, slug: ProductService.uniqueSlug(p.name, [...products, ...data.products], p.id) }));
+      return { ...data, products };
+    },
+  },
+  {
+    version: 18,
+    name: 'invoice_numbers',
+    // Same as the SQL backfill: paid orders are numbered oldest first
+    up: data => {
+      let orders = data.orders;
+      [...orders].sort((a, b) => a.date.localeCompare(b.date)).forEach(order => {
+        const numbered = InvoiceService.assign(order, orders);
+        if (numbered !== order) orders = orders.map(o => o.id === order.id ? numbered : o);
+      });
+      return { ...data, orders };
+    },
+  },
+];
+
+export interface BackupCheck {
+  archive?: BackupArchive; // Migrated to the current version; absent when there are errors
+  errors: string[];
+  migrations: string[]; // Names of the migrations applied
+}
+
+export interface BackupDiff {
+  key: BackupCollection;
+  label: string;
+  current: number;
+  incoming: number;
+  added: number;
+  changed: number;
+  removed: number; // Deleted by a restore, unless the collection is append-only
+}
+
+const MAX_REPORTED_ERRORS = 10;
+
+// The Supabase connection belongs to the browser, not the store
+const withoutConnection = ({ supabaseUrl, supabaseKey, ...settings }: StoreSettings): StoreSettings => settings as StoreSettings;
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Key order and empty fields don't count as differences
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (!isObject(value)) return value;
+  return Object.fromEntries(Object.keys(value).sort().filter(k => value[k] !== undefined && value[k] !== null).map(k => [k, canonical(value[k])]));
+};
+const same = (a: unknown, b: unknown) => JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+export const BackupService = {
+  create: (data: BackupData, now = new Date().toISOString()): BackupArchive => ({
+    format: BACKUP_FORMAT,
+    version: LATEST_SCHEMA_VERSION,
+    createdAt: now,
+    storeName: data.settings.storeName,
+    data: { ...data, settings: withoutConnection(data.settings) },
+  }),
+
+  fileName: (archive: BackupArchive): string => `${BACKUP_FORMAT}-${archive.createdAt.slice(0, 10)}-v${archive.version}.json`,
+
+  download: (archive: BackupArchive) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = BackupService.fileName(archive);
+    a.click();
+    URL.revokeObjectURL(url);
+  },
+
+  // Parses and validates an archive file, bringing older versions up to date
+  read: (text: string): BackupCheck => {
+    let parsed: unknown;
+    try { parsed = JSON.parse(text); } catch { return { errors: ['File bukan JSON yang valid'], migrations: [] }; }
+    if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) return { errors: ['Bukan file backup DigiStore'], migrations: [] };
+    const version = parsed.version;
+    if (!Number.isInteger(version) || version < 1) return { errors: ['Versi backup tidak dikenali'], migrations: [] };
+    if (version > LATEST_SCHEMA_VERSION) return { errors: [`Backup dibuat oleh versi aplikasi yang lebih baru (skema v${version}, aplikasi ini v${LATEST_SCHEMA_VERSION}). Perbarui aplikasi dulu.`], migrations: [] };
+    if (!isObject(parsed.data) || !isObject(parsed.data.settings)) return { errors: ['Backup tidak berisi pengaturan toko'], migrations: [] };
+
+    const errors: string[] = [];
+    const raw = parsed.data;
+    BACKUP_COLLECTIONS.forEach(({ key, label }) => {
+      if (raw[key] !== undefined && !Array.isArray(raw[key])) errors.push(`${label}: harus berupa daftar`);
+    });
+    if (errors.length) return { errors, migrations: [] };
+
+    const pending = BACKUP_MIGRATIONS.filter(m => m.version > version);
+    const normalized = Object.fromEntries([['settings', raw.settings], ...BACKUP_COLLECTIONS.map(({ key }) => [key, raw[key] || []])]) as BackupData;
+    let data = normalized;
+    try {
+      // Records are checked for the basics first, so migrations can rely on them
+      BackupService.validate(normalized).forEach(e => errors.push(e));
+      if (!errors.length) data = pending.reduce((d, m) => m.up(d), normalized);
+    } catch (e: any) {
+      errors.push(`Gagal membaca data: ${e.message || e}`);
+    }
+    if (errors.length > MAX_REPORTED_ERRORS) errors.splice(MAX_REPORTED_ERRORS, errors.length, `...dan ${errors.length - MAX_REPORTED_ERRORS} masalah lainnya`);
+    if (errors.length) return { errors, migrations: [] };
+    return {
+      archive: { format: BACKUP_FORMAT, version: LATEST_SCHEMA_VERSION, createdAt: String(parsed.createdAt || ''), storeName: String(parsed.storeName || raw.settings.storeName || ''), data },
+      errors,
+      migrations: pending.map(m => m.name),
+    };
+  },
+
+  // Every record needs a unique string id plus the fields its collection can't do without
+  validate: (data: BackupData): string[] => {
+    const errors: string[] = [];
+    if (typeof data.settings.storeName !== 'string') errors.push('Pengaturan: nama toko tidak valid');
+    BACKUP_COLLECTIONS.forEach(({ key, label, check }) => {
+      const ids = new Set<string>();
+      (data[key] as unknown[]).forEach((item, idx) => {
+        const where = `${label} #${idx + 1}`;
+        if (!isObject(item) || typeof item.id !== 'string' || !item.id) return errors.push(`${where}: ID tidak valid`);
+        if (ids.has(item.id)) errors.push(`${where}: ID ${item.id} ganda`);
+        ids.add(item.id);
+        const problem = check?.(item);
+        if (problem) errors.push(`${where}: ${problem}`);
+      });
+    });
+    return errors;
+  },
+
+  // What a restore would do to each collection
+  diff: (current: BackupData, incoming: BackupData): BackupDiff[] => BACKUP_COLLECTIONS.map(({ key, label, appendOnly }) => {
+    const before = new Map<string, unknown>((current[key] as { id: string }[]).map(item => [item.id, item]));
+    const after = incoming[key] as { id: string }[];
+    const keep = new Set(after.map(item => item.id));
+    return {
+      key,
+      label,
+      current: before.size,
+      incoming: after.length,
+      added: after.filter(item => !before.has(item.id)).length,
+      changed: after.filter(item => before.has(item.id) && !same(before.get(item.id), item)).length,
+      removed: appendOnly ? 0 : Array.from(before.keys()).filter(id => !keep.has(id)).length,
+    };
+  }),
+
+  // Names of the settings a restore would change
+  settingsDiff: (current: StoreSettings, incoming: StoreSettings): string[] => {
+    const before = withoutConnection(current);
+    const after = withoutConnection(incoming);
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])) as (keyof StoreSettings)[];
+    return keys.filter(key => !same(before[key], after[key])).sort();
+  },
+
+  // Replaces the store's data with the archive's. Records missing from the archive are deleted
+  // (tombstoned in Supabase), except in append-only logs. The Supabase connection is kept.
+  restore: async (repositories: Repositories, data: BackupData, current: BackupData): Promise<void> => {
+    for (const { key, appendOnly } of BACKUP_COLLECTIONS) {
+      const repo = repositories[key] as unknown as Repository<{ id: string }>;
+      const items = data[key] as { id: string }[];
+      const keep = new Set(items.map(item => item.id));
+      const missing = (current[key] as { id: string }[]).filter(item => !keep.has(item.id));
+      // Local storage is rewritten as a whole, so kept log entries are saved along
+      await repo.saveAll(appendOnly ? [...items, ...missing] : items);
+      if (appendOnly) continue;
+      for (const item of missing) await repo.remove(item.id, null, true);
+    }
+    await repositories.settings.save({ ...data.settings, supabaseUrl: current.settings.supabaseUrl, supabaseKey: current.settings.supabaseKey });
+  },
+};
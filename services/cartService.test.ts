@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Product } from '../types';
+import { CartService, MAX_CART_QUANTITY } from './cartService';
+
+const product = (id: string, price: number, extra: Partial<Product> = {}): Product => ({
+  id, name: `Produk ${id}`, image: '', category: 'Ebook', description: '', price, ...extra,
+});
+
+const line = (p: Product, quantity = 1, extra: Partial<CartItem> = {}): CartItem => {
+  const { fileUrl, variants, ...item } = p;
+  return { ...item, quantity, ...extra };
+};
+
+const TEMPLATE = product('t', 50000, { variants: [{ id: 'personal', name: 'Personal', price: 50000 }, { id: 'pro', name: 'Pro', price: 150000, discountPrice: 120000, fileUrl: 'https://files/pro.zip' }] });
+
+describe('CartService.merge', () => {
+  it('adds guest lines the saved cart does not have', () => {
+    const saved = [line(product('a', 1000))];
+    const guest = [line(product('b', 2000), 2)];
+    expect(CartService.merge(saved, guest).map(i => [i.id, i.quantity])).toEqual([['a', 1], ['b', 2]]);
+  });
+
+  it('adds up quantities of the same line', () => {
+    expect(CartService.merge([line(product('a', 1000), 2)], [line(product('a', 1000), 3)])[0].quantity).toBe(5);
+  });
+
+  it('keeps the quantity within the product limit', () => {
+    const single = product('s', 1000, { singleLicense: true });
+    expect(CartService.merge([line(single)], [line(single)])[0].quantity).toBe(1);
+    expect(CartService.merge([line(product('a', 1000), 90)], [line(product('a', 1000), 20)])[0].quantity).toBe(MAX_CART_QUANTITY);
+  });
+
+  it('treats each variant as its own line', () => {
+    const merged = CartService.merge([line(TEMPLATE, 1, { variantId: 'personal' })], [line(TEMPLATE, 1, { variantId: 'pro' })]);
+    expect(merged.map(CartService.lineKey)).toEqual(['t:personal', 't:pro']);
+  });
+});
+
+describe('CartService.revalidate', () => {
+  it('leaves lines that still match the catalog unchanged', () => {
+    const cart = [line(product('a', 1000), 2)];
+    expect(CartService.revalidate(cart, [product('a', 1000)])).toEqual({ items: cart, changes: [] });
+  });
+
+  it('takes the new price and reports it', () => {
+    const { items, changes } = CartService.revalidate([line(product('a', 1000), 2)], [product('a', 1500, { discountPrice: 1200 })]);
+    expect(items).toEqual([line(product('a', 1500, { discountPrice: 1200 }), 2)]);
+    expect(changes).toEqual([{ key: 'a', name: 'Produk a', oldPrice: 1000, newPrice: 1200 }]);
+  });
+
+  it('drops products that are no longer sold', () => {
+    const { items, changes } = CartService.revalidate([line(product('a', 1000)), line(product('b', 2000))], [product('b', 2000)]);
+    expect(items.map(i => i.id)).toEqual(['b']);
+    expect(changes).toEqual([{ key: 'a', name: 'Produk a', oldPrice: 1000, newPrice: null }]);
+  });
+
+  it('prices variant lines from their variant, without the file', () => {
+    const { items, changes } = CartService.revalidate([line(TEMPLATE, 1, { variantId: 'pro', variantName: 'Pro', price: 150000 })], [TEMPLATE]);
+    expect(items[0]).toMatchObject({ variantId: 'pro', price: 150000, discountPrice: 120000 });
+    expect(items[0]).not.toHaveProperty('fileUrl');
+    expect(changes).toEqual([{ key: 't:pro', name: 'Produk t (Pro)', oldPrice: 150000, newPrice: 120000 }]);
+  });
+
+  it('drops lines whose variant was removed, or that predate the variants', () => {
+    const { items, changes } = CartService.revalidate([line(TEMPLATE, 1, { variantId: 'extended', variantName: 'Extended' }), line(TEMPLATE)], [TEMPLATE]);
+    expect(items).toEqual([]);
+    expect(changes.map(c => [c.key, c.newPrice])).toEqual([['t:extended', null], ['t', null]]);
+  });
+
+  it('caps quantities that the product no longer allows', () => {
+    const { items } = CartService.revalidate([line(product('a', 1000), 3)], [product('a', 1000, { singleLicense: true })]);
+    expect(items[0].quantity).toBe(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { CartItem, Product, ProductVariant, User } from '../types';
+import { ProductService } from './productService';
+
+// Upper bound for products sold per seat/copy
+export const MAX_CART_QUANTITY = 99;
+
+// A cart line whose product changed (or disappeared) since it was added
+export interface CartChange {
+  key: string;
+  name: string;
+  oldPrice: number;
+  newPrice: number | null; // null: no longer sold, the line was removed
+}
+
+// The deliverable never travels with the cart/order; it is released via a download token once paid.
+// A variant line carries the variant's price and is told apart by variantId.
+const toCartItem = (product: Product, quantity: number, variant?: ProductVariant): CartItem => {
+  const { fileUrl, variants, ...item } = product;
+  return variant
+    ? { ...item, price: variant.price, discountPrice: variant.discountPrice, variantId: variant.id, variantName: variant.name, quantity }
+    : { ...item, quantity };
+};
+
+const displayName = (item: Pick<CartItem, 'name' | 'variantName'>) => item.variantName ? `${item.name} (${item.variantName})` : item.name;
+
+export const CartService = {
+  // Carts are kept per account; visitors share the browser's guest cart
+  ownerKey: (user: User | null): string => user?.id ? `${user.role}:${user.id}` : 'guest',
+
+  // Identifies a line: each variant of a product is its own line
+  lineKey: (item: Pick<CartItem, 'id' | 'variantId'>): string => item.variantId ? `${item.id}:${item.variantId}` : item.id,
+
+  displayName,
+
+  maxQuantity: (product: Pick<Product, 'singleLicense'>): number => product.singleLicense ? 1 : MAX_CART_QUANTITY,
+
+  clamp: (product: Pick<Product, 'singleLicense'>, quantity: number): number =>
+    Math.min(CartService.maxQuantity(product), Math.max(1, Math.floor(quantity) || 1)),
+
+  // Returns the same array when the line can't take another unit (or the variant doesn't exist)
+  add: (cart: CartItem[], product: Product, variantId?: string): CartItem[] => {
+    const variant = ProductService.variant(product, variantId);
+    if (ProductService.hasVariants(product) && !variant) return cart;
+    const key = CartService.lineKey({ id: product.id, variantId: variant?.id });
+    const existing = cart.find(item => CartService.lineKey(item) === key);
+    if (!existing) return [...cart, toCartItem(product, 1, variant)];
+    const quantity = CartService.clamp(product, existing.quantity + 1);
+    return quantity === existing.quantity ? cart : cart.map(item => CartService.lineKey(item) === key ? { ...item, quantity } : item);
+  },
+
+  setQuantity: (cart: CartItem[], key: string, quantity: number): CartItem[] =>
+    cart.map(item => CartService.lineKey(item) === key ? { ...item, quantity: CartService.clamp(item, quantity) } : item),
+
+  remove: (cart: CartItem[], key: string): CartItem[] => cart.filter(item => CartService.lineKey(item) !== key),
+
+  // A guest cart joining an account's saved cart: quantities add up, within each product's limit
+  merge: (saved: CartItem[], guest: CartItem[]): CartItem[] => guest.reduce((acc, item) => {
+    const existing = acc.find(x => CartService.lineKey(x) === CartService.lineKey(item));
+    return existing
+      ? acc.map(x => x === existing ? { ...x, quantity: CartService.clamp(x, x.quantity + item.quantity) } : x)
+      : [...acc, item];
+  }, saved),
+
+  // Brings every line up to date with the catalog. Lines keep their quantity (re-capped), products or
+  // variants that were removed drop out, and each price difference is reported so the buyer can be told.
+  revalidate: (cart: CartItem[], products: Product[]): { items: CartItem[]; changes: CartChange[] } => {
+    const changes: CartChange[] = [];
+    const items = cart.flatMap(item => {
+      const product = products.find(p => p.id === item.id);
+      const variant = product && ProductService.variant(product, item.variantId);
+      // A line added before the product got variants can't say which license it is
+      if (!product || (item.variantId ? !variant : ProductService.hasVariants(product))) {
+        changes.push({ key: CartService.lineKey(item), name: displayName(item), oldPrice: ProductService.unitPrice(item), newPrice: null });
+        return [];
+      }
+      const current = toCartItem(product, CartService.clamp(product, item.quantity), variant);
+      const oldPrice = ProductService.unitPrice(item);
+      const newPrice = ProductService.unitPrice(current);
+      if (newPrice !== oldPrice) changes.push({ key: CartService.lineKey(item), name: displayName(current), oldPrice, newPrice });
+      return [current];
+    });
+    return { items, changes };
+  },
+};
@@ -0,0 +1,106 @@
+import { Order, Product } from '../types';
+import { ProductService } from './productService';
+
+export type CatalogSort = 'default' | 'newest' | 'popular' | 'price_asc' | 'price_desc';
+
+export const CATALOG_SORTS: { value: CatalogSort; label: string }[] = [
+  { value: 'default', label: 'Paling Relevan' },
+  { value: 'newest', label: 'Terbaru' },
+  { value: 'popular', label: 'Terpopuler' },
+  { value: 'price_asc', label: 'Harga Terendah' },
+  { value: 'price_desc', label: 'Harga Tertinggi' },
+];
+
+// What the storefront shows; mirrored in the query string so a view can be shared
+export interface CatalogQuery {
+  q: string;
+  category: string; // 'All' for every category
+  sort: CatalogSort;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+// Query-string names; anything else (e.g. ref) is left as it is
+const PARAMS = { q: 'q', category: 'category', sort: 'sort', minPrice: 'min', maxPrice: 'max' };
+
+// Case- and accent-insensitive, so "ebook" finds "E-book" and "cafe" finds "Café"
+const normalize = (text: string) => (text || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const price = (value: string | null): number | undefined => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+// Also matches with the separators removed ("ebook" in "e book")
+const contains = (field: string, term: string) => field.includes(term) || field.replace(/ /g, '').includes(term);
+
+// Name hits count most, then category, then description
+const score = (product: Product, terms: string[]): number => {
+  const name = normalize(product.name);
+  const category = normalize(product.category);
+  const description = normalize(product.description);
+  let total = 0;
+  for (const term of terms) {
+    const hit = (contains(name, term) ? 3 : 0) + (contains(category, term) ? 2 : 0) + (contains(description, term) ? 1 : 0);
+    if (!hit) return 0; // Every term must match somewhere
+    total += hit;
+  }
+  return total;
+};
+
+export const CatalogService = {
+  parse: (params: URLSearchParams): CatalogQuery => {
+    const sort = params.get(PARAMS.sort) as CatalogSort;
+    return {
+      q: params.get(PARAMS.q) || '',
+      category: params.get(PARAMS.category) || 'All',
+      sort: CATALOG_SORTS.some(s => s.value === sort) ? sort : 'default',
+      minPrice: price(params.get(PARAMS.minPrice)),
+      maxPrice: price(params.get(PARAMS.maxPrice)),
+    };
+  },
+
+  // Defaults are left out to keep links short
+  toParams: (query: CatalogQuery, current: URLSearchParams): URLSearchParams => {
+    const next = new URLSearchParams(current);
+    const set = (key: string, value: string | number | undefined, isDefault: boolean) => isDefault || value === undefined ? next.delete(key) : next.set(key, String(value));
+    set(PARAMS.q, query.q, !query.q.trim());
+    set(PARAMS.category, query.category, query.category === 'All');
+    set(PARAMS.sort, query.sort, query.sort === 'default');
+    set(PARAMS.minPrice, query.minPrice, query.minPrice === undefined);
+    set(PARAMS.maxPrice, query.maxPrice, query.maxPrice === undefined);
+    return next;
+  },
+
+  isFiltered: (query: CatalogQuery): boolean => !!(query.q || query.category !== 'All' || query.minPrice !== undefined || query.maxPrice !== undefined),
+
+  // Units sold per product from the orders this session can see; bundles count for their items too
+  salesCount: (orders: Order[]): Map<string, number> => {
+    const sales = new Map<string, number>();
+    const add = (id: string, quantity: number) => sales.set(id, (sales.get(id) || 0) + quantity);
+    orders.filter(o => o.status !== 'CANCELLED').forEach(o => (o.items || []).forEach(item => {
+      add(item.id, item.quantity);
+      (item.bundleItems || []).forEach(b => add(b.productId, item.quantity));
+    }));
+    return sales;
+  },
+
+  search: (products: Product[], query: CatalogQuery, sales: Map<string, number> = new Map()): Product[] => {
+    const terms = normalize(query.q).split(' ').filter(Boolean);
+    const scored = products
+      .filter(p => query.category === 'All' || p.category === query.category)
+      .filter(p => (query.minPrice === undefined || ProductService.unitPrice(p) >= query.minPrice) && (query.maxPrice === undefined || ProductService.unitPrice(p) <= query.maxPrice))
+      .map((product, index) => ({ product, index, score: terms.length ? score(product, terms) : 0 }))
+      .filter(r => !terms.length || r.score > 0);
+
+    const compare: Record<CatalogSort, (a: typeof scored[number], b: typeof scored[number]) => number> = {
+      default: (a, b) => b.score - a.score,
+      newest: (a, b) => (b.product.createdAt || '').localeCompare(a.product.createdAt || '') || b.index - a.index,
+      popular: (a, b) => Number(!!b.product.isPopular) - Number(!!a.product.isPopular) || (sales.get(b.product.id) || 0) - (sales.get(a.product.id) || 0),
+      price_asc: (a, b) => ProductService.unitPrice(a.product) - ProductService.unitPrice(b.product),
+      price_desc: (a, b) => ProductService.unitPrice(b.product) - ProductService.unitPrice(a.product),
+    };
+    // Ties keep the catalog order
+    return scored.sort((a, b) => compare[query.sort](a, b) || a.index - b.index).map(r => r.product);
+  },
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Order, PaymentMethod, Product, Voucher } from '../types';
+import { CheckoutCatalog, CheckoutRequest, CheckoutService, PRICE_CHANGED } from './checkoutService';
+
+const product = (id: string, price: number, extra: Partial<Product> = {}): Product => ({
+  id, name: `Produk ${id}`, image: '', category: 'Ebook', description: '', price, ...extra,
+});
+
+const line = (p: Product, quantity = 1, extra: Partial<CartItem> = {}): CartItem => ({ ...p, quantity, ...extra });
+
+const BCA: PaymentMethod = { id: 'pm1', name: 'BCA', type: 'BANK', accountNumber: '123', accountName: 'Toko' };
+const HEMAT: Voucher = { id: 'v1', code: 'HEMAT', type: 'FIXED', value: 10000, isActive: true };
+
+const catalog = (extra: Partial<CheckoutCatalog> = {}): CheckoutCatalog => ({
+  products: [product('a', 100000), product('b', 50000)],
+  paymentMethods: [BCA],
+  orders: [],
+  settings: { taxRate: 11, taxInclusive: false, taxLabel: 'PPN' },
+  ...extra,
+});
+
+const request = (extra: Partial<CheckoutRequest> = {}): CheckoutRequest => ({
+  orderId: 'o1', items: [line(product('a', 100000), 2)], paymentMethodId: 'pm1', total: 222000, ...extra,
+});
+
+const buyer = { id: 'c1', name: 'Budi', phone: '0812' };
+const now = new Date('2026-03-01T00:00:00.000Z');
+const place = (req: CheckoutRequest, cat = catalog()) => CheckoutService.place(req, cat, buyer, 'k1', now);
+
+describe('CheckoutService.place', () => {
+  it('builds the pending order from the catalog prices', () => {
+    const { order, commission } = place(request());
+    expect(order).toMatchObject({ id: 'o1', customerId: 'c1', customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'BCA', status: 'PENDING', total: 222000, taxAmount: 22000, date: now.toISOString() });
+    expect(order.pricing?.lines.map(l => l.unitPrice)).toEqual([100000]);
+    expect(commission).toBeUndefined();
+  });
+
+  it('refuses a total the catalog does not give', () => {
+    expect(() => place(request({ total: 1000 }))).toThrow(PRICE_CHANGED);
+  });
+
+  it('refuses lines priced differently from the catalog', () => {
+    const cheap = line(product('a', 1000), 2);
+    expect(() => place(request({ items: [cheap], total: 2220 }))).toThrow(PRICE_CHANGED);
+  });
+
+  it('refuses products that are no longer sold', () => {
+    expect(() => place(request({ items: [line(product('x', 100000))], total: 111000 }))).toThrow(PRICE_CHANGED);
+  });
+
+  it('needs items and an active payment method', () => {
+    expect(() => place(request({ items: [] }))).toThrow('Keranjang kosong');
+    expect(() => place(request({ paymentMethodId: 'pm2' }))).toThrow('Metode pembayaran tidak tersedia');
+    expect(() => place(request(), catalog({ paymentMethods: [{ ...BCA, isActive: false }] }))).toThrow('Metode pembayaran tidak tersedia');
+  });
+
+  describe('vouchers', () => {
+    it('applies the catalog voucher', () => {
+      const { order } = place(request({ voucherId: 'v1', total: 210900 }), catalog({ voucher: HEMAT }));
+      expect(order).toMatchObject({ voucherId: 'v1', voucherCode: 'HEMAT', discountAmount: 10000, total: 210900 });
+    });
+
+    it('refuses a voucher that is not in the catalog', () => {
+      expect(() => place(request({ voucherId: 'v1', total: 210900 }))).toThrow('Voucher tidak valid');
+    });
+
+    it('refuses a voucher whose quota is used up', () => {
+      const cat = catalog({ voucher: { ...HEMAT, usageLimit: 5, usedCount: 5 } });
+      expect(() => place(request({ voucherId: 'v1', total: 210900 }), cat)).toThrow('Kuota voucher sudah habis');
+    });
+
+    it('refuses a voucher the buyer already used up', () => {
+      const used: Order = { id: 'o0', customerId: 'c1', items: [], total: 0, customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'BCA', status: 'PAID', date: '2026-01-01T00:00:00.000Z', voucherId: 'v1', voucherCode: 'HEMAT' };
+      const cat = catalog({ voucher: { ...HEMAT, perCustomerLimit: 1 }, orders: [used] });
+      expect(() => place(request({ voucherId: 'v1', total: 210900 }), cat)).toThrow('Anda sudah mencapai batas pemakaian voucher ini');
+    });
+  });
+
+  it('opens a pending commission for the referring affiliate', () => {
+    const { order, commission } = place(request({ referralCode: 'BUDI' }), catalog({ affiliate: { id: 'aff1', code: 'BUDI', commissionRate: 10 } }));
+    expect(order).toMatchObject({ referralCode: 'BUDI', affiliateId: 'aff1' });
+    expect(commission).toMatchObject({ id: 'k1', affiliateId: 'aff1', orderId: 'o1', baseAmount: 200000, rate: 10, amount: 20000, status: 'PENDING' });
+  });
+});
@@ -0,0 +1,72 @@
+import { Affiliate, CartItem, Commission, Order, PaymentMethod, Product, StoreSettings, Voucher } from '../types';
+import { CartService } from './cartService';
+import { VoucherService } from './voucherService';
+import { PricingService } from './pricingService';
+import { CommissionService } from './commissionService';
+
+// What the browser sends to place an order. Prices are looked up again in the catalog, never taken from here.
+export interface CheckoutRequest {
+  orderId: string;
+  items: CartItem[];
+  paymentMethodId: string;
+  voucherId?: string;
+  referralCode?: string;
+  total: number; // What the buyer was shown; the order is refused when the catalog gives another total
+}
+
+export interface CheckoutCatalog {
+  products: Product[];
+  paymentMethods: PaymentMethod[];
+  voucher?: Voucher; // The requested one, with usedCount covering every customer's orders
+  orders: Order[]; // Redemptions for the voucher limits; the buyer's own are enough
+  affiliate?: Pick<Affiliate, 'id' | 'code' | 'commissionRate'>; // Active affiliate of the referral code
+  settings: Pick<StoreSettings, 'taxRate' | 'taxInclusive' | 'taxLabel'>;
+}
+
+export interface PlacedOrder {
+  order: Order;
+  commission?: Commission;
+}
+
+export const PRICE_CHANGED = 'Harga atau stok berubah. Muat ulang keranjang dan periksa kembali total belanja Anda.';
+
+export const CheckoutService = {
+  // Builds the pending order (and its commission) from the catalog alone, the same way in the browser and on the
+  // server (place-order edge function). Throws with the reason for the buyer when it can't be placed.
+  place: (request: CheckoutRequest, catalog: CheckoutCatalog, customer: { id?: string; name: string; phone: string }, commissionId: string, now = new Date()): PlacedOrder => {
+    if (!request.items.length) throw new Error('Keranjang kosong');
+    const paymentMethod = catalog.paymentMethods.find(m => m.id === request.paymentMethodId && m.isActive !== false);
+    if (!paymentMethod) throw new Error('Metode pembayaran tidak tersedia');
+    const { items, changes } = CartService.revalidate(request.items, catalog.products);
+    if (changes.length) throw new Error(PRICE_CHANGED);
+
+    const voucher = request.voucherId ? catalog.voucher : undefined;
+    if (request.voucherId) {
+      const check = VoucherService.check(voucher, { items, orders: catalog.orders, customer: { id: customer.id, phone: customer.phone }, now });
+      if (!check.valid) throw new Error(check.reason);
+    }
+    const pricing = PricingService.quote({ items, voucher, referral: catalog.affiliate, tax: PricingService.taxConfig(catalog.settings) });
+    if (pricing.total !== request.total) throw new Error(PRICE_CHANGED);
+
+    const order: Order = {
+      id: request.orderId,
+      customerId: customer.id,
+      customerName: customer.name,
+      customerWhatsapp: customer.phone,
+      items,
+      total: pricing.total,
+      paymentMethod: paymentMethod.name,
+      status: 'PENDING',
+      date: now.toISOString(),
+      voucherCode: voucher?.code,
+      voucherId: voucher?.id,
+      discountAmount: pricing.discount,
+      taxAmount: pricing.tax,
+      pricing,
+      referralCode: catalog.affiliate?.code,
+      affiliateId: catalog.affiliate?.id,
+    };
+    // Commission stays pending in the ledger until the order is paid
+    return { order, commission: catalog.affiliate ? CommissionService.create(order, catalog.affiliate, commissionId) : undefined };
+  },
+};
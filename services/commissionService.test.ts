@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Commission, Order, OrderStatus } from '../types';
+import { CommissionService } from './commissionService';
+
+const order = (status: OrderStatus): Order => ({
+  id: 'o1', items: [], total: 100000, customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'BCA', status, date: '2026-01-01T00:00:00.000Z',
+});
+
+const entry = (status: Commission['status'], extra: Partial<Commission> = {}): Commission => ({
+  id: 'c1', affiliateId: 'a', orderId: 'o1', baseAmount: 100000, rate: 10, amount: 10000, status, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z', ...extra,
+});
+
+describe('CommissionService.applyOrderStatus', () => {
+  it('approves the entry once the order is paid', () => {
+    expect(CommissionService.applyOrderStatus([entry('PENDING')], order('PAID'))[0].status).toBe('APPROVED');
+  });
+
+  it('voids the entry of a cancelled order', () => {
+    expect(CommissionService.applyOrderStatus([entry('PENDING')], order('CANCELLED'))[0].status).toBe('VOID');
+    expect(CommissionService.applyOrderStatus([entry('APPROVED')], order('CANCELLED'))[0].status).toBe('VOID');
+  });
+
+  it('releases a voided entry from the draft payout it was reserved for', () => {
+    const [voided] = CommissionService.applyOrderStatus([entry('APPROVED', { payoutId: 'p1' })], order('CANCELLED'));
+    expect(voided).toMatchObject({ status: 'VOID', payoutId: undefined });
+  });
+
+  it('keeps the reservation when the entry stays payable', () => {
+    const reserved = entry('APPROVED', { payoutId: 'p1' });
+    expect(CommissionService.applyOrderStatus([reserved], order('COMPLETED'))[0]).toBe(reserved);
+  });
+
+  it('never changes paid entries or other orders', () => {
+    const paid = entry('PAID', { payoutId: 'p1' });
+    const other = entry('PENDING', { id: 'c2', orderId: 'o2' });
+    expect(CommissionService.applyOrderStatus([paid, other], order('CANCELLED'))).toEqual([paid, other]);
+  });
+});
@@ -0,0 +1,71 @@
+import { Affiliate, Commission, CommissionStatus, Order } from '../types';
+import { PricingService } from './pricingService';
+import { OrderService } from './orderService';
+
+export const COMMISSION_STATUS_LABELS: Record<CommissionStatus, string> = {
+  PENDING: 'Pending',
+  APPROVED: 'Disetujui',
+  VOID: 'Batal',
+  PAID: 'Dibayar',
+};
+
+export const COMMISSION_STATUS_STYLES: Record<CommissionStatus, string> = {
+  PENDING: 'bg-yellow-500/20 text-yellow-400',
+  APPROVED: 'bg-green-500/20 text-green-400',
+  VOID: 'bg-red-500/20 text-red-400',
+  PAID: 'bg-blue-500/20 text-blue-400',
+};
+
+// Statuses that count toward an affiliate's earnings
+const EARNED: CommissionStatus[] = ['APPROVED', 'PAID'];
+
+export const CommissionService = {
+  // Commission is earned on what the buyer actually pays, i.e. after voucher discounts and without tax
+  create: (order: Order, affiliate: Pick<Affiliate, 'id' | 'commissionRate'>, id: string): Commission => {
+    const now = new Date().toISOString();
+    const baseAmount = PricingService.commissionBase(order);
+    return {
+      id,
+      affiliateId: affiliate.id,
+      orderId: order.id,
+      baseAmount,
+      rate: affiliate.commissionRate,
+      amount: PricingService.commission(baseAmount, affiliate.commissionRate),
+      status: 'PENDING',
+      createdAt: now,
+      updatedAt: now,
+    };
+  },
+
+  // Follows the order: paid orders approve their commission, cancelled orders void it.
+  // Commissions already paid out are left alone.
+  statusForOrder: (current: CommissionStatus, order: Pick<Order, 'status'>): CommissionStatus => {
+    if (current === 'PAID' || current === 'VOID') return current;
+    if (order.status === 'CANCELLED') return 'VOID';
+    if (OrderService.isPaid(order)) return 'APPROVED';
+    return current;
+  },
+
+  // A voided entry also leaves the draft payout it was reserved for; PayoutService.reconcileDrafts
+  // then takes it out of that payout. Same rule as the Tripay callback.
+  applyOrderStatus: (entries: Commission[], order: Order): Commission[] => entries.map(c => {
+    if (c.orderId !== order.id) return c;
+    const status = CommissionService.statusForOrder(c.status, order);
+    if (status === c.status) return c;
+    return { ...c, status, payoutId: status === 'VOID' ? undefined : c.payoutId, updatedAt: new Date().toISOString() };
+  }),
+
+  sum: (entries: Commission[], affiliateId: string, statuses: CommissionStatus[]): number =>
+    entries.filter(c => c.affiliateId === affiliateId && statuses.includes(c.status)).reduce((sum, c) => sum + c.amount, 0),
+
+  earnings: (entries: Commission[], affiliateId: string): number => CommissionService.sum(entries, affiliateId, EARNED),
+
+  // totalEarnings is derived from the ledger, never incremented directly
+  withEarnings: (affiliates: Affiliate[], entries: Commission[]): Affiliate[] => {
+    const next = affiliates.map(a => {
+      const totalEarnings = CommissionService.earnings(entries, a.id);
+      return totalEarnings === a.totalEarnings ? a : { ...a, totalEarnings };
+    });
+    return next.some((a, i) => a !== affiliates[i]) ? next : affiliates;
+  },
+};
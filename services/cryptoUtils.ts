@@ -0,0 +1,28 @@
+// WebCrypto helpers shared by the browser app and the Supabase edge functions.
+
+const enc = new TextEncoder();
+
+export const toHex = (buffer: ArrayBuffer): string => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hmacSha256 = async (secret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, enc.encode(message)));
+};
+
+// Constant-time comparison so signature checks don't leak timing
+export const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const randomHex = (bytes = 32): string => toHex(crypto.getRandomValues(new Uint8Array(bytes)).buffer);
+
+export const base64UrlEncode = (text: string): string =>
+  btoa(String.fromCharCode(...enc.encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const base64UrlDecode = (value: string): string => {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4);
+  return new TextDecoder().decode(Uint8Array.from(atob(b64), c => c.charCodeAt(0)));
+};
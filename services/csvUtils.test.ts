@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv, unguardCell } from './csvUtils';
+
+describe('toCsv', () => {
+  it('quotes cells with delimiters, quotes or line breaks', () => {
+    expect(toCsv(['a', 'b'], [['x,y', 'say "hi"'], ['line\nbreak', null]])).toBe('a,b\r\n"x,y","say ""hi"""\r\n"line\nbreak",');
+  });
+
+  it('writes formula-like text as text', () => {
+    const csv = toCsv(['v'], [['=HYPERLINK("http://evil")'], ['+62812'], ['-1+1'], ['@SUM(A1)'], ['\tcmd'], ['\r=1']]);
+    expect(csv.split('\r\n').slice(1, 5)).toEqual([`"'=HYPERLINK(""http://evil"")"`, "'+62812", "'-1+1", "'@SUM(A1)"]);
+    expect(parseCsv(csv).slice(1).map(([cell]) => cell)).toEqual(["'=HYPERLINK(\"http://evil\")", "'+62812", "'-1+1", "'@SUM(A1)", "'\tcmd", "'\r=1"]);
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(toCsv(['n', 't'], [[-5000, 'Budi'], [0, 'a=b']])).toBe('n,t\r\n-5000,Budi\r\n0,a=b');
+  });
+});
+
+describe('unguardCell', () => {
+  it('restores text guarded by toCsv', () => {
+    expect(unguardCell("'=1+1")).toBe('=1+1');
+    expect(unguardCell("'+62812")).toBe('+62812');
+  });
+
+  it('keeps other apostrophes', () => {
+    expect(unguardCell("'90s")).toBe("'90s");
+    expect(unguardCell("Jum'at")).toBe("Jum'at");
+  });
+});
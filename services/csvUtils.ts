@@ -0,0 +1,59 @@
+// Minimal RFC 4180 CSV writer and reader for spreadsheet/bank exports and imports
+
+// Text a spreadsheet would run as a formula (CSV injection); such cells are written with a leading '
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: unknown): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Drops the ' that toCsv put in front of formula-like text, for cells read back from an export
+export const unguardCell = (text: string): string => text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+
+export const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+export const downloadCsv = (filename: string, csv: string) => {
+  // BOM so Excel opens UTF-8 names correctly
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Excel in some locales (id-ID among them) saves with semicolons; tabs come from pasted sheets
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.reduce((best, c) => c.n > best.n ? c : best).d;
+};
+
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') quoted = true;
+    else if (ch === delimiter) { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else cell += ch;
+  }
+  if (cell !== '' || row.length) { row.push(cell); rows.push(row); }
+  // Blank lines (often trailing) carry no data
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
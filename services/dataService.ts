@@ -1,5 +1,7 @@
 
-import { Product, StoreSettings, PaymentMethod, Order, Voucher, Affiliate, Customer } from '../types';
+import { Product, CartItem, StoreSettings, PaymentMethod, Order, Voucher, Affiliate, Customer, DownloadLog, ReferralClick, AffiliatePayout, Commission, PayoutBatch, ProductReview } from '../types';
+import type { OutboxEntry } from '../repositories/outbox';
+import { randomHex } from './cryptoUtils';
 
 const STORAGE_KEYS = {
   PRODUCTS: 'ds_products',
@@ -9,6 +11,15 @@ const STORAGE_KEYS = {
   VOUCHERS: 'ds_vouchers',
   AFFILIATES: 'ds_affiliates',
   CUSTOMERS: 'ds_customers',
+  DOWNLOADS: 'ds_downloads',
+  REFERRAL_CLICKS: 'ds_referral_clicks',
+  PAYOUTS: 'ds_payouts',
+  COMMISSIONS: 'ds_commissions',
+  PAYOUT_BATCHES: 'ds_payout_batches',
+  REVIEWS: 'ds_reviews',
+  SESSION: 'ds_session',
+  OUTBOX: 'ds_outbox',
+  CARTS: 'ds_carts',
 };
 
 // Initial Data
@@ -21,7 +32,7 @@ const initialSettings: StoreSettings = {
   logoUrl: 'https://picsum.photos/id/42/200/200',
   // Admin Credentials Default
   adminUsername: 'admin',
-  adminPassword: 'admin',
+  adminPassword: 'pbkdf2$210000$WvIDOm2g2uC4uBPmH9mvbA==$Z4Xm1kTxVJVIjsetXi9oK8Z4eISS7bKPjyMFEGAJQE0=', // "admin"
   // Inject Environment Variables automatically
   supabaseUrl: (import.meta as any).env?.VITE_SUPABASE_URL || '',
   supabaseKey: (import.meta as any).env?.VITE_SUPABASE_ANON_KEY || '',
@@ -39,6 +50,7 @@ const initialProducts: Product[] = [
   {
     id: '550e8400-e29b-41d4-a716-446655440001',
     name: 'Premium UI Kit',
+    slug: 'premium-ui-kit',
     category: 'Design',
     price: 150000,
     discountPrice: 99000,
@@ -49,6 +61,7 @@ const initialProducts: Product[] = [
   {
     id: '550e8400-e29b-41d4-a716-446655440002',
     name: 'React Dashboard Template',
+    slug: 'react-dashboard-template',
     category: 'Code',
     price: 350000,
     discountPrice: 299000,
@@ -59,6 +72,7 @@ const initialProducts: Product[] = [
   {
     id: '550e8400-e29b-41d4-a716-446655440003',
     name: 'E-book: Mastering React',
+    slug: 'e-book-mastering-react',
     category: 'Education',
     price: 75000,
     image: 'https://picsum.photos/id/24/400/400',
@@ -77,9 +91,9 @@ const initialAffiliates: Affiliate[] = [
     id: '550e8400-e29b-41d4-a716-446655440006', 
     name: 'Partner Satu', 
     code: 'PARTNER1', 
-    password: '123', 
+    password: 'pbkdf2$210000$VdUMvgY5HpdBC0rkHWkH9Q==$GIg1saqda8uNJPtoLg1HiFB5e3/JR/YmjCDCHXV8ktc=', // "123"
     commissionRate: 10, 
-    totalEarnings: 150000, 
+    totalEarnings: 0, 
     bankDetails: 'BCA 123456', 
     isActive: true 
   }
@@ -108,7 +122,15 @@ const set = <T>(key: string, val: T): void => {
 };
 
 export const DataService = {
-  getSettings: (): StoreSettings => get(STORAGE_KEYS.SETTINGS, initialSettings),
+  getSettings: (): StoreSettings => {
+    const settings = { ...get(STORAGE_KEYS.SETTINGS, initialSettings) };
+    // Download tokens need a stable signing key, so create it once and keep it
+    if (!settings.downloadSecret) {
+      settings.downloadSecret = randomHex();
+      set(STORAGE_KEYS.SETTINGS, settings);
+    }
+    return settings;
+  },
   saveSettings: (settings: StoreSettings) => set(STORAGE_KEYS.SETTINGS, settings),
 
   getProducts: (): Product[] => get(STORAGE_KEYS.PRODUCTS, initialProducts),
@@ -133,4 +155,52 @@ export const DataService = {
 
   getCustomers: (): Customer[] => get(STORAGE_KEYS.CUSTOMERS, []),
   saveCustomers: (customers: Customer[]) => set(STORAGE_KEYS.CUSTOMERS, customers),
+
+  getDownloadLogs: (): DownloadLog[] => get(STORAGE_KEYS.DOWNLOADS, []),
+  saveDownloadLog: (log: DownloadLog) => {
+    const logs = get<DownloadLog[]>(STORAGE_KEYS.DOWNLOADS, []);
+    set(STORAGE_KEYS.DOWNLOADS, [log, ...logs]);
+  },
+  saveDownloadLogs: (logs: DownloadLog[]) => set(STORAGE_KEYS.DOWNLOADS, logs),
+
+  getReferralClicks: (): ReferralClick[] => get(STORAGE_KEYS.REFERRAL_CLICKS, []),
+  saveReferralClick: (click: ReferralClick) => {
+    const clicks = get<ReferralClick[]>(STORAGE_KEYS.REFERRAL_CLICKS, []);
+    set(STORAGE_KEYS.REFERRAL_CLICKS, [click, ...clicks]);
+  },
+  saveReferralClicks: (clicks: ReferralClick[]) => set(STORAGE_KEYS.REFERRAL_CLICKS, clicks),
+
+  getCommissions: (): Commission[] => get(STORAGE_KEYS.COMMISSIONS, []),
+  saveCommissions: (commissions: Commission[]) => set(STORAGE_KEYS.COMMISSIONS, commissions),
+
+  getPayouts: (): AffiliatePayout[] => get(STORAGE_KEYS.PAYOUTS, []),
+  savePayouts: (payouts: AffiliatePayout[]) => set(STORAGE_KEYS.PAYOUTS, payouts),
+
+  getPayoutBatches: (): PayoutBatch[] => get(STORAGE_KEYS.PAYOUT_BATCHES, []),
+  savePayoutBatches: (batches: PayoutBatch[]) => set(STORAGE_KEYS.PAYOUT_BATCHES, batches),
+
+  getReviews: (): ProductReview[] => get(STORAGE_KEYS.REVIEWS, []),
+  saveReviews: (reviews: ProductReview[]) => set(STORAGE_KEYS.REVIEWS, reviews),
+
+  // Local-mode session token (see AuthService.createLocalToken)
+  getSession: (): string | null => get<string | null>(STORAGE_KEYS.SESSION, null),
+  saveSession: (token: string) => set(STORAGE_KEYS.SESSION, token),
+  clearSession: () => localStorage.removeItem(STORAGE_KEYS.SESSION),
+
+  // Cloud writes not yet confirmed by Supabase (see OutboxService)
+  getOutbox: (): OutboxEntry[] => get(STORAGE_KEYS.OUTBOX, []),
+  saveOutbox: (entries: OutboxEntry[]) => set(STORAGE_KEYS.OUTBOX, entries),
+
+  // Shopping carts by owner (see CartService.ownerKey)
+  getCart: (owner: string): CartItem[] => get<Record<string, CartItem[]>>(STORAGE_KEYS.CARTS, {})[owner] || [],
+  saveCart: (owner: string, items: CartItem[]) => {
+    const carts = get<Record<string, CartItem[]>>(STORAGE_KEYS.CARTS, {});
+    if (items.length) carts[owner] = items; else delete carts[owner];
+    set(STORAGE_KEYS.CARTS, carts);
+  },
+
+  // Drops the cached store data; the session, pending cloud writes and carts are not store data and stay
+  clearStoreData: () => Object.values(STORAGE_KEYS)
+    .filter(key => key !== STORAGE_KEYS.SESSION && key !== STORAGE_KEYS.OUTBOX && key !== STORAGE_KEYS.CARTS)
+    .forEach(key => localStorage.removeItem(key)),
 };
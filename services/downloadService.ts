@@ -0,0 +1,56 @@
+import type { DownloadLog, Order, StoreSettings } from '../types';
+import { hmacSha256, safeEqual, base64UrlEncode, base64UrlDecode } from './cryptoUtils';
+import { OrderService } from './orderService';
+
+export const DEFAULT_DOWNLOAD_TTL_MINUTES = 60;
+export const DEFAULT_DOWNLOAD_LIMIT = 5;
+
+// One downloadable file of an order: a product (variant), or each product in a bundle
+export interface DownloadGrant {
+  productId: string;
+  variantId?: string;
+  name: string;
+}
+
+export interface DownloadTokenPayload {
+  orderId: string;
+  productId: string;
+  variantId?: string;
+  expiresAt: number; // epoch ms
+}
+
+export const DownloadService = {
+  ttlMinutes: (settings: Pick<StoreSettings, 'downloadLinkTtlMinutes'>): number => settings.downloadLinkTtlMinutes || DEFAULT_DOWNLOAD_TTL_MINUTES,
+
+  limit: (settings: Pick<StoreSettings, 'downloadLimit'>): number => settings.downloadLimit || DEFAULT_DOWNLOAD_LIMIT,
+
+  // Files are only released once the order is paid
+  isOrderDownloadable: (order: Pick<Order, 'status'>): boolean => OrderService.isPaid(order),
+
+  // Each variant line of an order has its own allowance
+  downloadCount: (logs: DownloadLog[], orderId: string, productId: string, variantId?: string): number =>
+    logs.filter(l => l.orderId === orderId && l.productId === productId && (l.variantId || null) === (variantId || null)).length,
+
+  grants: (order: Pick<Order, 'items'>): DownloadGrant[] => (order.items || []).flatMap(item => item.bundleItems?.length
+    ? item.bundleItems
+    : [{ productId: item.id, variantId: item.variantId, name: item.variantName ? `${item.name} (${item.variantName})` : item.name }]),
+
+  hasItem: (order: Pick<Order, 'items'>, productId: string, variantId?: string): boolean =>
+    DownloadService.grants(order).some(g => g.productId === productId && (g.variantId || null) === (variantId || null)),
+
+  // Token format: base64url(JSON payload) + "." + HMAC-SHA256(payload, secret)
+  createToken: async (secret: string, orderId: string, productId: string, ttlMinutes: number, variantId?: string): Promise<string> => {
+    const payload: DownloadTokenPayload = { orderId, productId, ...(variantId && { variantId }), expiresAt: Date.now() + ttlMinutes * 60 * 1000 };
+    const encoded = base64UrlEncode(JSON.stringify(payload));
+    return `${encoded}.${await hmacSha256(secret, encoded)}`;
+  },
+
+  verifyToken: async (secret: string, token: string): Promise<DownloadTokenPayload> => {
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) throw new Error('Link download tidak valid');
+    if (!safeEqual(await hmacSha256(secret, encoded), signature)) throw new Error('Link download tidak valid');
+    const payload: DownloadTokenPayload = JSON.parse(base64UrlDecode(encoded));
+    if (Date.now() > payload.expiresAt) throw new Error('Link download sudah kedaluwarsa');
+    return payload;
+  },
+};
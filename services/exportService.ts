@@ -0,0 +1,79 @@
+import { Customer, Order, Product, Voucher } from '../types';
+import { downloadCsv, toCsv } from './csvUtils';
+import { downloadXlsx } from './xlsxUtils';
+import { OrderService, ORDER_STATUS_LABELS } from './orderService';
+import { VoucherService } from './voucherService';
+import { CartService } from './cartService';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportTable {
+  header: string[];
+  rows: unknown[][];
+}
+
+// Local time, a format spreadsheets recognize as a date
+const formatDateTime = (iso?: string) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// Uploaded files are stored inline as data URLs; far too big for a cell, so they're left out.
+// An empty cell keeps the current value when the file is imported back.
+const link = (url?: string) => url && !url.startsWith('data:') ? url : '';
+
+export const ExportService = {
+  // Headers match the import fields so an edited export can be imported back as is
+  products: (products: Product[]): ExportTable => ({
+    header: ['ID', 'Nama', 'Slug', 'Kategori', 'Harga', 'Harga Diskon', 'Deskripsi', 'Gambar', 'Link File', 'Link Contoh', 'Galeri', 'Satu Lisensi', 'Populer', 'Varian', 'Isi Paket'],
+    rows: products.map(p => [
+      p.id, p.name, p.slug || '', p.category, p.price, p.discountPrice || '', p.description,
+      link(p.image), link(p.fileUrl), link(p.previewUrl), (p.gallery || []).map(link).filter(Boolean).join(' | '),
+      !!p.singleLicense, !!p.isPopular,
+      (p.variants || []).map(v => `${v.name}: ${v.discountPrice || v.price}`).join('; '),
+      (p.bundleItems || []).map(b => b.name).join('; '),
+    ]),
+  }),
+
+  // Password hashes never leave the store
+  customers: (customers: Customer[], orders: Order[]): ExportTable => ({
+    header: ['ID', 'Nama', 'WhatsApp', 'Bergabung', 'Jumlah Pesanan', 'Total Belanja'],
+    rows: customers.map(c => {
+      const paid = orders.filter(o => OrderService.isPaid(o) && (o.customerId ? o.customerId === c.id : o.customerWhatsapp === c.whatsapp));
+      return [c.id, c.name, c.whatsapp, formatDateTime(c.createdAt), paid.length, paid.reduce((sum, o) => sum + o.total, 0)];
+    }),
+  }),
+
+  vouchers: (vouchers: Voucher[], products: Product[], orders: Order[]): ExportTable => ({
+    header: ['Kode', 'Tipe', 'Nilai', 'Aktif', 'Mulai', 'Berakhir', 'Minimal Belanja', 'Maksimal Diskon', 'Kuota Total', 'Batas per Pelanggan', 'Produk', 'Kategori', 'Dipakai', 'Total Diskon'],
+    rows: vouchers.map(v => {
+      const redemptions = VoucherService.redemptions(v, orders);
+      return [
+        v.code, v.type === 'PERCENT' ? 'Persen' : 'Rp', v.value, v.isActive, formatDateTime(v.startsAt), formatDateTime(v.endsAt),
+        v.minSubtotal ?? '', v.maxDiscount ?? '', v.usageLimit ?? '', v.perCustomerLimit ?? '',
+        (v.productIds || []).map(id => products.find(p => p.id === id)?.name || id).join('; '), (v.categories || []).join('; '),
+        VoucherService.usageCount(v, orders), redemptions.reduce((sum, o) => sum + (o.discountAmount || 0), 0),
+      ];
+    }),
+  }),
+
+  // One row per order with the amounts bookkeeping needs; items are summarized in one cell
+  orders: (orders: Order[]): ExportTable => ({
+    header: ['No. Invoice', 'ID Pesanan', 'Tanggal', 'Status', 'Pelanggan', 'WhatsApp', 'Metode Bayar', 'Item', 'Subtotal', 'Diskon', 'Voucher', 'Pajak', 'Total', 'Kode Referral', 'Ref. Pembayaran'],
+    rows: orders.map(o => [
+      o.invoiceNumber || '', o.id, formatDateTime(o.date), ORDER_STATUS_LABELS[o.status], o.customerName, o.customerWhatsapp, o.paymentMethod,
+      o.items.map(item => `${CartService.displayName(item)} x${item.quantity}`).join('; '),
+      o.pricing?.subtotal ?? o.items.reduce((sum, item) => sum + (item.discountPrice || item.price) * item.quantity, 0),
+      o.discountAmount || 0, o.voucherCode || '', o.taxAmount || 0, o.total, o.referralCode || '', o.paymentReference || '',
+    ]),
+  }),
+
+  // name: file name without extension, also used as the sheet name
+  download: (name: string, table: ExportTable, format: ExportFormat) => {
+    const stamped = `${name}-${formatDateTime(new Date().toISOString()).slice(0, 10)}`;
+    if (format === 'xlsx') downloadXlsx(`${stamped}.xlsx`, name, table.header, table.rows);
+    else downloadCsv(`${stamped}.csv`, toCsv(table.header, table.rows));
+  },
+};
@@ -0,0 +1,7 @@
+// Text placed into generated HTML (product descriptions, printable invoices) is escaped with this first.
+export const escapeHtml = (text: string): string => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, Product } from '../types';
+import { ImportService } from './importService';
+import { PasswordService } from './passwordService';
+
+const NOW = '2026-03-10T05:00:00.000Z';
+
+const product = (id: string, name: string, price: number, extra: Partial<Product> = {}): Product => ({
+  id, name, slug: name.toLowerCase().replace(/\s+/g, '-'), category: 'Ebook', description: '', price, image: '', ...extra,
+});
+
+const customer = (id: string, name: string, whatsapp: string): Customer => ({ id, name, whatsapp, password: 'pbkdf2$1$a$b', createdAt: NOW });
+
+const ids = () => {
+  let n = 0;
+  return () => `new${++n}`;
+};
+
+const importProducts = (table: string[][], products: Product[] = []) =>
+  ImportService.products(table, ImportService.guessMapping('products', table[0]), products, ids(), NOW);
+
+const importCustomers = (table: string[][], customers: Customer[] = []) =>
+  ImportService.customers(table, ImportService.guessMapping('customers', table[0]), customers, ids(), NOW);
+
+describe('ImportService.guessMapping', () => {
+  it('recognizes export headers and common aliases', () => {
+    expect(ImportService.guessMapping('products', ['Nama Produk', 'Harga', 'Harga Promo', 'Lain'])).toMatchObject({ name: 0, price: 1, discountPrice: 2, id: -1 });
+    expect(ImportService.guessMapping('customers', ['No. HP', 'nama'])).toMatchObject({ whatsapp: 0, name: 1, password: -1 });
+  });
+});
+
+describe('ImportService.validateMapping', () => {
+  it('needs a column to match records by', () => {
+    expect(ImportService.validateMapping('products', { price: 0, id: -1, slug: -1, name: -1 })).toBe('Pilih kolom ID, Slug atau Nama untuk mencocokkan produk');
+    expect(ImportService.validateMapping('products', { name: 0 })).toBeNull();
+    expect(ImportService.validateMapping('customers', { name: 0, id: -1, whatsapp: -1 })).toBe('Pilih kolom ID atau WhatsApp untuk mencocokkan pelanggan');
+  });
+});
+
+describe('ImportService.products', () => {
+  const catalog = [product('p1', 'Ebook Bisnis', 50000), product('p2', 'Template', 30000, { discountPrice: 25000 })];
+
+  it('creates new products with a slug and the defaults', () => {
+    const [row] = importProducts([['Nama', 'Harga'], ['Kelas Baru', 'Rp 150.000']], catalog);
+    expect(row).toMatchObject({ line: 2, action: 'create', errors: [] });
+    expect(row.record).toMatchObject({ id: 'new1', name: 'Kelas Baru', slug: 'kelas-baru', price: 150000, category: 'General', createdAt: NOW });
+  });
+
+  it('matches by ID, then slug, then name, and lists what changes', () => {
+    const rows = importProducts([['ID', 'Slug', 'Nama', 'Harga'], ['p1', '', '', '55000'], ['', 'template', '', '30000']], catalog);
+    expect(rows.map(r => [r.action, r.record?.id, r.changes])).toEqual([['update', 'p1', ['Harga']], ['skip', 'p2', []]]);
+    expect(importProducts([['Nama', 'Harga'], ['Ebook Bisnis', '60000']], catalog)[0]).toMatchObject({ action: 'update', record: { id: 'p1' }, changes: ['Harga'] });
+  });
+
+  it('keeps current values for empty cells and clears the discount with 0', () => {
+    const [row] = importProducts([['ID', 'Kategori', 'Harga Diskon'], ['p2', '', '0']], catalog);
+    expect(row.record).toMatchObject({ category: 'Ebook', price: 30000, discountPrice: undefined });
+    expect(row.changes).toEqual(['Harga Diskon']);
+  });
+
+  it('reads amounts and yes/no the way people type them', () => {
+    const [row] = importProducts([['Nama', 'Harga', 'Populer', 'Satu Lisensi'], ['Baru', '150000.00', 'Ya', 'tidak']]);
+    expect(row.record).toMatchObject({ price: 150000, isPopular: true, singleLicense: false });
+  });
+
+  it('reports every problem with a row', () => {
+    const [row] = importProducts([['ID', 'Harga', 'Populer'], ['p9', 'murah', 'mungkin']], catalog);
+    expect(row.record).toBeUndefined();
+    expect(row.errors).toEqual(['Harga "murah" bukan angka', 'Populer harus "ya" atau "tidak"', 'ID "p9" tidak ditemukan', 'Nama wajib diisi', 'Harga wajib diisi']);
+  });
+
+  it('checks prices and slugs', () => {
+    const rows = importProducts([['ID', 'Nama', 'Harga', 'Harga Diskon', 'Slug'], ['', 'A', '1000', '2000', ''], ['p1', '', '', '', 'template'], ['', 'C', '1000', '', 'ada spasi']], catalog);
+    expect(rows.map(r => r.errors)).toEqual([['Harga diskon harus lebih kecil dari harga'], ['Slug sudah dipakai produk lain'], ['Slug hanya boleh huruf kecil, angka dan tanda hubung (-)']]);
+  });
+
+  it('leaves variant prices to the variants', () => {
+    const tiered = product('p3', 'Kursus', 100000, { variants: [{ id: 'v1', name: 'Dasar', price: 100000 }] });
+    expect(importProducts([['ID', 'Harga'], ['p3', '90000']], [tiered])[0].errors).toEqual(['Harga produk bervarian diatur per varian']);
+  });
+
+  it('catches the same product twice in one file', () => {
+    const rows = importProducts([['ID', 'Nama', 'Harga'], ['p1', '', '51000'], ['p1', '', '52000'], ['', 'Baru', '1000'], ['', 'baru', '2000']], catalog);
+    expect(rows.map(r => r.errors)).toEqual([[], ['Produk yang sama sudah ada di baris 2'], [], ['Nama sama dengan produk baru di baris 4']]);
+  });
+
+  it('gives new products with the same name as an earlier row a different slug', () => {
+    const rows = importProducts([['Nama', 'Harga'], ['Ebook Bisnis Pro', '1000']], [...catalog, product('p4', 'Lama', 1000, { slug: 'ebook-bisnis-pro' })]);
+    expect(rows[0].record?.slug).toBe('ebook-bisnis-pro-2');
+  });
+
+  it('reads cells guarded against spreadsheet formulas', () => {
+    expect(importProducts([['Nama', 'Harga'], ["'=Rumus", '1000']])[0].record?.name).toBe('=Rumus');
+  });
+});
+
+describe('ImportService.customers', () => {
+  const list = [customer('c1', 'Budi', '081234567890')];
+
+  it('creates customers with a normalized number', () => {
+    const [row] = importCustomers([['Nama', 'WhatsApp', 'Password'], ['Sari', '0812-9876 5432', 'rahasia']], list);
+    expect(row).toMatchObject({ action: 'create', password: 'rahasia', errors: [] });
+    expect(row.record).toMatchObject({ id: 'new1', whatsapp: '081298765432', createdAt: NOW });
+  });
+
+  it('matches by WhatsApp and reports a new password as a change', () => {
+    const rows = importCustomers([['WhatsApp', 'Nama', 'Password'], ['081234567890', 'Budi', ''], ['081234567890', 'Budi Santoso', 'baru']], list);
+    expect(rows[0]).toMatchObject({ action: 'skip', changes: [] });
+    expect(rows[1].errors).toEqual(['Pelanggan yang sama sudah ada di baris 2']);
+    expect(importCustomers([['WA', 'Password'], ['081234567890', 'baru']], list)[0]).toMatchObject({ action: 'update', changes: ['Password'] });
+  });
+
+  it('needs a valid, unused number and a password for new customers', () => {
+    const rows = importCustomers([['ID', 'Nama', 'WhatsApp', 'Password'], ['', 'Sari', '12ab', ''], ['c9', 'Ani', '', '']], list);
+    expect(rows[0].errors).toEqual(['Nomor WhatsApp "12ab" tidak valid', 'Password wajib diisi untuk pelanggan baru']);
+    expect(rows[1].errors).toEqual(['ID "c9" tidak ditemukan', 'Nomor WhatsApp wajib diisi', 'Password wajib diisi untuk pelanggan baru']);
+    const taken = importCustomers([['ID', 'WhatsApp'], ['c2', '081234567890']], [...list, customer('c2', 'Ani', '081100000000')]);
+    expect(taken[0].errors).toEqual(['Nomor WhatsApp sudah dipakai pelanggan lain']);
+  });
+});
+
+describe('ImportService.count and apply', () => {
+  it('counts rows by outcome and applies only the valid ones', () => {
+    const catalog = [product('p1', 'Ebook Bisnis', 50000), product('p2', 'Template', 30000)];
+    const rows = importProducts([['ID', 'Nama', 'Harga'], ['p1', '', '55000'], ['p2', '', ''], ['', 'Baru', '1000'], ['', 'Rusak', 'x']], catalog);
+    expect(ImportService.count(rows)).toEqual({ create: 1, update: 1, skip: 1, invalid: 1 });
+    expect(ImportService.applyProducts(rows, catalog).map(p => [p.id, p.price])).toEqual([['p1', 55000], ['p2', 30000], ['new1', 1000]]);
+  });
+
+  it('hashes imported passwords', async () => {
+    const rows = importCustomers([['Nama', 'WhatsApp', 'Password'], ['Sari', '081298765432', 'rahasia']]);
+    const [saved] = await ImportService.applyCustomers(rows, []);
+    expect(PasswordService.isHashed(saved.password)).toBe(true);
+  });
+});
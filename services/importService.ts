@@ -0,0 +1,254 @@
+import { Customer, Product } from '../types';
+import { ProductService } from './productService';
+import { PasswordService } from './passwordService';
+import { unguardCell } from './csvUtils';
+
+export type ImportKind = 'products' | 'customers';
+
+export interface ImportField {
+  key: string;
+  label: string; // Same as the export header
+  required?: boolean; // Needed to create a record; updates may leave it out
+  aliases: string[]; // Other header names recognized when guessing the mapping
+}
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  products: [
+    { key: 'id', label: 'ID', aliases: ['product id', 'id produk'] },
+    { key: 'name', label: 'Nama', required: true, aliases: ['name', 'nama produk', 'produk', 'product'] },
+    { key: 'slug', label: 'Slug', aliases: ['url'] },
+    { key: 'category', label: 'Kategori', aliases: ['category'] },
+    { key: 'price', label: 'Harga', required: true, aliases: ['price', 'harga normal'] },
+    { key: 'discountPrice', label: 'Harga Diskon', aliases: ['discount price', 'harga promo', 'diskon'] },
+    { key: 'description', label: 'Deskripsi', aliases: ['description', 'keterangan'] },
+    { key: 'image', label: 'Gambar', aliases: ['image', 'gambar url', 'foto'] },
+    { key: 'fileUrl', label: 'Link File', aliases: ['file', 'file url', 'link download'] },
+    { key: 'previewUrl', label: 'Link Contoh', aliases: ['preview', 'preview url', 'contoh'] },
+    { key: 'gallery', label: 'Galeri', aliases: ['gallery'] },
+    { key: 'singleLicense', label: 'Satu Lisensi', aliases: ['single license', 'lisensi tunggal'] },
+    { key: 'isPopular', label: 'Populer', aliases: ['popular', 'is popular'] },
+  ],
+  customers: [
+    { key: 'id', label: 'ID', aliases: ['customer id', 'id pelanggan'] },
+    { key: 'name', label: 'Nama', required: true, aliases: ['name', 'nama pelanggan', 'pelanggan'] },
+    { key: 'whatsapp', label: 'WhatsApp', required: true, aliases: ['wa', 'no wa', 'nomor wa', 'nomor whatsapp', 'phone', 'telepon', 'no hp', 'hp'] },
+    { key: 'password', label: 'Password', required: true, aliases: ['kata sandi', 'sandi'] },
+  ],
+};
+
+// Field key -> column index in the file, -1 when the field isn't imported
+export type ImportMapping = Record<string, number>;
+
+export interface ImportRow<T> {
+  line: number; // Line in the file; the header is line 1
+  label: string;
+  action: 'create' | 'update' | 'skip'; // skip: matches a record and changes nothing
+  record?: T; // The record as it would be saved; absent when the row has errors
+  changes: string[]; // Labels of the fields an update changes
+  errors: string[];
+  password?: string; // Customers only: plain text, hashed when the import is applied
+}
+
+export interface ImportCounts {
+  create: number;
+  update: number;
+  skip: number;
+  invalid: number;
+}
+
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Rupiah amounts as people type them: 150000, 150.000, Rp 150.000, 150000.00
+const parseAmount = (text: string): number | null => {
+  const cleaned = text.replace(/^rp\.?/i, '').replace(/\s/g, '');
+  if (/^\d{1,3}([.,]\d{3})+$/.test(cleaned)) return Number(cleaned.replace(/[.,]/g, ''));
+  if (/^\d+([.,]\d{1,2})?$/.test(cleaned)) return Math.round(Number(cleaned.replace(',', '.')));
+  return null;
+};
+
+const parseBoolean = (text: string): boolean | null => {
+  const value = text.toLowerCase();
+  if (['ya', 'y', 'yes', 'true', '1', 'benar'].includes(value)) return true;
+  if (['tidak', 'tdk', 'n', 'no', 'false', '0', 'salah'].includes(value)) return false;
+  return null;
+};
+
+const normalizeWhatsapp = (text: string) => text.replace(/[\s\-.()]/g, '');
+
+const WHATSAPP_PATTERN = /^\+?\d{8,15}$/;
+
+const cellReader = (row: string[], mapping: ImportMapping) => (key: string): string =>
+  mapping[key] >= 0 ? unguardCell((row[mapping[key]] ?? '').trim()).trim() : '';
+
+const labelOf = (fields: ImportField[], key: string) => fields.find(f => f.key === key)?.label || key;
+
+// Unset optional fields read as empty, so an exported "false" or "" isn't a change
+const comparable = (value: unknown) => JSON.stringify(value === undefined || value === false || value === '' ? null : value);
+
+// Which of the patched fields differ from the current record
+const changedFields = <T extends object>(fields: ImportField[], current: T, patch: Partial<T>): string[] =>
+  (Object.keys(patch) as (keyof T & string)[])
+    .filter(key => comparable(patch[key]) !== comparable(current[key]))
+    .map(key => labelOf(fields, key));
+
+// Valid rows replace the records they update; new ones go at the end
+const merge = <T extends { id: string }>(rows: ImportRow<T>[], list: T[]): T[] => {
+  const valid = rows.filter(r => r.record && !r.errors.length);
+  const updates = new Map(valid.filter(r => r.action === 'update').map(r => [r.record!.id, r.record!]));
+  return [...list.map(item => updates.get(item.id) || item), ...valid.filter(r => r.action === 'create').map(r => r.record!)];
+};
+
+export const ImportService = {
+  // Columns whose header matches a field's key, label or alias
+  guessMapping: (kind: ImportKind, header: string[]): ImportMapping => {
+    const normalized = header.map(normalizeHeader);
+    return Object.fromEntries(IMPORT_FIELDS[kind].map(field => {
+      const names = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+      return [field.key, normalized.findIndex(h => names.includes(h))];
+    }));
+  },
+
+  // Rows need something to be matched or created by
+  validateMapping: (kind: ImportKind, mapping: ImportMapping): string | null => {
+    const mapped = (key: string) => mapping[key] >= 0;
+    if (kind === 'products' && !mapped('id') && !mapped('slug') && !mapped('name')) return 'Pilih kolom ID, Slug atau Nama untuk mencocokkan produk';
+    if (kind === 'customers' && !mapped('id') && !mapped('whatsapp')) return 'Pilih kolom ID atau WhatsApp untuk mencocokkan pelanggan';
+    return null;
+  },
+
+  // Dry run: what each data row would do to the catalog. Products are matched by ID, then slug,
+  // then name; empty cells keep the current value (0 clears the discount price).
+  products: (table: string[][], mapping: ImportMapping, products: Product[], newId: () => string, now = new Date().toISOString()): ImportRow<Product>[] => {
+    const fields = IMPORT_FIELDS.products;
+    let working = [...products];
+    const seen = new Map<string, number>();
+    const created = new Map<string, number>(); // Lower-cased names of new products
+
+    return table.slice(1).map((row, idx): ImportRow<Product> => {
+      const line = idx + 2;
+      const cell = cellReader(row, mapping);
+      const errors: string[] = [];
+      const patch: Partial<Product> = {};
+
+      (['name', 'category', 'description', 'image', 'fileUrl', 'previewUrl'] as const).forEach(key => { if (cell(key)) patch[key] = cell(key); });
+      if (cell('slug')) patch.slug = cell('slug').toLowerCase();
+      if (cell('gallery')) patch.gallery = cell('gallery').split(/\s*[|\n]\s*/).filter(Boolean);
+      (['price', 'discountPrice'] as const).forEach(key => {
+        if (!cell(key)) return;
+        const amount = parseAmount(cell(key));
+        if (amount === null) errors.push(`${labelOf(fields, key)} "${cell(key)}" bukan angka`);
+        else patch[key] = key === 'discountPrice' && amount === 0 ? undefined : amount;
+      });
+      (['singleLicense', 'isPopular'] as const).forEach(key => {
+        if (!cell(key)) return;
+        const value = parseBoolean(cell(key));
+        if (value === null) errors.push(`${labelOf(fields, key)} harus "ya" atau "tidak"`);
+        else patch[key] = value;
+      });
+
+      const byName = cell('name') ? products.filter(p => p.name.trim().toLowerCase() === cell('name').toLowerCase()) : [];
+      const existing = cell('id')
+        ? products.find(p => p.id === cell('id'))
+        : products.find(p => patch.slug && p.slug === patch.slug) || (byName.length === 1 ? byName[0] : undefined);
+      if (cell('id') && !existing) errors.push(`ID "${cell('id')}" tidak ditemukan`);
+
+      const id = existing?.id || newId();
+      const record: Product = existing
+        ? { ...existing, ...patch }
+        : {
+          id,
+          name: '',
+          price: 0,
+          description: '',
+          category: 'General',
+          image: `https://picsum.photos/seed/${id}/400/400`,
+          fileUrl: '',
+          singleLicense: false,
+          isPopular: false,
+          createdAt: now,
+          gallery: [],
+          variants: [],
+          bundleItems: [],
+          ...patch,
+        };
+      if (!record.slug && record.name) record.slug = ProductService.uniqueSlug(record.name, working, id);
+
+      if (!record.name) errors.push('Nama wajib diisi');
+      if (ProductService.hasVariants(record)) {
+        if (patch.price !== undefined && patch.price !== existing?.price) errors.push('Harga produk bervarian diatur per varian');
+      } else {
+        if (!record.price) errors.push('Harga wajib diisi');
+        if (record.discountPrice && record.discountPrice >= record.price) errors.push('Harga diskon harus lebih kecil dari harga');
+      }
+      const slugError = record.slug ? ProductService.validateSlug(record.slug, working, id) : null;
+      if (slugError) errors.push(slugError);
+      if (seen.has(id)) errors.push(`Produk yang sama sudah ada di baris ${seen.get(id)}`);
+      const sameName = existing ? undefined : created.get(record.name.toLowerCase());
+      if (sameName) errors.push(`Nama sama dengan produk baru di baris ${sameName}`);
+
+      const label = record.name || `Baris ${line}`;
+      if (errors.length) return { line, label, action: existing ? 'update' : 'create', changes: [], errors };
+      seen.set(id, line);
+      if (!existing) created.set(record.name.toLowerCase(), line);
+      const saved = ProductService.withVariantPrice(record);
+      working = existing ? working.map(p => p.id === id ? saved : p) : [...working, saved];
+      if (!existing) return { line, label, action: 'create', record: saved, changes: [], errors };
+      const changes = changedFields(fields, existing, { ...patch, slug: saved.slug });
+      return { line, label, action: changes.length ? 'update' : 'skip', record: saved, changes, errors };
+    });
+  },
+
+  // Customers are matched by ID, then WhatsApp number. New ones need a password.
+  customers: (table: string[][], mapping: ImportMapping, customers: Customer[], newId: () => string, now = new Date().toISOString()): ImportRow<Customer>[] => {
+    const fields = IMPORT_FIELDS.customers;
+    let working = [...customers];
+    const seen = new Map<string, number>();
+
+    return table.slice(1).map((row, idx): ImportRow<Customer> => {
+      const line = idx + 2;
+      const cell = cellReader(row, mapping);
+      const errors: string[] = [];
+      const patch: Partial<Customer> = {};
+      if (cell('name')) patch.name = cell('name');
+      if (cell('whatsapp')) {
+        patch.whatsapp = normalizeWhatsapp(cell('whatsapp'));
+        if (!WHATSAPP_PATTERN.test(patch.whatsapp)) errors.push(`Nomor WhatsApp "${cell('whatsapp')}" tidak valid`);
+      }
+      const password = cell('password') || undefined;
+
+      const existing = cell('id') ? customers.find(c => c.id === cell('id')) : customers.find(c => patch.whatsapp && c.whatsapp === patch.whatsapp);
+      if (cell('id') && !existing) errors.push(`ID "${cell('id')}" tidak ditemukan`);
+
+      const id = existing?.id || newId();
+      const record: Customer = existing ? { ...existing, ...patch } : { id, name: '', whatsapp: '', password: '', createdAt: now, ...patch };
+      if (!record.name) errors.push('Nama wajib diisi');
+      if (!record.whatsapp) errors.push('Nomor WhatsApp wajib diisi');
+      if (!existing && !password) errors.push('Password wajib diisi untuk pelanggan baru');
+      if (record.whatsapp && working.some(c => c.id !== id && c.whatsapp === record.whatsapp)) errors.push('Nomor WhatsApp sudah dipakai pelanggan lain');
+      if (seen.has(id)) errors.push(`Pelanggan yang sama sudah ada di baris ${seen.get(id)}`);
+
+      const label = record.name || record.whatsapp || `Baris ${line}`;
+      if (errors.length) return { line, label, action: existing ? 'update' : 'create', changes: [], errors };
+      seen.set(id, line);
+      working = existing ? working.map(c => c.id === id ? record : c) : [...working, record];
+      if (!existing) return { line, label, action: 'create', record, changes: [], errors, password };
+      const changes = [...changedFields(fields, existing, patch), ...(password ? [labelOf(fields, 'password')] : [])];
+      return { line, label, action: changes.length ? 'update' : 'skip', record, changes, errors, password };
+    });
+  },
+
+  count: (rows: ImportRow<unknown>[]): ImportCounts => ({
+    create: rows.filter(r => !r.errors.length && r.action === 'create').length,
+    update: rows.filter(r => !r.errors.length && r.action === 'update').length,
+    skip: rows.filter(r => !r.errors.length && r.action === 'skip').length,
+    invalid: rows.filter(r => r.errors.length).length,
+  }),
+
+  // Rows with errors are left out
+  applyProducts: (rows: ImportRow<Product>[], products: Product[]): Product[] => merge(rows, products),
+
+  applyCustomers: async (rows: ImportRow<Customer>[], customers: Customer[]): Promise<Customer[]> => {
+    const hashed = await Promise.all(rows.map(async r => r.record && r.password ? { ...r, record: { ...r.record, password: await PasswordService.hash(r.password) } } : r));
+    return merge(hashed, customers);
+  },
+};
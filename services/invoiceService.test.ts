@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Order, OrderStatus } from '../types';
+import { InvoiceService } from './invoiceService';
+
+const order = (id: string, status: OrderStatus, extra: Partial<Order> = {}): Order => ({
+  id, items: [], total: 100000, customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'BCA', status, date: '2026-01-01T00:00:00.000Z', ...extra,
+});
+
+const NOW = '2026-03-10T05:00:00.000Z';
+
+describe('InvoiceService.assign', () => {
+  it('issues the first number of the year to a paid order', () => {
+    expect(InvoiceService.assign(order('o1', 'PAID'), [], NOW)).toMatchObject({ invoiceNumber: 'INV/2026/000001', invoicedAt: NOW });
+  });
+
+  it('continues after the highest number of the year', () => {
+    const orders = [
+      order('a', 'PAID', { invoiceNumber: 'INV/2026/000007' }),
+      order('b', 'CANCELLED', { invoiceNumber: 'INV/2026/000012' }),
+      order('c', 'COMPLETED', { invoiceNumber: 'INV/2025/000099' }),
+    ];
+    expect(InvoiceService.assign(order('o1', 'COMPLETED'), orders, NOW).invoiceNumber).toBe('INV/2026/000013');
+  });
+
+  it('starts again at 1 in a new year', () => {
+    expect(InvoiceService.assign(order('o1', 'PAID'), [order('a', 'PAID', { invoiceNumber: 'INV/2025/000099' })], NOW).invoiceNumber).toBe('INV/2026/000001');
+  });
+
+  it('counts the year in WIB', () => {
+    // 1 January 00:30 in Jakarta is still 31 December in UTC
+    expect(InvoiceService.assign(order('o1', 'PAID'), [], '2025-12-31T17:30:00.000Z').invoiceNumber).toBe('INV/2026/000001');
+  });
+
+  it('leaves unpaid orders without a number', () => {
+    const pending = order('o1', 'PENDING');
+    expect(InvoiceService.assign(pending, [], NOW)).toBe(pending);
+    const cancelled = order('o2', 'CANCELLED');
+    expect(InvoiceService.assign(cancelled, [], NOW)).toBe(cancelled);
+  });
+
+  it('never changes a number once issued', () => {
+    const issued = order('o1', 'COMPLETED', { invoiceNumber: 'INV/2025/000003', invoicedAt: '2025-05-01T00:00:00.000Z' });
+    expect(InvoiceService.assign(issued, [order('a', 'PAID', { invoiceNumber: 'INV/2026/000009' })], NOW)).toBe(issued);
+  });
+
+  it('ignores numbers it cannot read', () => {
+    expect(InvoiceService.assign(order('o1', 'PAID'), [order('a', 'PAID', { invoiceNumber: 'manual-5' })], NOW).invoiceNumber).toBe('INV/2026/000001');
+  });
+});
+
+describe('InvoiceService.parse', () => {
+  it('reads numbers written by format', () => {
+    expect(InvoiceService.parse(InvoiceService.format(2026, 42))).toEqual({ year: 2026, sequence: 42 });
+    expect(InvoiceService.parse('INV/26/1')).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { Order, PriceBreakdown, StoreSettings } from '../types';
+import { CartService } from './cartService';
+import { ProductService } from './productService';
+import { OrderService } from './orderService';
+import { escapeHtml } from './htmlUtils';
+
+export const INVOICE_PREFIX = 'INV';
+
+// The numbering year follows the store's clock (WIB), same as the invoice_numbers trigger
+export const INVOICE_TIME_ZONE = 'Asia/Jakarta';
+
+const yearOf = (iso: string): number => Number(new Intl.DateTimeFormat('en', { year: 'numeric', timeZone: INVOICE_TIME_ZONE }).format(new Date(iso)));
+
+const rupiah = (amount: number) => `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric', timeZone: INVOICE_TIME_ZONE });
+
+// Orders placed before the pricing breakdown was stored are itemized from their cart lines
+const breakdownOf = (order: Order): Pick<PriceBreakdown, 'lines' | 'subtotal' | 'discount' | 'tax' | 'taxRate' | 'taxInclusive' | 'taxLabel' | 'total'> => {
+  if (order.pricing) return order.pricing;
+  const lines = order.items.map(item => {
+    const unitPrice = ProductService.unitPrice(item);
+    return { productId: item.id, variantId: item.variantId, name: CartService.displayName(item), unitPrice, quantity: item.quantity, amount: unitPrice * item.quantity, discount: 0 };
+  });
+  return {
+    lines,
+    subtotal: lines.reduce((sum, l) => sum + l.amount, 0),
+    discount: order.discountAmount || 0,
+    tax: order.taxAmount || 0,
+    taxRate: 0,
+    taxInclusive: false,
+    total: order.total,
+  };
+};
+
+export const InvoiceService = {
+  format: (year: number, sequence: number): string => `${INVOICE_PREFIX}/${year}/${String(sequence).padStart(6, '0')}`,
+
+  parse: (invoiceNumber: string): { year: number; sequence: number } | null => {
+    const match = (invoiceNumber || '').match(/^[A-Z]+\/(\d{4})\/(\d+)$/);
+    return match ? { year: Number(match[1]), sequence: Number(match[2]) } : null;
+  },
+
+  // Local mode: the next number of the year once the order is paid. Numbers are never reused or
+  // taken back, so a cancelled invoice keeps its number. In the cloud the database assigns them.
+  assign: (order: Order, orders: Order[], now = new Date().toISOString()): Order => {
+    if (order.invoiceNumber || !OrderService.isPaid(order)) return order;
+    const year = yearOf(now);
+    const last = orders.reduce((max, o) => {
+      const parsed = InvoiceService.parse(o.invoiceNumber || '');
+      return parsed && parsed.year === year ? Math.max(max, parsed.sequence) : max;
+    }, 0);
+    return { ...order, invoiceNumber: InvoiceService.format(year, last + 1), invoicedAt: now };
+  },
+
+  fileName: (order: Order): string => `${(order.invoiceNumber || order.id).replace(/\//g, '-')}.html`,
+
+  // A standalone, print-ready document; the browser's print dialog saves it as PDF
+  html: (order: Order, settings: StoreSettings): string => {
+    const pricing = breakdownOf(order);
+    const taxLabel = `${escapeHtml(pricing.taxLabel || 'Pajak')}${pricing.taxRate ? ` ${pricing.taxRate}%` : ''}${pricing.taxInclusive ? ' (termasuk dalam harga)' : ''}`;
+    const rows = pricing.lines.map((line, idx) => `
+        <tr>
+          <td>${idx + 1}</td>
+          <td>${escapeHtml(line.name)}</td>
+          <td class="num">${line.quantity}</td>
+          <td class="num">${rupiah(line.unitPrice)}</td>
+          <td class="num">${rupiah(line.amount)}</td>
+        </tr>`).join('');
+    const bundleNotes = order.items.filter(item => item.bundleItems?.length)
+      .map(item => `<p class="note">${escapeHtml(item.name)} berisi: ${item.bundleItems!.map(b => escapeHtml(b.name)).join(', ')}</p>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="utf-8" />
+<title>Invoice ${escapeHtml(order.invoiceNumber || order.id)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #111827; margin: 0; padding: 40px; font-size: 13px; }
+  .invoice { max-width: 760px; margin: 0 auto; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #111827; padding-bottom: 16px; margin-bottom: 24px; }
+  header img { max-height: 56px; max-width: 160px; margin-bottom: 8px; }
+  h1 { font-size: 26px; margin: 0 0 4px; letter-spacing: 2px; }
+  h2 { font-size: 16px; margin: 0 0 4px; }
+  .muted { color: #6b7280; }
+  .meta { text-align: right; }
+  .paid { display: inline-block; border: 2px solid #059669; color: #059669; font-weight: bold; padding: 2px 10px; border-radius: 4px; margin-top: 6px; }
+  .cancelled { border-color: #dc2626; color: #dc2626; }
+  .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; background: #f3f4f6; padding: 8px; font-size: 12px; text-transform: uppercase; }
+  td { padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { margin-left: auto; width: 320px; margin-top: 16px; }
+  .totals td { border: none; padding: 4px 8px; }
+  .totals .grand td { border-top: 2px solid #111827; font-weight: bold; font-size: 15px; padding-top: 8px; }
+  .note { font-size: 11px; color: #6b7280; margin: 4px 0; }
+  footer { margin-top: 40px; font-size: 11px; color: #6b7280; text-align: center; }
+  @media print { body { padding: 0; } @page { margin: 16mm; } }
+</style>
+</head>
+<body>
+<div class="invoice">
+  <header>
+    <div>
+      ${settings.logoUrl ? `<img src="${escapeHtml(settings.logoUrl)}" alt="" />` : ''}
+      <h2>${escapeHtml(settings.storeName)}</h2>
+      <div class="muted">${escapeHtml(settings.address)}</div>
+      <div class="muted">${[settings.email, settings.whatsapp && `WA ${settings.whatsapp}`].filter(Boolean).map(escapeHtml).join(' · ')}</div>
+    </div>
+    <div class="meta">
+      <h1>INVOICE</h1>
+      <div><strong>${escapeHtml(order.invoiceNumber || '-')}</strong></div>
+      <div class="muted">Tanggal: ${formatDate(order.invoicedAt || order.date)}</div>
+      <div class="muted">Pesanan: ${formatDate(order.date)}</div>
+      <div class="paid${order.status === 'CANCELLED' ? ' cancelled' : ''}">${order.status === 'CANCELLED' ? 'DIBATALKAN' : 'LUNAS'}</div>
+    </div>
+  </header>
+  <div class="parties">
+    <div>
+      <div class="muted">Ditagihkan kepada</div>
+      <strong>${escapeHtml(order.customerName)}</strong>
+      <div>${escapeHtml(order.customerWhatsapp)}</div>
+    </div>
+    <div class="meta">
+      <div class="muted">Metode pembayaran</div>
+      <strong>${escapeHtml(order.paymentMethod)}</strong>
+      ${order.paymentReference ? `<div class="muted">Ref: ${escapeHtml(order.paymentReference)}</div>` : ''}
+      <div class="muted">ID: ${escapeHtml(order.id)}</div>
+    </div>
+  </div>
+  <table>
+    <thead><tr><th>#</th><th>Produk</th><th class="num">Qty</th><th class="num">Harga</th><th class="num">Jumlah</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  ${bundleNotes}
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${rupiah(pricing.subtotal)}</td></tr>
+    ${pricing.discount ? `<tr><td>Diskon${order.voucherCode ? ` (${escapeHtml(order.voucherCode)})` : ''}</td><td class="num">-${rupiah(pricing.discount)}</td></tr>` : ''}
+    ${pricing.tax ? `<tr><td>${taxLabel}</td><td class="num">${pricing.taxInclusive ? '' : '+'}${rupiah(pricing.tax)}</td></tr>` : ''}
+    <tr class="grand"><td>Total</td><td class="num">${rupiah(order.total)}</td></tr>
+  </table>
+  <footer>Terima kasih telah berbelanja di ${escapeHtml(settings.storeName)}. Invoice ini sah tanpa tanda tangan.</footer>
+</div>
+</body>
+</html>`;
+  },
+
+  // Opens the invoice in a new tab with the print dialog; saves it as a file when pop-ups are blocked
+  open: (order: Order, settings: StoreSettings) => {
+    const html = InvoiceService.html(order, settings);
+    const win = window.open('', '_blank');
+    if (win) {
+      win.document.write(html);
+      win.document.close();
+      win.onload = () => win.print();
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = InvoiceService.fileName(order);
+    a.click();
+    URL.revokeObjectURL(url);
+  },
+};
@@ -0,0 +1,52 @@
+// A small Markdown subset for product descriptions: headings, bold/italic, inline code, links,
+// bullet/numbered lists, quotes and paragraphs. The text is HTML-escaped before any markup is
+// added, and links only allow http(s)/mailto, so admin input can't inject script.
+import { escapeHtml } from './htmlUtils';
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+// Runs on already escaped text
+const inline = (text: string) => text
+  .replace(/`([^`]+)`/g, '<code class="bg-dark-900 px-1 rounded text-primary">$1</code>')
+  .replace(/\*\*([^*]+)\*\*/g, '<strong class="text-white">$1</strong>')
+  .replace(/(^|[^*])\*([^*]+)\*/g, '$1<em>$2</em>')
+  .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, url) => SAFE_URL.test(url)
+    ? `<a href="${url}" target="_blank" rel="noopener noreferrer" class="text-primary underline">${label}</a>`
+    : match);
+
+type Block = { kind: 'p' | 'ul' | 'ol' | 'quote'; lines: string[] };
+
+export const MarkdownService = {
+  toHtml: (markdown: string): string => {
+    const html: string[] = [];
+    let block: Block | null = null;
+    const flush = () => {
+      if (!block) return;
+      if (block.kind === 'p') html.push(`<p>${block.lines.map(inline).join('<br/>')}</p>`);
+      if (block.kind === 'quote') html.push(`<blockquote class="border-l-4 border-dark-700 pl-3 italic">${block.lines.map(inline).join('<br/>')}</blockquote>`);
+      if (block.kind === 'ul') html.push(`<ul class="list-disc pl-5 space-y-1">${block.lines.map(l => `<li>${inline(l)}</li>`).join('')}</ul>`);
+      if (block.kind === 'ol') html.push(`<ol class="list-decimal pl-5 space-y-1">${block.lines.map(l => `<li>${inline(l)}</li>`).join('')}</ol>`);
+      block = null;
+    };
+    const add = (kind: Block['kind'], line: string) => {
+      if (block?.kind !== kind) { flush(); block = { kind, lines: [] }; }
+      block!.lines.push(line);
+    };
+
+    escapeHtml(markdown || '').split(/\r?\n/).forEach(raw => {
+      const line = raw.trim();
+      const heading = line.match(/^(#{1,3})\s+(.*)$/);
+      if (!line) return flush();
+      if (heading) {
+        flush();
+        const size = ['text-2xl', 'text-xl', 'text-lg'][heading[1].length - 1];
+        html.push(`<h${heading[1].length + 1} class="${size} font-bold text-white">${inline(heading[2])}</h${heading[1].length + 1}>`);
+      } else if (/^[-*]\s+/.test(line)) add('ul', line.replace(/^[-*]\s+/, ''));
+      else if (/^\d+[.)]\s+/.test(line)) add('ol', line.replace(/^\d+[.)]\s+/, ''));
+      else if (/^&gt;\s?/.test(line)) add('quote', line.replace(/^&gt;\s?/, ''));
+      else add('p', line);
+    });
+    flush();
+    return html.join('\n');
+  },
+};
@@ -0,0 +1,722 @@
+// Numbered Supabase schema migrations. Each one must be safe to run again (if not exists /
+// on conflict / drop policy if exists) and must never drop tables, columns or rows, so a
+// database created by the old drop-and-recreate script can simply run all of them.
+// Append new migrations at the end; never edit one that has shipped.
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Tracks applied migrations; created ahead of every script so the app can always read it
+const SCHEMA_VERSION_SQL = `create table if not exists schema_version (
+  version integer primary key,
+  name text not null,
+  applied_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table schema_version enable row level security;
+drop policy if exists "Read Schema Version" on schema_version;
+create policy "Read Schema Version" on schema_version for select using (true);`;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    sql: `create extension if not exists "uuid-ossp";
+
+create table if not exists products (
+  id text primary key,
+  name text not null,
+  category text,
+  description text,
+  price numeric not null,
+  discount_price numeric,
+  image text,
+  file_url text,
+  is_popular boolean default false,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists store_settings (
+  id text primary key,
+  store_name text,
+  address text,
+  whatsapp text,
+  email text,
+  description text,
+  logo_url text,
+  tripay_api_key text,
+  tripay_private_key text,
+  tripay_merchant_code text,
+  admin_username text,
+  admin_password text,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists payment_methods (
+  id text primary key,
+  type text not null,
+  name text not null,
+  account_number text,
+  account_name text,
+  description text,
+  logo text,
+  is_active boolean default true,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists vouchers (
+  id text primary key,
+  code text not null unique,
+  type text not null check (type in ('FIXED', 'PERCENT')),
+  value numeric not null,
+  is_active boolean default true,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists affiliates (
+  id text primary key,
+  name text not null,
+  code text not null unique,
+  password text not null,
+  commission_rate numeric not null,
+  total_earnings numeric default 0,
+  bank_details text,
+  is_active boolean default true,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists customers (
+  id text primary key,
+  name text not null,
+  whatsapp text not null unique,
+  password text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists orders (
+  id text primary key,
+  customer_name text,
+  customer_whatsapp text,
+  total numeric not null,
+  payment_method text,
+  status text default 'PENDING',
+  items jsonb,
+  voucher_code text,
+  discount_amount numeric,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table products enable row level security;
+alter table store_settings enable row level security;
+alter table payment_methods enable row level security;
+alter table vouchers enable row level security;
+alter table affiliates enable row level security;
+alter table orders enable row level security;
+alter table customers enable row level security;`,
+  },
+  {
+    version: 2,
+    name: 'order_status_workflow',
+    sql: `alter table orders add column if not exists status_history jsonb default '[]'::jsonb;
+alter table orders drop constraint if exists orders_status_check;
+alter table orders add constraint orders_status_check check (status in ('PENDING', 'PAID', 'COMPLETED', 'CANCELLED'));`,
+  },
+  {
+    version: 3,
+    name: 'tripay_payments',
+    sql: `alter table store_settings add column if not exists tripay_mode text default 'sandbox';
+alter table store_settings add column if not exists tripay_base_url text;
+alter table store_settings add column if not exists tripay_callback_url text;
+alter table orders add column if not exists payment_reference text;
+alter table orders add column if not exists payment_url text;
+alter table orders add column if not exists pay_code text;`,
+  },
+  {
+    version: 4,
+    name: 'digital_delivery',
+    sql: `-- Deliverables live apart from the public catalog; buyers get them through the download function
+create table if not exists product_files (
+  product_id text primary key references products(id) on delete cascade,
+  file_url text,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table product_files enable row level security;
+
+-- Move existing links out of the public products table (the column itself is kept)
+insert into product_files (product_id, file_url)
+  select id, file_url from products where file_url is not null
+  on conflict (product_id) do nothing;
+update products set file_url = null where file_url is not null;
+
+alter table store_settings add column if not exists download_secret text;
+alter table store_settings add column if not exists download_link_ttl_minutes integer default 60;
+alter table store_settings add column if not exists download_limit integer default 5;
+
+create table if not exists download_logs (
+  id text primary key,
+  order_id text not null references orders(id) on delete cascade,
+  product_id text not null,
+  downloaded_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+create index if not exists download_logs_order_idx on download_logs (order_id, product_id);
+alter table download_logs enable row level security;`,
+  },
+  {
+    version: 5,
+    name: 'affiliate_referrals',
+    sql: `alter table orders add column if not exists referral_code text;
+alter table orders add column if not exists affiliate_id text;
+
+create table if not exists referral_clicks (
+  id text primary key,
+  affiliate_id text not null references affiliates(id) on delete cascade,
+  code text not null,
+  landing_path text,
+  clicked_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table referral_clicks enable row level security;
+
+-- One line per affiliate in a payout batch
+create table if not exists affiliate_payouts (
+  id text primary key,
+  affiliate_id text not null references affiliates(id) on delete cascade,
+  amount numeric not null,
+  bank_details text,
+  commission_ids jsonb default '[]'::jsonb,
+  status text default 'PENDING' check (status in ('PENDING', 'PAID', 'CANCELLED')),
+  note text,
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table affiliate_payouts enable row level security;`,
+  },
+  {
+    version: 6,
+    name: 'commission_ledger',
+    sql: `-- One entry per referred order
+create table if not exists commissions (
+  id text primary key,
+  affiliate_id text not null references affiliates(id) on delete cascade,
+  order_id text not null unique references orders(id) on delete cascade,
+  base_amount numeric not null,
+  rate numeric not null,
+  amount numeric not null,
+  status text default 'PENDING' check (status in ('PENDING', 'APPROVED', 'VOID', 'PAID')),
+  payout_id text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table commissions enable row level security;`,
+  },
+  {
+    version: 7,
+    name: 'payout_batches',
+    sql: `-- Kept for audit, never deleted
+create table if not exists payout_batches (
+  id text primary key,
+  status text default 'DRAFT' check (status in ('DRAFT', 'CONFIRMED', 'CANCELLED')),
+  minimum_amount numeric not null,
+  total_amount numeric not null,
+  created_by text,
+  confirmed_by text,
+  confirmed_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table payout_batches enable row level security;
+alter table affiliate_payouts add column if not exists batch_id text;`,
+  },
+  {
+    version: 8,
+    name: 'role_based_access',
+    sql: `alter table orders add column if not exists customer_id text;
+create index if not exists orders_customer_idx on orders (customer_id);
+
+-- The old open policies
+drop policy if exists "Public Access Products" on products;
+drop policy if exists "Public Access Settings" on store_settings;
+drop policy if exists "Public Access Payments" on payment_methods;
+drop policy if exists "Public Access Vouchers" on vouchers;
+drop policy if exists "Public Access Affiliates" on affiliates;
+drop policy if exists "Public Access Orders" on orders;
+drop policy if exists "Public Access Customers" on customers;
+drop policy if exists "Public Access Product Files" on product_files;
+drop policy if exists "Public Access Download Logs" on download_logs;
+drop policy if exists "Public Access Referral Clicks" on referral_clicks;
+drop policy if exists "Public Access Affiliate Payouts" on affiliate_payouts;
+drop policy if exists "Public Access Commissions" on commissions;
+drop policy if exists "Public Access Payout Batches" on payout_batches;
+
+-- Role claims come from the auth edge function (app_metadata is only writable by the service role)
+create or replace function app_role() returns text language sql stable as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'GUEST')
+$$;
+create or replace function app_account_id() returns text language sql stable as $$
+  select auth.jwt() -> 'app_metadata' ->> 'account_id'
+$$;
+create or replace function is_admin() returns boolean language sql stable as $$
+  select app_role() = 'ADMIN'
+$$;
+
+-- Public views run as their owner, so they expose only the listed columns to visitors
+create or replace view store_profile as
+  select id, store_name, address, whatsapp, email, description, logo_url, tripay_mode,
+    (coalesce(tripay_api_key, '') <> '' and coalesce(tripay_private_key, '') <> '' and coalesce(tripay_merchant_code, '') <> '') as tripay_enabled,
+    download_link_ttl_minutes, download_limit
+  from store_settings;
+create or replace view affiliate_directory as
+  select id, code, name, commission_rate, is_active from affiliates where is_active;
+grant select on store_profile, affiliate_directory to anon, authenticated;
+
+-- Catalog: everyone reads, only admins write
+drop policy if exists "Read Products" on products;
+create policy "Read Products" on products for select using (true);
+drop policy if exists "Admin Products" on products;
+create policy "Admin Products" on products for all using (is_admin()) with check (is_admin());
+drop policy if exists "Read Payments" on payment_methods;
+create policy "Read Payments" on payment_methods for select using (true);
+drop policy if exists "Admin Payments" on payment_methods;
+create policy "Admin Payments" on payment_methods for all using (is_admin()) with check (is_admin());
+drop policy if exists "Read Vouchers" on vouchers;
+create policy "Read Vouchers" on vouchers for select using (true);
+drop policy if exists "Admin Vouchers" on vouchers;
+create policy "Admin Vouchers" on vouchers for all using (is_admin()) with check (is_admin());
+
+-- Secrets and deliverables: admins only (edge functions use the service role)
+drop policy if exists "Admin Settings" on store_settings;
+create policy "Admin Settings" on store_settings for all using (is_admin()) with check (is_admin());
+drop policy if exists "Admin Product Files" on product_files;
+create policy "Admin Product Files" on product_files for all using (is_admin()) with check (is_admin());
+drop policy if exists "Admin Payout Batches" on payout_batches;
+create policy "Admin Payout Batches" on payout_batches for all using (is_admin()) with check (is_admin());
+
+-- Accounts: admins manage, members see their own row
+drop policy if exists "Admin Customers" on customers;
+create policy "Admin Customers" on customers for all using (is_admin()) with check (is_admin());
+drop policy if exists "Own Customer" on customers;
+create policy "Own Customer" on customers for select using (app_role() = 'CUSTOMER' and id = app_account_id());
+drop policy if exists "Admin Affiliates" on affiliates;
+create policy "Admin Affiliates" on affiliates for all using (is_admin()) with check (is_admin());
+drop policy if exists "Own Affiliate" on affiliates;
+create policy "Own Affiliate" on affiliates for select using (app_role() = 'AFFILIATE' and id = app_account_id());
+drop policy if exists "Own Affiliate Update" on affiliates;
+create policy "Own Affiliate Update" on affiliates for update using (app_role() = 'AFFILIATE' and id = app_account_id()) with check (id = app_account_id());
+
+-- Affiliates may only change their payout account, nothing that affects money or access
+create or replace function protect_affiliate_columns() returns trigger language plpgsql as $$
+begin
+  if not is_admin() and coalesce(auth.jwt() ->> 'role', '') <> 'service_role' then
+    new.code := old.code;
+    new.password := old.password;
+    new.commission_rate := old.commission_rate;
+    new.total_earnings := old.total_earnings;
+    new.is_active := old.is_active;
+  end if;
+  return new;
+end $$;
+drop trigger if exists affiliates_protect_columns on affiliates;
+create trigger affiliates_protect_columns before update on affiliates for each row execute function protect_affiliate_columns();
+
+-- Orders: customers place and read their own, affiliates read the ones they referred
+drop policy if exists "Admin Orders" on orders;
+create policy "Admin Orders" on orders for all using (is_admin()) with check (is_admin());
+drop policy if exists "Own Orders" on orders;
+create policy "Own Orders" on orders for select using (app_role() = 'CUSTOMER' and customer_id = app_account_id());
+drop policy if exists "Place Own Orders" on orders;
+create policy "Place Own Orders" on orders for insert with check (app_role() = 'CUSTOMER' and customer_id = app_account_id() and status = 'PENDING');
+drop policy if exists "Referred Orders" on orders;
+create policy "Referred Orders" on orders for select using (app_role() = 'AFFILIATE' and affiliate_id = app_account_id());
+drop policy if exists "Admin Download Logs" on download_logs;
+create policy "Admin Download Logs" on download_logs for all using (is_admin()) with check (is_admin());
+drop policy if exists "Own Download Logs" on download_logs;
+create policy "Own Download Logs" on download_logs for select using (exists (select 1 from orders o where o.id = order_id and o.customer_id = app_account_id()));
+
+-- Affiliate ledger: affiliates read their own entries; a customer may only open the pending
+-- commission that matches their own order and the affiliate's current rate
+drop policy if exists "Admin Commissions" on commissions;
+create policy "Admin Commissions" on commissions for all using (is_admin()) with check (is_admin());
+drop policy if exists "Own Commissions" on commissions;
+create policy "Own Commissions" on commissions for select using (app_role() = 'AFFILIATE' and affiliate_id = app_account_id());
+drop policy if exists "Checkout Commissions" on commissions;
+create policy "Checkout Commissions" on commissions for insert with check (
+  app_role() = 'CUSTOMER' and status = 'PENDING' and payout_id is null and exists (
+    select 1 from orders o join affiliate_directory a on a.id = o.affiliate_id
+    where o.id = order_id and o.customer_id = app_account_id() and a.id = affiliate_id
+      and base_amount = o.total and rate = a.commission_rate and amount = round(o.total * a.commission_rate / 100)
+  )
+);
+drop policy if exists "Admin Affiliate Payouts" on affiliate_payouts;
+create policy "Admin Affiliate Payouts" on affiliate_payouts for all using (is_admin()) with check (is_admin());
+drop policy if exists "Own Affiliate Payouts" on affiliate_payouts;
+create policy "Own Affiliate Payouts" on affiliate_payouts for select using (app_role() = 'AFFILIATE' and affiliate_id = app_account_id());
+drop policy if exists "Admin Referral Clicks" on referral_clicks;
+create policy "Admin Referral Clicks" on referral_clicks for all using (is_admin()) with check (is_admin());
+drop policy if exists "Own Referral Clicks" on referral_clicks;
+create policy "Own Referral Clicks" on referral_clicks for select using (app_role() = 'AFFILIATE' and affiliate_id = app_account_id());
+drop policy if exists "Record Referral Clicks" on referral_clicks;
+create policy "Record Referral Clicks" on referral_clicks for insert with check (true);`,
+  },
+  {
+    version: 9,
+    name: 'sync_versions',
+    // Row versions for conflict detection; deletes become tombstones so other browsers learn about them
+    sql: `create or replace function touch_updated_at() returns trigger language plpgsql as $$
+begin
+  new.updated_at := timezone('utc'::text, now());
+  return new;
+end $$;
+
+do $$
+declare t text;
+begin
+  foreach t in array array['products', 'payment_methods', 'vouchers', 'affiliates', 'customers', 'orders', 'commissions', 'affiliate_payouts', 'payout_batches'] loop
+    execute format('alter table %I add column if not exists updated_at timestamp with time zone default timezone(''utc''::text, now()) not null', t);
+    execute format('alter table %I add column if not exists deleted_at timestamp with time zone', t);
+    execute format('drop trigger if exists %I on %I', t || '_touch_updated_at', t);
+    execute format('create trigger %I before update on %I for each row execute function touch_updated_at()', t || '_touch_updated_at', t);
+  end loop;
+end $$;
+
+-- Codes and numbers only need to be unique among live rows, so they can be reused after a delete
+alter table vouchers drop constraint if exists vouchers_code_key;
+create unique index if not exists vouchers_code_live on vouchers (code) where deleted_at is null;
+alter table affiliates drop constraint if exists affiliates_code_key;
+create unique index if not exists affiliates_code_live on affiliates (code) where deleted_at is null;
+alter table customers drop constraint if exists customers_whatsapp_key;
+create unique index if not exists customers_whatsapp_live on customers (whatsapp) where deleted_at is null;
+
+-- Deleted affiliates no longer attribute referrals
+create or replace view affiliate_directory as
+  select id, code, name, commission_rate, is_active from affiliates where is_active and deleted_at is null;`,
+  },
+  {
+    version: 10,
+    name: 'realtime_publication',
+    // Live updates in the app; realtime still applies each subscriber's row-level security
+    sql: `do $$
+declare t text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+  foreach t in array array['orders', 'customers', 'products', 'vouchers'] loop
+    if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t) then
+      execute format('alter publication supabase_realtime add table %I', t);
+    end if;
+  end loop;
+end $$;`,
+  },
+  {
+    version: 11,
+    name: 'voucher_rules',
+    sql: `alter table vouchers add column if not exists starts_at timestamp with time zone;
+alter table vouchers add column if not exists ends_at timestamp with time zone;
+alter table vouchers add column if not exists min_subtotal numeric;
+alter table vouchers add column if not exists max_discount numeric;
+alter table vouchers add column if not exists usage_limit integer;
+alter table vouchers add column if not exists per_customer_limit integer;
+alter table vouchers add column if not exists product_ids jsonb default '[]'::jsonb not null;
+alter table vouchers add column if not exists categories jsonb default '[]'::jsonb not null;
+
+-- Redemptions point at the voucher row, since codes can be reused after a delete
+alter table orders add column if not exists voucher_id text;
+update orders o set voucher_id = v.id from vouchers v where o.voucher_id is null and o.voucher_code = v.code and v.deleted_at is null;
+
+-- Counts only (no order details), so customers can check a voucher's total quota
+create or replace view voucher_usage as
+  select voucher_id, count(*) as used from orders
+  where voucher_id is not null and status <> 'CANCELLED' and deleted_at is null
+  group by voucher_id;
+grant select on voucher_usage to anon, authenticated;`,
+  },
+  {
+    version: 12,
+    name: 'tax_and_pricing',
+    sql: `alter table store_settings add column if not exists tax_rate numeric default 0;
+alter table store_settings add column if not exists tax_inclusive boolean default false;
+alter table store_settings add column if not exists tax_label text default 'PPN';
+
+-- Visitors need the tax settings to show checkout totals (new columns go last in a replaced view)
+create or replace view store_profile as
+  select id, store_name, address, whatsapp, email, description, logo_url, tripay_mode,
+    (coalesce(tripay_api_key, '') <> '' and coalesce(tripay_private_key, '') <> '' and coalesce(tripay_merchant_code, '') <> '') as tripay_enabled,
+    download_link_ttl_minutes, download_limit, tax_rate, tax_inclusive, tax_label
+  from store_settings;
+
+alter table orders add column if not exists tax_amount numeric default 0;
+alter table orders add column if not exists pricing jsonb;
+
+-- Commission is earned on the order total without the tax
+drop policy if exists "Checkout Commissions" on commissions;
+create policy "Checkout Commissions" on commissions for insert with check (
+  app_role() = 'CUSTOMER' and status = 'PENDING' and payout_id is null and exists (
+    select 1 from orders o join affiliate_directory a on a.id = o.affiliate_id
+    where o.id = order_id and o.customer_id = app_account_id() and a.id = affiliate_id
+      and base_amount = o.total - coalesce(o.tax_amount, 0) and rate = a.commission_rate
+      and amount = round((o.total - coalesce(o.tax_amount, 0)) * a.commission_rate / 100)
+  )
+);`,
+  },
+  {
+    version: 13,
+    name: 'single_license_products',
+    sql: `alter table products add column if not exists single_license boolean default false;`,
+  },
+  {
+    version: 14,
+    name: 'product_variants',
+    sql: `-- License tiers; their files stay in the admin-only product_files table
+alter table products add column if not exists variants jsonb default '[]'::jsonb not null;
+alter table product_files add column if not exists variant_files jsonb default '{}'::jsonb not null;
+alter table download_logs add column if not exists variant_id text;
+drop index if exists download_logs_order_idx;
+create index if not exists download_logs_order_idx on download_logs (order_id, product_id, variant_id);`,
+  },
+  {
+    version: 15,
+    name: 'product_bundles',
+    sql: `alter table products add column if not exists bundle_items jsonb default '[]'::jsonb not null;`,
+  },
+  {
+    version: 16,
+    name: 'product_pages',
+    sql: `alter table products add column if not exists slug text;
+alter table products add column if not exists gallery jsonb default '[]'::jsonb not null;
+alter table products add column if not exists preview_url text;
+
+-- Existing products get a slug from their name, suffixed with the id where names collide
+update products set slug = nullif(trim(both '-' from regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g')), '') where slug is null;
+update products p set slug = p.slug || '-' || left(p.id, 8)
+  where exists (select 1 from products q where q.slug = p.slug and q.id < p.id and q.deleted_at is null);
+create unique index if not exists products_slug_key on products (slug) where deleted_at is null and slug is not null;`,
+  },
+  {
+    version: 17,
+    name: 'product_reviews',
+    sql: `alter table store_settings add column if not exists auto_popular boolean default false;
+
+-- One review per customer and product, from a paid order that contains it (directly or in a bundle)
+create table if not exists product_reviews (
+  id text primary key,
+  product_id text not null references products(id) on delete cascade,
+  customer_id text not null,
+  customer_name text not null,
+  order_id text not null references orders(id) on delete cascade,
+  rating integer not null check (rating between 1 and 5),
+  comment text default '' not null,
+  is_hidden boolean default false not null,
+  reply text,
+  replied_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  deleted_at timestamp with time zone
+);
+create unique index if not exists product_reviews_customer_key on product_reviews (product_id, customer_id) where deleted_at is null;
+drop trigger if exists product_reviews_touch_updated_at on product_reviews;
+create trigger product_reviews_touch_updated_at before update on product_reviews for each row execute function touch_updated_at();
+alter table product_reviews enable row level security;
+
+create or replace function is_verified_purchase(p_order_id text, p_product_id text) returns boolean language sql stable as $$
+  select exists (
+    select 1 from orders o, jsonb_array_elements(o.items) i
+    where o.id = p_order_id and o.customer_id = app_account_id() and o.status in ('PAID', 'COMPLETED') and o.deleted_at is null
+      and (i->>'id' = p_product_id or coalesce(i->'bundleItems', '[]'::jsonb) @> jsonb_build_array(jsonb_build_object('productId', p_product_id)))
+  )
+$$;
+
+-- Moderation (hiding, replies) is the admin's; a customer editing their review keeps it
+create or replace function keep_review_moderation() returns trigger language plpgsql as $$
+begin
+  if not is_admin() then
+    new.is_hidden := old.is_hidden;
+    new.reply := old.reply;
+    new.replied_at := old.replied_at;
+  end if;
+  return new;
+end $$;
+drop trigger if exists product_reviews_keep_moderation on product_reviews;
+create trigger product_reviews_keep_moderation before update on product_reviews for each row execute function keep_review_moderation();
+
+drop policy if exists "Read Reviews" on product_reviews;
+create policy "Read Reviews" on product_reviews for select using (not is_hidden or customer_id = app_account_id());
+drop policy if exists "Admin Reviews" on product_reviews;
+create policy "Admin Reviews" on product_reviews for all using (is_admin()) with check (is_admin());
+drop policy if exists "Write Own Reviews" on product_reviews;
+create policy "Write Own Reviews" on product_reviews for insert with check (
+  app_role() = 'CUSTOMER' and customer_id = app_account_id() and not is_hidden and reply is null and is_verified_purchase(order_id, product_id)
+);
+drop policy if exists "Edit Own Reviews" on product_reviews;
+create policy "Edit Own Reviews" on product_reviews for update
+  using (app_role() = 'CUSTOMER' and customer_id = app_account_id())
+  with check (customer_id = app_account_id() and is_verified_purchase(order_id, product_id));`,
+  },
+  {
+    version: 18,
+    name: 'invoice_numbers',
+    sql: `alter table orders add column if not exists invoice_number text;
+alter table orders add column if not exists invoiced_at timestamp with time zone;
+create unique index if not exists orders_invoice_number_key on orders (invoice_number) where invoice_number is not null;
+
+-- Last number issued per year; only the trigger below writes it
+create table if not exists invoice_counters (
+  year integer primary key,
+  last_number integer not null
+);
+alter table invoice_counters enable row level security;
+
+-- Numbers are issued inside the transaction that marks the order paid (by the admin or the Tripay callback),
+-- so a failed update rolls the counter back too and the sequence has no gaps. Once issued, a number never changes.
+create or replace function assign_invoice_number() returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  issue_year integer;
+begin
+  if tg_op = 'UPDATE' then
+    new.invoice_number := old.invoice_number;
+    new.invoiced_at := old.invoiced_at;
+  else
+    new.invoice_number := null;
+    new.invoiced_at := null;
+  end if;
+  if new.invoice_number is null and new.status in ('PAID', 'COMPLETED') then
+    new.invoiced_at := timezone('utc'::text, now());
+    issue_year := extract(year from now() at time zone 'Asia/Jakarta')::integer;
+    insert into invoice_counters as c (year, last_number) values (issue_year, 1)
+      on conflict (year) do update set last_number = c.last_number + 1
+      returning 'INV/' || c.year || '/' || lpad(c.last_number::text, 6, '0') into new.invoice_number;
+  end if;
+  return new;
+end $$;
+drop trigger if exists orders_assign_invoice_number on orders;
+create trigger orders_assign_invoice_number before insert or update on orders for each row execute function assign_invoice_number();
+
+-- Orders paid before invoices existed get numbers now, oldest first
+do $$
+declare r record;
+begin
+  for r in select id from orders where invoice_number is null and status in ('PAID', 'COMPLETED') order by created_at loop
+    update orders set status = status where id = r.id;
+  end loop;
+end $$;`,
+  },
+  {
+    version: 19,
+    name: 'restore_invoice_numbers',
+    sql: `-- Restoring a backup inserts orders that already have invoice numbers. An admin insert keeps its
+-- number and moves the year's counter past it, so new invoices continue after the restored ones.
+create or replace function assign_invoice_number() returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  issue_year integer;
+begin
+  if tg_op = 'UPDATE' then
+    new.invoice_number := old.invoice_number;
+    new.invoiced_at := old.invoiced_at;
+  elsif is_admin() and new.invoice_number ~ '^[A-Z]+/[0-9]{4}/[0-9]+$' then
+    new.invoiced_at := coalesce(new.invoiced_at, timezone('utc'::text, now()));
+    insert into invoice_counters as c (year, last_number)
+      values (split_part(new.invoice_number, '/', 2)::integer, split_part(new.invoice_number, '/', 3)::integer)
+      on conflict (year) do update set last_number = greatest(c.last_number, excluded.last_number);
+  else
+    new.invoice_number := null;
+    new.invoiced_at := null;
+  end if;
+  if new.invoice_number is null and new.status in ('PAID', 'COMPLETED') then
+    new.invoiced_at := timezone('utc'::text, now());
+    issue_year := extract(year from now() at time zone 'Asia/Jakarta')::integer;
+    insert into invoice_counters as c (year, last_number) values (issue_year, 1)
+      on conflict (year) do update set last_number = c.last_number + 1
+      returning 'INV/' || c.year || '/' || lpad(c.last_number::text, 6, '0') into new.invoice_number;
+  end if;
+  return new;
+end $$;`,
+  },
+  {
+    version: 20,
+    name: 'server_checkout',
+    sql: `-- Orders and their commissions are placed by the place-order edge function, which prices them from the
+-- catalog. Customers can no longer insert them directly with a total of their own choosing.
+drop policy if exists "Place Own Orders" on orders;
+drop policy if exists "Checkout Commissions" on commissions;`,
+  },
+  {
+    version: 21,
+    name: 'voucher_limits',
+    sql: `-- Usage limits hold even when two buyers redeem the last use at the same moment: inserts for one voucher
+-- take turns on a lock and count what is already committed. Admin inserts (backup restore, import) are
+-- records of past orders and are not limited.
+create or replace function enforce_voucher_limits() returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v record;
+begin
+  if new.voucher_id is null or new.status = 'CANCELLED' or is_admin() then
+    return new;
+  end if;
+  perform pg_advisory_xact_lock(hashtext('voucher:' || new.voucher_id));
+  select usage_limit, per_customer_limit into v from vouchers where id = new.voucher_id;
+  if coalesce(v.usage_limit, 0) > 0 and (
+    select count(*) from orders where voucher_id = new.voucher_id and status <> 'CANCELLED' and deleted_at is null
+  ) >= v.usage_limit then
+    raise exception 'Kuota voucher sudah habis' using errcode = 'check_violation';
+  end if;
+  if coalesce(v.per_customer_limit, 0) > 0 and (
+    select count(*) from orders where voucher_id = new.voucher_id and status <> 'CANCELLED' and deleted_at is null
+      and (customer_id = new.customer_id or (customer_id is null and customer_whatsapp = new.customer_whatsapp))
+  ) >= v.per_customer_limit then
+    raise exception 'Anda sudah mencapai batas pemakaian voucher ini' using errcode = 'check_violation';
+  end if;
+  return new;
+end $$;
+drop trigger if exists orders_enforce_voucher_limits on orders;
+create trigger orders_enforce_voucher_limits before insert on orders for each row execute function enforce_voucher_limits();`,
+  },
+  {
+    version: 22,
+    name: 'void_order_commission',
+    sql: `-- Voids the commission of a cancelled order and takes it out of the draft payout it was reserved for, all in
+-- one transaction (the server-side counterpart of CommissionService.applyOrderStatus + PayoutService.reconcile).
+-- Called by the tripay-callback edge function; not open to app users.
+create or replace function void_order_commission(p_order_id text) returns void language plpgsql security definer set search_path = public as $$
+declare
+  entry record;
+  payout record;
+  remaining jsonb;
+begin
+  for entry in
+    select id, amount, payout_id from commissions
+    where order_id = p_order_id and status in ('PENDING', 'APPROVED') and deleted_at is null
+    for update
+  loop
+    update commissions set status = 'VOID', payout_id = null where id = entry.id;
+    if entry.payout_id is null then
+      continue;
+    end if;
+    select id, batch_id, commission_ids into payout from affiliate_payouts where id = entry.payout_id and status = 'PENDING' for update;
+    if not found then
+      continue;
+    end if;
+    select coalesce(jsonb_agg(c), '[]'::jsonb) into remaining
+      from jsonb_array_elements(coalesce(payout.commission_ids, '[]'::jsonb)) c where c <> to_jsonb(entry.id);
+    update affiliate_payouts set commission_ids = remaining, amount = amount - entry.amount,
+      status = case when jsonb_array_length(remaining) = 0 then 'CANCELLED' else 'PENDING' end
+      where id = payout.id;
+    update payout_batches set total_amount = total_amount - entry.amount where id = payout.batch_id and status = 'DRAFT';
+  end loop;
+end $$;
+revoke execute on function void_order_commission(text) from public, anon, authenticated;
+grant execute on function void_order_commission(text) to service_role;`,
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const MigrationService = {
+  pending: (appliedVersions: number[]): Migration[] => MIGRATIONS.filter(m => !appliedVersions.includes(m.version)),
+
+  // One transaction for the whole run; each migration records itself in schema_version
+  script: (migrations: Migration[]): string => [
+    'begin;',
+    SCHEMA_VERSION_SQL,
+    ...migrations.map(m => `-- ${String(m.version).padStart(4, '0')}_${m.name}\n${m.sql}\ninsert into schema_version (version, name) values (${m.version}, '${m.name}') on conflict (version) do nothing;`),
+    'commit;',
+  ].join('\n\n'),
+};
@@ -0,0 +1,47 @@
+import { Order, OrderStatus } from '../types';
+
+// Allowed status workflow: PENDING -> PAID -> COMPLETED, with cancellation before completion
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PAID', 'CANCELLED'],
+  PAID: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+export const ORDER_STATUSES: OrderStatus[] = ['PENDING', 'PAID', 'COMPLETED', 'CANCELLED'];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  PENDING: 'Menunggu Pembayaran',
+  PAID: 'Dibayar',
+  COMPLETED: 'Selesai',
+  CANCELLED: 'Dibatalkan',
+};
+
+export const ORDER_STATUS_STYLES: Record<OrderStatus, string> = {
+  PENDING: 'bg-yellow-500/20 text-yellow-400',
+  PAID: 'bg-green-500/20 text-green-400',
+  COMPLETED: 'bg-blue-500/20 text-blue-400',
+  CANCELLED: 'bg-red-500/20 text-red-400',
+};
+
+export const OrderService = {
+  nextStatuses: (status: OrderStatus): OrderStatus[] => TRANSITIONS[status] || [],
+
+  canTransition: (from: OrderStatus, to: OrderStatus): boolean => (TRANSITIONS[from] || []).includes(to),
+
+  // Paid covers orders that were completed afterwards too
+  isPaid: (order: Pick<Order, 'status'>): boolean => order.status === 'PAID' || order.status === 'COMPLETED',
+
+  // Returns a copy of the order with the new status and an audit entry appended.
+  // Only the status fields are needed, e.g. for a raw database row.
+  changeStatus: <T extends Pick<Order, 'status' | 'statusHistory'>>(order: T, to: OrderStatus, changedBy: string): T => {
+    if (!OrderService.canTransition(order.status, to)) {
+      throw new Error(`Status ${order.status} tidak bisa diubah ke ${to}`);
+    }
+    return {
+      ...order,
+      status: to,
+      statusHistory: [...(order.statusHistory || []), { from: order.status, to, changedBy, changedAt: new Date().toISOString() }],
+    };
+  },
+};
@@ -0,0 +1,35 @@
+import { safeEqual } from './cryptoUtils';
+
+// Stored format: pbkdf2$<iterations>$<salt base64>$<hash base64>
+const PREFIX = 'pbkdf2';
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: BufferSource, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return toBase64(new Uint8Array(bits));
+};
+
+export const PasswordService = {
+  isHashed: (stored: string | undefined): boolean => !!stored && stored.startsWith(`${PREFIX}$`),
+
+  hash: async (password: string): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    return `${PREFIX}$${ITERATIONS}$${toBase64(salt)}$${await derive(password, salt, ITERATIONS)}`;
+  },
+
+  // Legacy records hold the password in plain text; those still verify but report needsRehash
+  // so the caller can replace them with a hash after a successful login.
+  verify: async (password: string, stored: string | undefined): Promise<{ valid: boolean; needsRehash: boolean }> => {
+    if (!stored) return { valid: false, needsRehash: false };
+    if (!PasswordService.isHashed(stored)) return { valid: safeEqual(password, stored), needsRehash: true };
+    const [, iterations, salt, hash] = stored.split('$');
+    const valid = safeEqual(await derive(password, fromBase64(salt), Number(iterations)), hash);
+    return { valid, needsRehash: valid && Number(iterations) < ITERATIONS };
+  },
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Affiliate, Commission, Order } from '../types';
+import { CommissionService } from './commissionService';
+import { PayoutService } from './payoutService';
+
+const affiliate = (id: string): Affiliate => ({
+  id, name: `Partner ${id}`, code: id.toUpperCase(), password: '', commissionRate: 10, totalEarnings: 0, bankDetails: `BCA 1234567890 a.n. ${id}`, isActive: true,
+});
+
+const commission = (id: string, affiliateId: string, amount: number, status: Commission['status'] = 'APPROVED'): Commission => ({
+  id, affiliateId, orderId: `order_${id}`, baseAmount: amount * 10, rate: 10, amount, status, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const sequence = () => {
+  let n = 0;
+  return () => `id_${++n}`;
+};
+
+// Draft with partner a owed 30000 + 40000 and partner b owed 60000
+const draft = () => PayoutService.createDraft(
+  [commission('c1', 'a', 30000), commission('c2', 'a', 40000), commission('c3', 'b', 60000), commission('c4', 'b', 5000, 'PENDING')],
+  [affiliate('a'), affiliate('b')], 50000, 'Admin', sequence(),
+);
+
+const voidEntry = (commissions: Commission[], id: string) => commissions.map(c => c.id === id ? { ...c, status: 'VOID' as const, payoutId: undefined } : c);
+
+describe('PayoutService.confirm', () => {
+  it('pays every reserved entry of an untouched batch', () => {
+    const { batch, payouts, commissions } = draft();
+    const result = PayoutService.confirm(batch, payouts, commissions, 'Admin');
+    expect(result.batch).toMatchObject({ status: 'CONFIRMED', totalAmount: 130000, confirmedBy: 'Admin' });
+    expect(result.payouts.map(p => [p.status, p.amount])).toEqual([['PAID', 70000], ['PAID', 60000]]);
+    expect(result.commissions.map(c => c.status)).toEqual(['PAID', 'PAID', 'PAID', 'PENDING']);
+    expect(result.released).toEqual([]);
+  });
+
+  it('leaves out entries voided after the draft and pays the rest', () => {
+    const { batch, payouts, commissions } = draft();
+    const result = PayoutService.confirm(batch, payouts, voidEntry(commissions, 'c2'), 'Admin');
+    expect(result.batch.totalAmount).toBe(90000);
+    expect(result.payouts[0]).toMatchObject({ status: 'PAID', amount: 30000, commissionIds: ['c1'] });
+    expect(result.commissions.find(c => c.id === 'c2')).toMatchObject({ status: 'VOID', payoutId: undefined });
+    expect(result.released.map(c => c.id)).toEqual(['c2']);
+  });
+
+  it('releases voided entries that are still marked as reserved', () => {
+    const { batch, payouts, commissions } = draft();
+    const stale = commissions.map(c => c.id === 'c3' ? { ...c, status: 'VOID' as const } : c);
+    const result = PayoutService.confirm(batch, payouts, stale, 'Admin');
+    expect(result.commissions.find(c => c.id === 'c3')).toMatchObject({ status: 'VOID', payoutId: undefined });
+    expect(result.payouts[1]).toMatchObject({ status: 'CANCELLED', amount: 0, commissionIds: [] });
+    expect(result.batch.totalAmount).toBe(70000);
+  });
+
+  it('does not touch payouts of other batches', () => {
+    const first = draft();
+    const other = { ...first.payouts[0], id: 'other', batchId: 'other_batch' };
+    const result = PayoutService.confirm(first.batch, [...first.payouts, other], first.commissions, 'Admin');
+    expect(result.payouts.find(p => p.id === 'other')).toBe(other);
+  });
+});
+
+describe('PayoutService.reconcile', () => {
+  it('returns the batch unchanged when every entry is still payable', () => {
+    const { batch, payouts, commissions } = draft();
+    const result = PayoutService.reconcile(batch, payouts, commissions);
+    expect(result.payouts).toEqual(payouts);
+    expect(result.batch.totalAmount).toBe(batch.totalAmount);
+    expect(result.released).toEqual([]);
+  });
+
+  it('cancels payouts left without entries', () => {
+    const { batch, payouts, commissions } = draft();
+    const result = PayoutService.reconcile(batch, payouts, voidEntry(voidEntry(commissions, 'c1'), 'c2'));
+    expect(result.payouts[0]).toMatchObject({ status: 'CANCELLED', amount: 0 });
+    expect(result.batch.totalAmount).toBe(60000);
+  });
+});
+
+describe('PayoutService.reconcileDrafts', () => {
+  it('shrinks the draft payout of a cancelled order', () => {
+    const { batch, payouts, commissions } = draft();
+    const cancelled = { id: 'order_c2', status: 'CANCELLED' } as Order;
+    const result = PayoutService.reconcileDrafts([batch], payouts, CommissionService.applyOrderStatus(commissions, cancelled));
+    expect(result.batches[0].totalAmount).toBe(90000);
+    expect(result.payouts[0]).toMatchObject({ amount: 30000, commissionIds: ['c1'], status: 'PENDING' });
+    expect(result.commissions.find(c => c.id === 'c2')).toMatchObject({ status: 'VOID', payoutId: undefined });
+    expect(result.released.map(c => c.id)).toEqual(['c2']);
+  });
+
+  it('leaves batches that are no longer drafts alone', () => {
+    const { batch, payouts, commissions } = draft();
+    const confirmed = { ...batch, status: 'CONFIRMED' as const };
+    const result = PayoutService.reconcileDrafts([confirmed], payouts, voidEntry(commissions, 'c1'));
+    expect(result.batches[0]).toBe(confirmed);
+    expect(result.payouts).toBe(payouts);
+    expect(result.released).toEqual([]);
+  });
+});
+
+describe('PayoutService.toBankCsv', () => {
+  it('leaves out cancelled payouts', () => {
+    const { batch, payouts, commissions } = draft();
+    const current = PayoutService.reconcile(batch, payouts, voidEntry(commissions, 'c3'));
+    const lines = PayoutService.toBankCsv(current.batch, current.payouts, [affiliate('a'), affiliate('b')]).trim().split(/\r?\n/);
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('70000');
+  });
+});
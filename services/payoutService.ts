@@ -0,0 +1,124 @@
+import { Affiliate, AffiliatePayout, Commission, PayoutBatch } from '../types';
+import { toCsv } from './csvUtils';
+
+export const DEFAULT_PAYOUT_MINIMUM = 50000;
+
+export interface PayoutDraft {
+  batch: PayoutBatch;
+  payouts: AffiliatePayout[];
+  commissions: Commission[]; // Full ledger with included entries reserved for the batch
+  skipped: { affiliate: Affiliate; amount: number; reason: string }[];
+}
+
+// Best-effort split of free-text bank details like "BCA 1234567890 a.n. Budi"
+export const parseBankDetails = (details: string): { bank: string; account: string; holder: string } => {
+  const match = details.trim().match(/^([A-Za-z][\w.\- ]*?)\s*[:\-]?\s*([\d][\d\s\-.]{4,})\s*(?:(?:a\.?\s*n\.?|an|atas nama)\s*(.+))?$/i);
+  if (!match) return { bank: '', account: details.trim(), holder: '' };
+  return { bank: match[1].trim(), account: match[2].replace(/[\s\-.]/g, ''), holder: (match[3] || '').trim() };
+};
+
+export const PayoutService = {
+  // Commissions that are approved and not yet reserved by another batch
+  payable: (commissions: Commission[]): Commission[] => commissions.filter(c => c.status === 'APPROVED' && !c.payoutId),
+
+  // Groups payable commissions into one payout per affiliate that meets the minimum
+  createDraft: (commissions: Commission[], affiliates: Affiliate[], minimumAmount: number, createdBy: string, newId: () => string): PayoutDraft => {
+    const now = new Date().toISOString();
+    const batch: PayoutBatch = { id: newId(), status: 'DRAFT', minimumAmount, totalAmount: 0, createdBy, createdAt: now };
+    const payable = PayoutService.payable(commissions);
+    const payouts: AffiliatePayout[] = [];
+    const skipped: PayoutDraft['skipped'] = [];
+    const reserved = new Map<string, string>();
+
+    affiliates.forEach(affiliate => {
+      const entries = payable.filter(c => c.affiliateId === affiliate.id);
+      const amount = entries.reduce((sum, c) => sum + c.amount, 0);
+      if (entries.length === 0) return;
+      if (amount < minimumAmount) return skipped.push({ affiliate, amount, reason: 'Di bawah minimum' });
+      if (!affiliate.bankDetails?.trim()) return skipped.push({ affiliate, amount, reason: 'Rekening belum diisi' });
+      const payout: AffiliatePayout = { id: newId(), batchId: batch.id, affiliateId: affiliate.id, amount, bankDetails: affiliate.bankDetails.trim(), commissionIds: entries.map(c => c.id), status: 'PENDING', createdAt: now };
+      payouts.push(payout);
+      entries.forEach(c => reserved.set(c.id, payout.id));
+    });
+
+    batch.totalAmount = payouts.reduce((sum, p) => sum + p.amount, 0);
+    return {
+      batch,
+      payouts,
+      commissions: commissions.map(c => reserved.has(c.id) ? { ...c, payoutId: reserved.get(c.id), updatedAt: now } : c),
+      skipped,
+    };
+  },
+
+  // Takes entries that can no longer be paid (e.g. voided by a cancelled order) out of a draft batch:
+  // their payouts and the batch total shrink, and payouts left without entries are cancelled
+  reconcile: (batch: PayoutBatch, payouts: AffiliatePayout[], commissions: Commission[]) => {
+    const now = new Date().toISOString();
+    const ledger = new Map(commissions.map(c => [c.id, c]));
+    const released = new Map<string, string>(); // Commission id -> payout it leaves
+    const updated = payouts.map(p => {
+      if (p.batchId !== batch.id || p.status !== 'PENDING') return p;
+      const kept = p.commissionIds.filter(id => ledger.get(id)?.status === 'APPROVED' && ledger.get(id)?.payoutId === p.id);
+      if (kept.length === p.commissionIds.length) return p;
+      p.commissionIds.filter(id => !kept.includes(id)).forEach(id => released.set(id, p.id));
+      const amount = kept.reduce((sum, id) => sum + ledger.get(id)!.amount, 0);
+      return { ...p, commissionIds: kept, amount, status: kept.length ? p.status : 'CANCELLED' as const };
+    });
+    return {
+      batch: { ...batch, totalAmount: updated.filter(p => p.batchId === batch.id && p.status === 'PENDING').reduce((sum, p) => sum + p.amount, 0) },
+      payouts: updated,
+      commissions: commissions.map(c => c.payoutId && released.get(c.id) === c.payoutId ? { ...c, payoutId: undefined, updatedAt: now } : c),
+      released: commissions.filter(c => released.has(c.id)),
+    };
+  },
+
+  // reconcile for every draft batch, e.g. after orders were cancelled
+  reconcileDrafts: (batches: PayoutBatch[], payouts: AffiliatePayout[], commissions: Commission[]) => batches
+    .filter(b => b.status === 'DRAFT')
+    .reduce((acc, batch) => {
+      const result = PayoutService.reconcile(batch, acc.payouts, acc.commissions);
+      if (!result.released.length) return acc;
+      return {
+        batches: acc.batches.map(b => b.id === batch.id ? result.batch : b),
+        payouts: result.payouts,
+        commissions: result.commissions,
+        released: [...acc.released, ...result.released],
+      };
+    }, { batches, payouts, commissions, released: [] as Commission[] }),
+
+  // After the bank transfer went through: payouts and their ledger entries become PAID.
+  // Only entries still approved are paid; the rest leave the batch first (see reconcile).
+  confirm: (batch: PayoutBatch, payouts: AffiliatePayout[], commissions: Commission[], confirmedBy: string) => {
+    const now = new Date().toISOString();
+    const current = PayoutService.reconcile(batch, payouts, commissions);
+    const included = current.payouts.filter(p => p.batchId === batch.id && p.status === 'PENDING');
+    const ids = new Set(included.flatMap(p => p.commissionIds));
+    return {
+      batch: { ...current.batch, status: 'CONFIRMED' as const, confirmedBy, confirmedAt: now },
+      payouts: current.payouts.map(p => included.includes(p) ? { ...p, status: 'PAID' as const, paidAt: now } : p),
+      commissions: current.commissions.map(c => ids.has(c.id) && c.status === 'APPROVED' ? { ...c, status: 'PAID' as const, updatedAt: now } : c),
+      released: current.released,
+    };
+  },
+
+  // Releases the reserved commissions; the batch itself is kept for audit
+  cancel: (batch: PayoutBatch, payouts: AffiliatePayout[], commissions: Commission[]) => {
+    const now = new Date().toISOString();
+    const ids = new Set(payouts.filter(p => p.batchId === batch.id).flatMap(p => p.commissionIds));
+    return {
+      batch: { ...batch, status: 'CANCELLED' as const },
+      payouts: payouts.map(p => p.batchId === batch.id ? { ...p, status: 'CANCELLED' as const } : p),
+      commissions: commissions.map(c => ids.has(c.id) && c.status === 'APPROVED' ? { ...c, payoutId: undefined, updatedAt: now } : c),
+    };
+  },
+
+  // Generic bulk-transfer sheet accepted by most Indonesian internet banking uploads
+  toBankCsv: (batch: PayoutBatch, payouts: AffiliatePayout[], affiliates: Affiliate[]): string => {
+    const rows = payouts.filter(p => p.batchId === batch.id && p.status !== 'CANCELLED').map((p, idx) => {
+      const affiliate = affiliates.find(a => a.id === p.affiliateId);
+      const bank = parseBankDetails(p.bankDetails);
+      return [idx + 1, bank.bank, bank.account, bank.holder || affiliate?.name || '', p.amount, `Komisi ${affiliate?.code || ''} ${batch.id.slice(0, 8)}`.trim(), p.bankDetails];
+    });
+    return toCsv(['No', 'Bank', 'No Rekening', 'Nama Penerima', 'Jumlah', 'Keterangan', 'Detail Rekening'], rows);
+  },
+};
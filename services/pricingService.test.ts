@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Voucher } from '../types';
+import { PricingService, TaxConfig } from './pricingService';
+
+const item = (id: string, price: number, quantity = 1, extra: Partial<CartItem> = {}): CartItem => ({
+  id, name: `Produk ${id}`, image: '', category: 'Ebook', description: '', price, quantity, ...extra,
+});
+
+const voucher = (type: Voucher['type'], value: number, extra: Partial<Voucher> = {}): Voucher => ({
+  id: `v_${type}_${value}`, code: 'HEMAT', type, value, isActive: true, ...extra,
+});
+
+const PPN_EXCLUSIVE: TaxConfig = { rate: 11, inclusive: false, label: 'PPN' };
+const PPN_INCLUSIVE: TaxConfig = { rate: 11, inclusive: true, label: 'PPN' };
+
+const lineDiscounts = (items: CartItem[], v: Voucher) => PricingService.quote({ items, voucher: v }).lines.map(l => l.discount);
+
+describe('PricingService.quote', () => {
+  it('adds up the lines without voucher, tax or referral', () => {
+    const quote = PricingService.quote({ items: [item('a', 50000, 2), item('b', 30000, 1, { discountPrice: 25000 })] });
+    expect(quote.lines.map(l => [l.unitPrice, l.quantity, l.amount])).toEqual([[50000, 2, 100000], [25000, 1, 25000]]);
+    expect(quote).toMatchObject({ subtotal: 125000, discount: 0, tax: 0, total: 125000, commission: 0, commissionRate: 0 });
+    expect(quote.voucherCode).toBeUndefined();
+  });
+
+  describe('discount split over lines', () => {
+    it('gives the remainder to the largest fractions so the shares add up', () => {
+      const items = [item('a', 10000), item('b', 20000), item('c', 30000)];
+      expect(lineDiscounts(items, voucher('FIXED', 1000))).toEqual([167, 333, 500]);
+    });
+
+    it('breaks ties between equal fractions by line order', () => {
+      const items = [item('a', 10000), item('b', 10000), item('c', 10000)];
+      expect(lineDiscounts(items, voucher('FIXED', 100))).toEqual([34, 33, 33]);
+    });
+
+    it('always sums to the order discount', () => {
+      const items = [item('a', 9999, 3), item('b', 12345), item('c', 1), item('d', 77777, 2)];
+      [voucher('FIXED', 12347), voucher('PERCENT', 7), voucher('PERCENT', 33, { maxDiscount: 41111 })].forEach(v => {
+        const quote = PricingService.quote({ items, voucher: v });
+        expect(quote.lines.reduce((sum, l) => sum + l.discount, 0)).toBe(quote.discount);
+        quote.lines.forEach(l => expect(l.discount).toBeLessThanOrEqual(l.amount));
+      });
+    });
+  });
+
+  describe('PERCENT vouchers', () => {
+    it('rounds the percentage half up', () => {
+      expect(PricingService.quote({ items: [item('a', 1005)], voucher: voucher('PERCENT', 10) }).discount).toBe(101);
+    });
+
+    it('caps the discount at maxDiscount', () => {
+      const quote = PricingService.quote({ items: [item('a', 200000)], voucher: voucher('PERCENT', 50, { maxDiscount: 25000 }) });
+      expect(quote).toMatchObject({ discount: 25000, total: 175000, voucherCode: 'HEMAT' });
+    });
+
+    it('leaves discounts under maxDiscount alone', () => {
+      expect(PricingService.quote({ items: [item('a', 100000)], voucher: voucher('PERCENT', 10, { maxDiscount: 25000 }) }).discount).toBe(10000);
+    });
+
+    it('clamps the rate to 100%', () => {
+      expect(PricingService.quote({ items: [item('a', 80000)], voucher: voucher('PERCENT', 150) })).toMatchObject({ discount: 80000, total: 0 });
+    });
+  });
+
+  describe('FIXED vouchers', () => {
+    it('never discounts more than the subtotal', () => {
+      const quote = PricingService.quote({ items: [item('a', 60000), item('b', 40000)], voucher: voucher('FIXED', 500000), tax: PPN_EXCLUSIVE });
+      expect(quote).toMatchObject({ subtotal: 100000, discount: 100000, tax: 0, total: 0 });
+      expect(quote.lines.map(l => l.discount)).toEqual([60000, 40000]);
+    });
+
+    it('ignores negative values', () => {
+      const quote = PricingService.quote({ items: [item('a', 60000)], voucher: voucher('FIXED', -5000) });
+      expect(quote).toMatchObject({ discount: 0, total: 60000 });
+      expect(quote.voucherCode).toBeUndefined();
+    });
+  });
+
+  describe('scoped vouchers', () => {
+    const items = [item('a', 100000), item('b', 50000, 1, { category: 'Template' })];
+
+    it('discounts only the products in scope', () => {
+      const quote = PricingService.quote({ items, voucher: voucher('PERCENT', 10, { productIds: ['a'] }) });
+      expect(quote.discount).toBe(10000);
+      expect(quote.lines.map(l => l.discount)).toEqual([10000, 0]);
+    });
+
+    it('discounts only the categories in scope', () => {
+      const quote = PricingService.quote({ items, voucher: voucher('PERCENT', 10, { categories: ['Template'] }) });
+      expect(quote.discount).toBe(5000);
+      expect(quote.lines.map(l => l.discount)).toEqual([0, 5000]);
+    });
+
+    it('caps a FIXED voucher at what the eligible lines are worth', () => {
+      const quote = PricingService.quote({ items, voucher: voucher('FIXED', 80000, { categories: ['Template'] }) });
+      expect(quote).toMatchObject({ discount: 50000, total: 100000 });
+      expect(quote.lines.map(l => l.discount)).toEqual([0, 50000]);
+    });
+
+    it('gives nothing when no line is in scope', () => {
+      const quote = PricingService.quote({ items, voucher: voucher('FIXED', 10000, { productIds: ['x'] }) });
+      expect(quote).toMatchObject({ discount: 0, total: 150000 });
+      expect(quote.voucherCode).toBeUndefined();
+    });
+  });
+
+  describe('tax', () => {
+    it('adds exclusive tax on top, rounded half up', () => {
+      expect(PricingService.quote({ items: [item('a', 99999)], tax: PPN_EXCLUSIVE })).toMatchObject({ tax: 11000, total: 110999, taxInclusive: false });
+      expect(PricingService.quote({ items: [item('a', 50)], tax: PPN_EXCLUSIVE })).toMatchObject({ tax: 6, total: 56 });
+    });
+
+    it('takes inclusive tax out of the price without changing the total', () => {
+      expect(PricingService.quote({ items: [item('a', 111000)], tax: PPN_INCLUSIVE })).toMatchObject({ tax: 11000, total: 111000, taxInclusive: true });
+      expect(PricingService.quote({ items: [item('a', 100000)], tax: PPN_INCLUSIVE })).toMatchObject({ tax: 9910, total: 100000 });
+    });
+
+    it('is charged on the amount after the discount', () => {
+      const items = [item('a', 100000)];
+      expect(PricingService.quote({ items, voucher: voucher('FIXED', 10000), tax: PPN_EXCLUSIVE })).toMatchObject({ tax: 9900, total: 99900 });
+      expect(PricingService.quote({ items, voucher: voucher('FIXED', 10000), tax: PPN_INCLUSIVE })).toMatchObject({ tax: 8919, total: 90000 });
+    });
+
+    it('reports the rate and label used', () => {
+      expect(PricingService.quote({ items: [item('a', 1000)], tax: PPN_INCLUSIVE })).toMatchObject({ taxRate: 11, taxLabel: 'PPN' });
+      expect(PricingService.quote({ items: [item('a', 1000)] })).toMatchObject({ taxRate: 0, tax: 0, taxInclusive: false });
+    });
+  });
+
+  describe('quantities and prices', () => {
+    it('drops lines with zero or negative quantities', () => {
+      const quote = PricingService.quote({ items: [item('a', 10000, 0), item('b', 20000, -2), item('c', 30000, 1)] });
+      expect(quote.lines.map(l => l.productId)).toEqual(['c']);
+      expect(quote).toMatchObject({ subtotal: 30000, total: 30000 });
+    });
+
+    it('counts whole units only', () => {
+      const quote = PricingService.quote({ items: [item('a', 10000, 2.7)] });
+      expect(quote.lines[0]).toMatchObject({ quantity: 2, amount: 20000 });
+    });
+
+    it('gives an empty cart a zero total', () => {
+      const quote = PricingService.quote({ items: [], voucher: voucher('FIXED', 10000), referral: { commissionRate: 10 }, tax: PPN_EXCLUSIVE });
+      expect(quote).toMatchObject({ lines: [], subtotal: 0, discount: 0, tax: 0, total: 0, commission: 0 });
+    });
+
+    it('treats negative prices as free', () => {
+      expect(PricingService.quote({ items: [item('a', -5000, 2)] }).subtotal).toBe(0);
+    });
+  });
+
+  describe('commission', () => {
+    it('leaves exclusive tax out of the commission base', () => {
+      const quote = PricingService.quote({ items: [item('a', 100000)], tax: PPN_EXCLUSIVE, referral: { commissionRate: 10 } });
+      expect(quote).toMatchObject({ total: 111000, commissionBase: 100000, commissionRate: 10, commission: 10000 });
+    });
+
+    it('leaves inclusive tax out of the commission base', () => {
+      const quote = PricingService.quote({ items: [item('a', 111000)], tax: PPN_INCLUSIVE, referral: { commissionRate: 10 } });
+      expect(quote).toMatchObject({ total: 111000, commissionBase: 100000, commission: 10000 });
+    });
+
+    it('is earned on the discounted amount', () => {
+      const quote = PricingService.quote({ items: [item('a', 100000)], voucher: voucher('PERCENT', 20), referral: { commissionRate: 15 } });
+      expect(quote).toMatchObject({ commissionBase: 80000, commission: 12000 });
+    });
+
+    it('clamps the rate to 0-100%', () => {
+      expect(PricingService.quote({ items: [item('a', 1000)], referral: { commissionRate: 150 } })).toMatchObject({ commissionRate: 100, commission: 1000 });
+      expect(PricingService.quote({ items: [item('a', 1000)], referral: { commissionRate: -5 } })).toMatchObject({ commissionRate: 0, commission: 0 });
+    });
+
+    it('matches the quote when recomputed from a stored order', () => {
+      const quote = PricingService.quote({ items: [item('a', 123457)], voucher: voucher('FIXED', 3333), tax: PPN_EXCLUSIVE });
+      expect(PricingService.commissionBase({ total: quote.total, taxAmount: quote.tax })).toBe(quote.commissionBase);
+      expect(PricingService.commissionBase({ total: 50000 })).toBe(50000);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { CartItem, Order, PriceBreakdown, PriceLine, StoreSettings, Voucher } from '../types';
+import { CartService } from './cartService';
+import { ProductService } from './productService';
+import { VoucherService } from './voucherService';
+
+// All amounts are whole rupiah. Each step rounds once (half up), and splits use the largest
+// remainder so the lines always add up to the totals shown.
+
+export interface TaxConfig {
+  rate: number; // Percent, e.g. 11 for PPN 11%
+  inclusive: boolean; // Catalog prices already contain the tax
+  label: string;
+}
+
+export interface QuoteInput {
+  items: CartItem[];
+  voucher?: Voucher | null; // Already validated (VoucherService.check)
+  referral?: { commissionRate: number } | null;
+  tax?: TaxConfig | null;
+}
+
+const rupiah = (value: number): number => Math.round(value);
+
+const clampPercent = (value: number): number => Math.min(100, Math.max(0, value || 0));
+
+// Splits amount over the weights into integers that sum to exactly amount
+const allocate = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (amount <= 0 || totalWeight <= 0) return weights.map(() => 0);
+  const exact = weights.map(w => (amount * w) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let remainder = amount - parts.reduce((sum, p) => sum + p, 0);
+  exact
+    .map((value, idx) => ({ idx, fraction: value - parts[idx] }))
+    .sort((a, b) => b.fraction - a.fraction || a.idx - b.idx)
+    .forEach(({ idx }) => { if (remainder > 0) { parts[idx]++; remainder--; } });
+  return parts;
+};
+
+export const PricingService = {
+  taxConfig: (settings: Pick<StoreSettings, 'taxRate' | 'taxInclusive' | 'taxLabel'>): TaxConfig | null =>
+    settings.taxRate ? { rate: clampPercent(settings.taxRate), inclusive: !!settings.taxInclusive, label: settings.taxLabel || 'PPN' } : null,
+
+  lines: (items: CartItem[]): PriceLine[] => items
+    .filter(item => item.quantity > 0)
+    .map(item => {
+      const unitPrice = Math.max(0, rupiah(ProductService.unitPrice(item)));
+      const quantity = Math.floor(item.quantity);
+      return { productId: item.id, variantId: item.variantId, name: CartService.displayName(item), unitPrice, quantity, amount: unitPrice * quantity, discount: 0 };
+    }),
+
+  // Percent of the eligible lines (capped by maxDiscount); never more than those lines are worth
+  voucherDiscount: (voucher: Voucher, items: CartItem[], lines: PriceLine[]): number => {
+    const eligibleIds = new Set(VoucherService.eligibleItems(voucher, items).map(item => item.id));
+    const eligible = lines.filter(l => eligibleIds.has(l.productId)).reduce((sum, l) => sum + l.amount, 0);
+    const raw = voucher.type === 'PERCENT' ? rupiah((eligible * clampPercent(voucher.value)) / 100) : rupiah(Math.max(0, voucher.value));
+    const capped = voucher.type === 'PERCENT' && voucher.maxDiscount ? Math.min(raw, rupiah(voucher.maxDiscount)) : raw;
+    return Math.min(capped, eligible);
+  },
+
+  commission: (base: number, rate: number): number => rupiah((Math.max(0, base) * clampPercent(rate)) / 100),
+
+  // For stored orders: commission is earned on what was paid, minus the tax collected
+  commissionBase: (order: Pick<Order, 'total' | 'taxAmount'>): number => order.total - (order.taxAmount || 0),
+
+  quote: ({ items, voucher, referral, tax }: QuoteInput): PriceBreakdown => {
+    const baseLines = PricingService.lines(items);
+    const subtotal = baseLines.reduce((sum, l) => sum + l.amount, 0);
+    const discount = voucher ? PricingService.voucherDiscount(voucher, items, baseLines) : 0;
+
+    // The discount is spread over the lines it applies to, in proportion to their amount
+    const eligibleIds = voucher ? new Set(VoucherService.eligibleItems(voucher, items).map(item => item.id)) : new Set<string>();
+    const shares = allocate(discount, baseLines.map(l => (eligibleIds.has(l.productId) ? l.amount : 0)));
+    const lines = baseLines.map((l, idx) => ({ ...l, discount: shares[idx] }));
+
+    const taxable = subtotal - discount;
+    const rate = tax?.rate || 0;
+    const taxAmount = !rate ? 0 : tax!.inclusive ? taxable - rupiah((taxable * 100) / (100 + rate)) : rupiah((taxable * rate) / 100);
+    const total = tax?.inclusive ? taxable : taxable + taxAmount;
+    const commissionBase = total - taxAmount;
+    const commissionRate = referral ? clampPercent(referral.commissionRate) : 0;
+
+    return {
+      lines,
+      subtotal,
+      discount,
+      voucherCode: discount > 0 ? voucher?.code : undefined,
+      tax: taxAmount,
+      taxRate: rate,
+      taxInclusive: !!tax?.inclusive,
+      taxLabel: tax?.label,
+      total,
+      commissionBase,
+      commissionRate,
+      commission: referral ? PricingService.commission(commissionBase, commissionRate) : 0,
+    };
+  },
+};
@@ -0,0 +1,102 @@
+import { BundleItem, Product, ProductVariant } from '../types';
+
+// Suggested names for license tiers; admins may use any name
+export const LICENSE_TIERS = ['Personal', 'Commercial', 'Extended'];
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export const ProductService = {
+  // What the buyer pays per unit of a product, variant or cart line
+  unitPrice: (item: Pick<ProductVariant, 'price' | 'discountPrice'>): number => item.discountPrice || item.price,
+
+  hasVariants: (product: Product): boolean => !!product.variants?.length,
+
+  variant: (product: Product, variantId?: string): ProductVariant | undefined =>
+    variantId ? product.variants?.find(v => v.id === variantId) : undefined,
+
+  // Preselected on the card: the cheapest tier
+  defaultVariant: (product: Product): ProductVariant | undefined =>
+    product.variants?.reduce<ProductVariant | undefined>((best, v) => !best || ProductService.unitPrice(v) < ProductService.unitPrice(best) ? v : best, undefined),
+
+  // Listing price follows the cheapest variant, so sorting and filters see what buyers pay at least
+  withVariantPrice: (product: Product): Product => {
+    const cheapest = ProductService.defaultVariant(product);
+    return cheapest ? { ...product, price: cheapest.price, discountPrice: cheapest.discountPrice } : product;
+  },
+
+  // Variants without their own file deliver the product's
+  fileUrl: (product: Product, variantId?: string): string | undefined =>
+    ProductService.variant(product, variantId)?.fileUrl || product.fileUrl,
+
+  isBundle: (product: Product): boolean => !!product.bundleItems?.length,
+
+  bundleItem: (product: Product, variantId?: string): BundleItem => {
+    const variant = ProductService.variant(product, variantId);
+    return { productId: product.id, ...(variant && { variantId: variant.id }), name: variant ? `${product.name} (${variant.name})` : product.name };
+  },
+
+  // What the bundle's items cost when bought one by one, at today's prices
+  bundleValue: (bundle: Product, products: Product[]): number => (bundle.bundleItems || []).reduce((sum, item) => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) return sum;
+    return sum + ProductService.unitPrice(ProductService.variant(product, item.variantId) || product);
+  }, 0),
+
+  bundleSavings: (bundle: Product, products: Product[]): number => Math.max(0, ProductService.bundleValue(bundle, products) - ProductService.unitPrice(bundle)),
+
+  slugify: (text: string): string => (text || '')
+    .toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'produk',
+
+  // The base slug, or base-2, base-3, ... when another product already uses it
+  uniqueSlug: (base: string, products: Product[], exceptId?: string): string => {
+    const taken = new Set(products.filter(p => p.id !== exceptId).map(p => p.slug).filter(Boolean));
+    const slug = ProductService.slugify(base);
+    if (!taken.has(slug)) return slug;
+    let n = 2;
+    while (taken.has(`${slug}-${n}`)) n++;
+    return `${slug}-${n}`;
+  },
+
+  // Products saved before slugs existed are still reachable by id
+  bySlug: (products: Product[], slug: string): Product | undefined =>
+    products.find(p => p.slug === slug) || products.find(p => p.id === slug),
+
+  path: (product: Product): string => `/product/${encodeURIComponent(product.slug || product.id)}`,
+
+  // Same category first, then products sharing a bundle; the popular ones lead
+  related: (product: Product, products: Product[], limit = 4): Product[] => {
+    const inSameBundle = (p: Product) => products.some(b => b.bundleItems?.some(i => i.productId === p.id) && b.bundleItems.some(i => i.productId === product.id));
+    return products
+      .filter(p => p.id !== product.id)
+      .map(p => ({ p, score: (p.category === product.category ? 2 : 0) + (inSameBundle(p) ? 1 : 0) + (p.isPopular ? 0.5 : 0) }))
+      .filter(r => r.score >= 1)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(r => r.p);
+  },
+
+  validateSlug: (slug: string, products: Product[], exceptId?: string): string | null => {
+    if (!SLUG_PATTERN.test(slug)) return 'Slug hanya boleh huruf kecil, angka dan tanda hubung (-)';
+    if (products.some(p => p.id !== exceptId && p.slug === slug)) return 'Slug sudah dipakai produk lain';
+    return null;
+  },
+
+  // Problems that block saving, for the admin form
+  validateVariants: (variants: ProductVariant[]): string | null => {
+    if (variants.some(v => !v.name.trim() || !v.price)) return 'Setiap varian wajib punya nama dan harga';
+    if (variants.some(v => v.discountPrice && v.discountPrice >= v.price)) return 'Harga diskon varian harus lebih kecil dari harga normal';
+    const names = variants.map(v => v.name.trim().toLowerCase());
+    if (new Set(names).size !== names.length) return 'Nama varian tidak boleh sama';
+    return null;
+  },
+
+  validateBundle: (items: BundleItem[], products: Product[]): string | null => {
+    if (items.length < 2) return 'Paket minimal berisi 2 produk';
+    if (items.some(item => !products.some(p => p.id === item.productId && !ProductService.isBundle(p)))) return 'Paket hanya boleh berisi produk yang ada (bukan paket lain)';
+    return null;
+  },
+};
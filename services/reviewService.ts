@@ -0,0 +1,62 @@
+import { Order, Product, ProductReview } from '../types';
+import { CatalogService } from './catalogService';
+import { OrderService } from './orderService';
+
+export const MAX_REVIEW_LENGTH = 1000;
+
+// How many products get the automatic "popular" flag
+export const POPULAR_LIMIT = 4;
+
+// Below this average a product isn't promoted, however well it sells
+const POPULAR_MIN_RATING = 3.5;
+
+export interface RatingSummary {
+  average: number; // One decimal; 0 without ratings
+  count: number;
+}
+
+export const ReviewService = {
+  // Products the buyer has paid for (bundles count for themselves and every item in them),
+  // each with the order that proves the purchase
+  purchases: (orders: Order[]): { productId: string; orderId: string }[] => {
+    const seen = new Map<string, string>();
+    orders.filter(OrderService.isPaid).forEach(order => order.items.forEach(item => {
+      [item.id, ...(item.bundleItems || []).map(b => b.productId)].forEach(id => { if (!seen.has(id)) seen.set(id, order.id); });
+    }));
+    return Array.from(seen, ([productId, orderId]) => ({ productId, orderId }));
+  },
+
+  own: (reviews: ProductReview[], customerId: string, productId: string): ProductReview | undefined =>
+    reviews.find(r => r.customerId === customerId && r.productId === productId),
+
+  // What the storefront shows: not hidden, newest first
+  forProduct: (reviews: ProductReview[], productId: string): ProductReview[] => reviews
+    .filter(r => r.productId === productId && !r.isHidden)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+  summary: (reviews: ProductReview[], productId: string): RatingSummary => {
+    const ratings = reviews.filter(r => r.productId === productId && !r.isHidden).map(r => r.rating);
+    if (!ratings.length) return { average: 0, count: 0 };
+    return { average: Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10, count: ratings.length };
+  },
+
+  validate: (rating: number, comment: string): string | null => {
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) return 'Pilih rating 1 sampai 5 bintang';
+    if (comment.length > MAX_REVIEW_LENGTH) return `Ulasan maksimal ${MAX_REVIEW_LENGTH} karakter`;
+    return null;
+  },
+
+  // The best sellers among paid orders, ties broken by rating, skipping poorly rated ones.
+  // Returns the same array when no flag changes, so callers can skip the update.
+  withPopular: (products: Product[], orders: Order[], reviews: ProductReview[]): Product[] => {
+    const sales = CatalogService.salesCount(orders.filter(OrderService.isPaid));
+    const popular = new Set(products
+      .map(p => ({ id: p.id, sold: sales.get(p.id) || 0, rating: ReviewService.summary(reviews, p.id) }))
+      .filter(r => r.sold > 0 && (!r.rating.count || r.rating.average >= POPULAR_MIN_RATING))
+      .sort((a, b) => b.sold - a.sold || b.rating.average - a.rating.average)
+      .slice(0, POPULAR_LIMIT)
+      .map(r => r.id));
+    if (products.every(p => !!p.isPopular === popular.has(p.id))) return products;
+    return products.map(p => !!p.isPopular === popular.has(p.id) ? p : { ...p, isPopular: popular.has(p.id) });
+  },
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Order } from '../types';
+import { PricingService } from './pricingService';
+import { TripayService } from './tripayService';
+
+describe('TripayService.orderStatusFor', () => {
+  const pending = { status: 'PENDING' as const, paymentReference: 'T1' };
+  const paid = { status: 'PAID' as const, paymentReference: 'T1' };
+
+  it('follows the order\'s own transaction', () => {
+    expect(TripayService.orderStatusFor({ status: 'PAID', reference: 'T1' }, pending)).toBe('PAID');
+    expect(TripayService.orderStatusFor({ status: 'EXPIRED', reference: 'T1' }, pending)).toBe('CANCELLED');
+    expect(TripayService.orderStatusFor({ status: 'FAILED', reference: 'T1' }, pending)).toBe('CANCELLED');
+    expect(TripayService.orderStatusFor({ status: 'UNPAID', reference: 'T1' }, pending)).toBeNull();
+  });
+
+  it('ignores other transactions for the same order', () => {
+    expect(TripayService.orderStatusFor({ status: 'PAID', reference: 'T2' }, pending)).toBeNull();
+    expect(TripayService.orderStatusFor({ status: 'EXPIRED', reference: 'T2' }, paid)).toBeNull();
+    expect(TripayService.orderStatusFor({ status: 'PAID', reference: 'T1' }, { status: 'PENDING' })).toBeNull();
+  });
+
+  it('never cancels an order that is no longer waiting for payment', () => {
+    expect(TripayService.orderStatusFor({ status: 'EXPIRED', reference: 'T1' }, paid)).toBeNull();
+    expect(TripayService.orderStatusFor({ status: 'FAILED', reference: 'T1' }, { status: 'COMPLETED', paymentReference: 'T1' })).toBeNull();
+  });
+});
+
+describe('TripayService.requestFor', () => {
+  const items = [
+    { id: 'a', name: 'Ebook', image: '', category: 'Ebook', description: '', price: 60000, quantity: 2 },
+    { id: 'b', name: 'Template', image: '', category: 'Template', description: '', price: 30000, quantity: 1, variantId: 'pro', variantName: 'Pro' },
+  ];
+  const pricing = PricingService.quote({ items, voucher: { id: 'v', code: 'HEMAT', type: 'FIXED', value: 10000, isActive: true }, tax: { rate: 11, inclusive: false, label: 'PPN' } });
+  const order: Order = { id: 'o1', items, total: pricing.total, customerName: 'Budi', customerWhatsapp: '0812', paymentMethod: 'Tripay', status: 'PENDING', date: '2026-01-01T00:00:00.000Z', pricing };
+
+  it('builds the request from the stored order', () => {
+    const request = TripayService.requestFor(order, 'QRIS', 'toko@example.com', 'https://toko/#/history');
+    expect(request).toMatchObject({ method: 'QRIS', merchantRef: 'o1', amount: 155400, customerName: 'Budi', customerPhone: '0812', customerEmail: 'toko@example.com' });
+    expect(request.items.map(i => i.sku)).toEqual(['a', 'b:pro', 'TAX']);
+  });
+
+  it('lists items that add up to the amount', () => {
+    const request = TripayService.requestFor(order, 'QRIS', '');
+    expect(request.items.reduce((sum, i) => sum + i.price * i.quantity, 0)).toBe(request.amount);
+  });
+});
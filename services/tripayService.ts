@@ -0,0 +1,175 @@
+import type { Order, StoreSettings } from '../types';
+import { hmacSha256, safeEqual } from './cryptoUtils';
+import { CartService } from './cartService';
+
+const TRIPAY_BASE_URLS = {
+  sandbox: 'https://tripay.co.id/api-sandbox',
+  production: 'https://tripay.co.id/api',
+};
+
+// Closed-payment channels offered at checkout
+export const TRIPAY_CHANNELS = [
+  { code: 'QRIS', name: 'QRIS' },
+  { code: 'BRIVA', name: 'BRI Virtual Account' },
+  { code: 'BNIVA', name: 'BNI Virtual Account' },
+  { code: 'MANDIRIVA', name: 'Mandiri Virtual Account' },
+  { code: 'BCAVA', name: 'BCA Virtual Account' },
+  { code: 'PERMATAVA', name: 'Permata Virtual Account' },
+  { code: 'ALFAMART', name: 'Alfamart' },
+  { code: 'INDOMARET', name: 'Indomaret' },
+];
+
+export interface TripayOrderItem {
+  sku?: string;
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface TripayTransactionRequest {
+  method: string;
+  merchantRef: string;
+  amount: number;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  items: TripayOrderItem[];
+  returnUrl?: string;
+}
+
+// What the browser asks for; everything else comes from the stored order
+export interface TripayPaymentRequest {
+  orderId: string;
+  method: string;
+  returnUrl?: string;
+}
+
+export interface TripayTransaction {
+  reference: string;
+  merchantRef: string;
+  paymentMethod: string;
+  checkoutUrl: string;
+  payCode?: string;
+  qrUrl?: string;
+  status: string;
+  expiredTime?: number;
+  instructions: { title: string; steps: string[] }[];
+}
+
+export interface TripayCallbackPayload {
+  reference: string;
+  merchant_ref: string;
+  payment_method: string;
+  payment_method_code: string;
+  total_amount: number;
+  fee_merchant: number;
+  fee_customer: number;
+  amount_received: number;
+  is_closed_payment: number;
+  status: 'PAID' | 'UNPAID' | 'EXPIRED' | 'FAILED' | 'REFUND';
+  paid_at: number | null;
+  note: string | null;
+}
+
+export const TripayService = {
+  isConfigured: (settings: StoreSettings): boolean => !!(settings.tripayApiKey && settings.tripayPrivateKey && settings.tripayMerchantCode),
+
+  baseUrl: (settings: StoreSettings): string => (settings.tripayBaseUrl || TRIPAY_BASE_URLS[settings.tripayMode || 'sandbox']).replace(/\/$/, ''),
+
+  // Default callback target is the bundled Supabase edge function
+  callbackUrl: (settings: StoreSettings): string | undefined =>
+    settings.tripayCallbackUrl || (settings.supabaseUrl ? `${settings.supabaseUrl.replace(/\/$/, '')}/functions/v1/tripay-callback` : undefined),
+
+  // signature = HMAC-SHA256(merchantCode + merchantRef + amount, privateKey)
+  transactionSignature: (privateKey: string, merchantCode: string, merchantRef: string, amount: number): Promise<string> =>
+    hmacSha256(privateKey, `${merchantCode}${merchantRef}${amount}`),
+
+  // X-Callback-Signature = HMAC-SHA256(raw JSON body, privateKey)
+  callbackSignature: (privateKey: string, rawBody: string): Promise<string> => hmacSha256(privateKey, rawBody),
+
+  // Net of each line's discount share, plus tax as its own line, so the items add up to the amount
+  requestFor: (order: Order, method: string, customerEmail: string, returnUrl?: string): TripayTransactionRequest => ({
+    method,
+    merchantRef: order.id,
+    amount: order.total,
+    customerName: order.customerName,
+    customerEmail,
+    customerPhone: order.customerWhatsapp,
+    items: order.pricing ? [
+      ...order.pricing.lines.map(line => ({ sku: CartService.lineKey({ id: line.productId, variantId: line.variantId }), name: `${line.name} x${line.quantity}`, price: line.amount - line.discount, quantity: 1 })),
+      ...(order.pricing.tax && !order.pricing.taxInclusive ? [{ sku: 'TAX', name: `${order.pricing.taxLabel} ${order.pricing.taxRate}%`, price: order.pricing.tax, quantity: 1 }] : []),
+    ] : [],
+    returnUrl,
+  }),
+
+  // The order fields that record a transaction
+  orderFields: (tx: TripayTransaction, paymentMethodName: string): Pick<Order, 'paymentMethod' | 'paymentReference' | 'paymentUrl' | 'payCode'> => ({
+    paymentMethod: `${paymentMethodName} - ${tx.paymentMethod}`,
+    paymentReference: tx.reference,
+    paymentUrl: tx.checkoutUrl,
+    payCode: tx.payCode,
+  }),
+
+  createTransaction: async (settings: StoreSettings, req: TripayTransactionRequest): Promise<TripayTransaction> => {
+    if (!TripayService.isConfigured(settings)) throw new Error('Tripay belum dikonfigurasi');
+    const amount = Math.round(req.amount);
+    // Tripay rejects requests whose item lines don't add up to the amount (e.g. after a voucher),
+    // so fall back to a single summary line in that case.
+    const itemsTotal = req.items.reduce((sum, i) => sum + Math.round(i.price) * i.quantity, 0);
+    const items = itemsTotal === amount
+      ? req.items.map(i => ({ sku: i.sku, name: i.name, price: Math.round(i.price), quantity: i.quantity }))
+      : [{ sku: req.merchantRef, name: `Pesanan ${req.merchantRef.slice(0, 8)}`, price: amount, quantity: 1 }];
+
+    const body = {
+      method: req.method,
+      merchant_ref: req.merchantRef,
+      amount,
+      customer_name: req.customerName,
+      customer_email: req.customerEmail,
+      customer_phone: req.customerPhone,
+      order_items: items,
+      callback_url: TripayService.callbackUrl(settings),
+      return_url: req.returnUrl,
+      expired_time: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+      signature: await TripayService.transactionSignature(settings.tripayPrivateKey!, settings.tripayMerchantCode!, req.merchantRef, amount),
+    };
+
+    const res = await fetch(`${TripayService.baseUrl(settings)}/transaction/create`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${settings.tripayApiKey}` },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.success) throw new Error(json?.message || `Tripay error (${res.status})`);
+
+    const d = json.data;
+    return {
+      reference: d.reference,
+      merchantRef: d.merchant_ref,
+      paymentMethod: d.payment_method,
+      checkoutUrl: d.checkout_url,
+      payCode: d.pay_code || undefined,
+      qrUrl: d.qr_url || undefined,
+      status: d.status,
+      expiredTime: d.expired_time,
+      instructions: d.instructions || [],
+    };
+  },
+
+  // Verifies X-Callback-Signature against the raw body and returns the parsed payload
+  parseCallback: async (rawBody: string, signature: string | null, privateKey: string): Promise<TripayCallbackPayload> => {
+    if (!signature) throw new Error('Missing X-Callback-Signature');
+    const expected = await TripayService.callbackSignature(privateKey, rawBody);
+    if (!safeEqual(expected, signature.toLowerCase())) throw new Error('Invalid callback signature');
+    return JSON.parse(rawBody);
+  },
+
+  // Maps a callback to the order status it should move to, if any. Only the transaction stored on the
+  // order counts, and an unpaid one running out only cancels an order that is still waiting for it.
+  orderStatusFor: ({ status, reference }: Pick<TripayCallbackPayload, 'status' | 'reference'>, order: Pick<Order, 'status' | 'paymentReference'>): 'PAID' | 'CANCELLED' | null => {
+    if (!order.paymentReference || order.paymentReference !== reference) return null;
+    if (status === 'PAID') return 'PAID';
+    if ((status === 'EXPIRED' || status === 'FAILED') && order.status === 'PENDING') return 'CANCELLED';
+    return null;
+  },
+};
@@ -0,0 +1,58 @@
+import { CartItem, Order, Voucher } from '../types';
+import { ProductService } from './productService';
+
+export interface VoucherCheck {
+  valid: boolean;
+  reason?: string; // Why the voucher can't be used, for the customer
+}
+
+interface CheckContext {
+  items: CartItem[];
+  orders: Order[];
+  customer: { id?: string; phone?: string } | null;
+  now?: Date;
+}
+
+// Older orders only carry the code
+const isRedemptionOf = (voucher: Voucher, order: Order) => order.voucherId ? order.voucherId === voucher.id : order.voucherCode === voucher.code;
+
+export const VoucherService = {
+  // Every order that used the voucher; cancelled ones give the use back
+  redemptions: (voucher: Voucher, orders: Order[]): Order[] => orders.filter(o => isRedemptionOf(voucher, o) && o.status !== 'CANCELLED'),
+
+  // Customers only see their own orders, so the cloud's count (usedCount) can be the higher one
+  usageCount: (voucher: Voucher, orders: Order[]): number => Math.max(voucher.usedCount || 0, VoucherService.redemptions(voucher, orders).length),
+
+  customerUsage: (voucher: Voucher, orders: Order[], customer: { id?: string; phone?: string }): number =>
+    VoucherService.redemptions(voucher, orders).filter(o => (customer.id && o.customerId === customer.id) || (!o.customerId && customer.phone && o.customerWhatsapp === customer.phone)).length,
+
+  isScoped: (voucher: Voucher): boolean => !!(voucher.productIds?.length || voucher.categories?.length),
+
+  // Cart lines the voucher applies to: all of them unless it is limited to products or categories
+  eligibleItems: (voucher: Voucher, items: CartItem[]): CartItem[] => !VoucherService.isScoped(voucher)
+    ? items
+    : items.filter(item => voucher.productIds?.includes(item.id) || voucher.categories?.includes(item.category)),
+
+  // Whether the voucher may be used; the amount itself comes from PricingService.quote
+  check: (voucher: Voucher | undefined, { items, orders, customer, now = new Date() }: CheckContext): VoucherCheck => {
+    if (!voucher || !voucher.isActive) return { valid: false, reason: 'Voucher tidak valid' };
+    if (voucher.startsAt && now < new Date(voucher.startsAt)) return { valid: false, reason: `Voucher berlaku mulai ${new Date(voucher.startsAt).toLocaleString('id-ID')}` };
+    if (voucher.endsAt && now > new Date(voucher.endsAt)) return { valid: false, reason: 'Voucher sudah berakhir' };
+    const subtotal = items.reduce((sum, item) => sum + ProductService.unitPrice(item) * item.quantity, 0);
+    if (voucher.minSubtotal && subtotal < voucher.minSubtotal) return { valid: false, reason: `Minimal belanja Rp ${voucher.minSubtotal.toLocaleString()}` };
+    if (VoucherService.isScoped(voucher) && VoucherService.eligibleItems(voucher, items).length === 0) return { valid: false, reason: 'Voucher tidak berlaku untuk produk di keranjang' };
+    if (voucher.usageLimit && VoucherService.usageCount(voucher, orders) >= voucher.usageLimit) return { valid: false, reason: 'Kuota voucher sudah habis' };
+    if (voucher.perCustomerLimit && customer && VoucherService.customerUsage(voucher, orders, customer) >= voucher.perCustomerLimit) return { valid: false, reason: 'Anda sudah mencapai batas pemakaian voucher ini' };
+    return { valid: true };
+  },
+
+  // Short labels for the rules, shown in the admin list
+  describeRules: (voucher: Voucher): string[] => [
+    voucher.startsAt || voucher.endsAt ? `${voucher.startsAt ? new Date(voucher.startsAt).toLocaleDateString('id-ID') : '…'} – ${voucher.endsAt ? new Date(voucher.endsAt).toLocaleDateString('id-ID') : '…'}` : '',
+    voucher.minSubtotal ? `Min Rp ${voucher.minSubtotal.toLocaleString()}` : '',
+    voucher.type === 'PERCENT' && voucher.maxDiscount ? `Maks Rp ${voucher.maxDiscount.toLocaleString()}` : '',
+    voucher.perCustomerLimit ? `${voucher.perCustomerLimit}x/pelanggan` : '',
+    voucher.productIds?.length ? `${voucher.productIds.length} produk` : '',
+    voucher.categories?.length ? voucher.categories.join(', ') : '',
+  ].filter(Boolean),
+};
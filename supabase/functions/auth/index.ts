@@ -0,0 +1,83 @@
+// Supabase Edge Function: signs store accounts in with Supabase Auth.
+//   POST { action: 'login', username, password }           -> { session }
+//   POST { action: 'register', name, whatsapp, password }  -> { session }
+// Passwords stay (hashed) in the store tables. The matching Auth user only exists to issue
+// a session whose app_metadata carries the role and account id used by the RLS policies.
+// Deploy: supabase functions deploy auth --no-verify-jwt
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { User } from '../../../types.ts';
+import { AuthService } from '../../../services/authService.ts';
+import { PasswordService } from '../../../services/passwordService.ts';
+import { randomHex } from '../../../services/cryptoUtils.ts';
+
+const corsHeaders = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type' };
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const noSession = { auth: { persistSession: false, autoRefreshToken: false } };
+const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, noSession);
+const anon = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, noSession);
+
+// Verifies against the stored hash and upgrades legacy plain-text passwords in place
+const check = async (password: string, stored: string | undefined, table: string, column: string, id: string) => {
+  const result = await PasswordService.verify(password, stored);
+  if (result.valid && result.needsRehash) await admin.from(table).update({ [column]: await PasswordService.hash(password) }).eq('id', id);
+  return result.valid;
+};
+
+const findAccount = async (username: string, password: string): Promise<User | null> => {
+  const { data: settings } = await admin.from('store_settings').select('admin_username, admin_password').eq('id', 'settings_01').single();
+  if (username === (settings?.admin_username || 'admin') && await check(password, settings?.admin_password || 'admin', 'store_settings', 'admin_password', 'settings_01')) {
+    return { role: 'ADMIN', name: 'Admin User' };
+  }
+
+  const { data: affiliate } = await admin.from('affiliates').select('id, name, password, is_active').eq('code', username.toUpperCase()).is('deleted_at', null).maybeSingle();
+  if (affiliate && await check(password, affiliate.password, 'affiliates', 'password', affiliate.id)) {
+    if (!affiliate.is_active) throw new Error('Akun affiliate non-aktif.');
+    return { role: 'AFFILIATE', name: affiliate.name, id: affiliate.id };
+  }
+
+  const { data: customer } = await admin.from('customers').select('id, name, whatsapp, password').eq('whatsapp', username).is('deleted_at', null).maybeSingle();
+  if (customer && await check(password, customer.password, 'customers', 'password', customer.id)) {
+    return { role: 'CUSTOMER', name: customer.name, id: customer.id, phone: customer.whatsapp };
+  }
+  return null;
+};
+
+// The Auth password is a throwaway rotated on every login; it is never shown to anyone
+const issueSession = async (account: User) => {
+  const accountId = AuthService.accountId(account);
+  const id = await AuthService.userId(account.role, accountId);
+  const attributes = { email: AuthService.email(account.role, accountId), password: randomHex(24), email_confirm: true, app_metadata: AuthService.appMetadata(account) };
+  const { error: updateError } = await admin.auth.admin.updateUserById(id, attributes);
+  if (updateError) {
+    const { error } = await admin.auth.admin.createUser({ id, ...attributes });
+    if (error) throw error;
+  }
+  const { data, error } = await anon.auth.signInWithPassword({ email: attributes.email, password: attributes.password });
+  if (error) throw error;
+  return data.session;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ message: 'Method not allowed' }, 405);
+
+  try {
+    const body = await req.json();
+    if (body.action === 'register') {
+      if (!body.name || !body.whatsapp || !body.password) return json({ message: 'Semua kolom wajib diisi.' }, 400);
+      const { data: existing } = await admin.from('customers').select('id').eq('whatsapp', body.whatsapp).is('deleted_at', null).maybeSingle();
+      if (existing) return json({ message: 'Nomor WhatsApp sudah terdaftar.' }, 409);
+      const customer = { id: crypto.randomUUID(), name: body.name, whatsapp: body.whatsapp, password: await PasswordService.hash(body.password) };
+      const { error } = await admin.from('customers').insert(customer);
+      if (error) throw error;
+      return json({ session: await issueSession({ role: 'CUSTOMER', name: customer.name, id: customer.id, phone: customer.whatsapp }) });
+    }
+
+    const account = await findAccount(String(body.username || ''), String(body.password || ''));
+    if (!account) return json({ message: 'Login Gagal. Periksa Username/No WA dan Password.' }, 401);
+    return json({ session: await issueSession(account) });
+  } catch (e) {
+    return json({ message: (e as Error).message }, 400);
+  }
+});
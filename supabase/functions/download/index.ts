@@ -0,0 +1,77 @@
+// Supabase Edge Function: issues and redeems signed download links for paid orders.
+//   POST { orderId, productId, variantId? }  -> { url, remaining }   (buyer session required)
+//   GET  ?token=...              -> the file (logged against the order)
+// Deploy: supabase functions deploy download --no-verify-jwt
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { DownloadService } from '../../../services/downloadService.ts';
+
+const corsHeaders = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type' };
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+// The caller's store account, taken from the Supabase Auth session sent by the app
+const caller = async (req: Request) => {
+  const { data } = await supabase.auth.getUser((req.headers.get('Authorization') || '').replace(/^Bearer /, ''));
+  return data.user?.app_metadata as { role?: string; account_id?: string } | undefined;
+};
+
+// Checks the order is paid, contains the product (variant) and still has downloads left.
+// With an account, the order must also belong to it (admins may download any order).
+const checkEntitlement = async (orderId: string, productId: string, variantId: string | undefined, account?: { role?: string; account_id?: string }) => {
+  const { data: settings } = await supabase.from('store_settings').select('download_secret, download_link_ttl_minutes, download_limit').eq('id', 'settings_01').single();
+  if (!settings?.download_secret) throw new Error('Download belum dikonfigurasi');
+  const { data: order } = await supabase.from('orders').select('id, status, items, customer_id').eq('id', orderId).single();
+  if (!order || !DownloadService.hasItem(order, productId, variantId)) throw new Error('Pesanan tidak ditemukan');
+  if (account && account.role !== 'ADMIN' && order.customer_id !== account.account_id) throw new Error('Pesanan tidak ditemukan');
+  if (!DownloadService.isOrderDownloadable(order)) throw new Error('Pesanan belum dibayar');
+  const logs = supabase.from('download_logs').select('id', { count: 'exact', head: true }).eq('order_id', orderId).eq('product_id', productId);
+  const { count } = await (variantId ? logs.eq('variant_id', variantId) : logs.is('variant_id', null));
+  const limit = DownloadService.limit({ downloadLimit: settings.download_limit });
+  if ((count || 0) >= limit) throw new Error('Batas download sudah habis');
+  return { settings, remaining: limit - (count || 0) };
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  if (req.method === 'POST') {
+    try {
+      const account = await caller(req);
+      if (!account?.role) throw new Error('Silakan login terlebih dahulu');
+      const { orderId, productId, variantId } = await req.json();
+      const { settings, remaining } = await checkEntitlement(orderId, productId, variantId, account);
+      const ttl = DownloadService.ttlMinutes({ downloadLinkTtlMinutes: settings.download_link_ttl_minutes });
+      const token = await DownloadService.createToken(settings.download_secret, orderId, productId, ttl, variantId);
+      return json({ url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/download?token=${encodeURIComponent(token)}`, remaining });
+    } catch (e) {
+      return json({ message: (e as Error).message }, 403);
+    }
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const { data: secretRow } = await supabase.from('store_settings').select('download_secret').eq('id', 'settings_01').single();
+      const payload = await DownloadService.verifyToken(secretRow?.download_secret || '', new URL(req.url).searchParams.get('token') || '');
+      await checkEntitlement(payload.orderId, payload.productId, payload.variantId);
+      const { data: file } = await supabase.from('product_files').select('file_url, variant_files').eq('product_id', payload.productId).single();
+      // A variant without its own file delivers the product's
+      const fileUrl: string | undefined = (payload.variantId && file?.variant_files?.[payload.variantId]) || file?.file_url;
+      if (!fileUrl) throw new Error('File produk belum tersedia');
+
+      await supabase.from('download_logs').insert({ id: crypto.randomUUID(), order_id: payload.orderId, product_id: payload.productId, variant_id: payload.variantId || null });
+
+      // Uploaded files are stored as data URLs; stream them instead of redirecting
+      const inline = fileUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+      if (inline) {
+        const body = inline[2] ? Uint8Array.from(atob(inline[3]), c => c.charCodeAt(0)) : decodeURIComponent(inline[3]);
+        return new Response(body, { headers: { 'Content-Type': inline[1] || 'application/octet-stream', 'Content-Disposition': `attachment; filename="${payload.productId}"` } });
+      }
+      return Response.redirect(fileUrl, 302);
+    } catch (e) {
+      return new Response((e as Error).message, { status: 403, headers: corsHeaders });
+    }
+  }
+
+  return json({ message: 'Method not allowed' }, 405);
+});
@@ -0,0 +1,68 @@
+// Supabase Edge Function: places a customer's order. Prices, voucher and referral come from the catalog in the
+// database, and the order is refused when its total differs from the one the buyer was shown.
+//   POST CheckoutRequest -> { order, commission? }
+// Deploy: supabase functions deploy place-order
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { CheckoutService, CheckoutRequest } from '../../../services/checkoutService.ts';
+import { orderStore } from '../../../repositories/orderRepository.ts';
+import { productStore } from '../../../repositories/productRepository.ts';
+import { paymentMethodStore } from '../../../repositories/paymentMethodRepository.ts';
+import { voucherStore } from '../../../repositories/voucherRepository.ts';
+import { commissionStore } from '../../../repositories/commissionRepository.ts';
+
+const corsHeaders = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type' };
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ message: 'Method not allowed' }, 405);
+
+  const { data: { user } } = await supabase.auth.getUser((req.headers.get('Authorization') || '').replace(/^Bearer /, ''));
+  if (user?.app_metadata?.role !== 'CUSTOMER') return json({ message: 'Silakan login terlebih dahulu' }, 401);
+  const { data: customer } = await supabase.from('customers').select('id, name, whatsapp').eq('id', user.app_metadata.account_id).is('deleted_at', null).maybeSingle();
+  if (!customer) return json({ message: 'Akun pelanggan tidak ditemukan' }, 401);
+
+  const request: CheckoutRequest = await req.json();
+  const productIds = [...new Set((request.items || []).map(item => item.id))];
+  const [products, paymentMethods, settings, orders, voucher, usage, affiliate] = await Promise.all([
+    supabase.from('products').select('*').in('id', productIds).is('deleted_at', null),
+    supabase.from('payment_methods').select('*').is('deleted_at', null),
+    supabase.from('store_settings').select('tax_rate, tax_inclusive, tax_label').eq('id', 'settings_01').single(),
+    supabase.from('orders').select('*').eq('customer_id', customer.id).is('deleted_at', null),
+    request.voucherId ? supabase.from('vouchers').select('*').eq('id', request.voucherId).is('deleted_at', null).maybeSingle() : null,
+    request.voucherId ? supabase.from('voucher_usage').select('used').eq('voucher_id', request.voucherId).maybeSingle() : null,
+    request.referralCode ? supabase.from('affiliate_directory').select('id, code, commission_rate').eq('code', request.referralCode.toUpperCase()).maybeSingle() : null,
+  ]);
+  const failed = [products, paymentMethods, settings, orders, voucher, usage, affiliate].find(result => result?.error);
+  if (failed) return json({ message: failed.error!.message }, 500);
+
+  try {
+    const { order, commission } = CheckoutService.place(request, {
+      products: (products.data || []).map(productStore.codec.fromRow),
+      paymentMethods: (paymentMethods.data || []).map(paymentMethodStore.codec.fromRow),
+      voucher: voucher?.data ? { ...voucherStore.codec.fromRow(voucher.data), usedCount: Number(usage?.data?.used || 0) } : undefined,
+      orders: (orders.data || []).map(orderStore.codec.fromRow),
+      affiliate: affiliate?.data ? { id: affiliate.data.id, code: affiliate.data.code, commissionRate: Number(affiliate.data.commission_rate) } : undefined,
+      settings: { taxRate: Number(settings.data?.tax_rate || 0), taxInclusive: !!settings.data?.tax_inclusive, taxLabel: settings.data?.tax_label || 'PPN' },
+    }, { id: customer.id, name: customer.name, phone: customer.whatsapp || '' }, crypto.randomUUID());
+
+    const { error } = await supabase.from('orders').insert(orderStore.codec.toRow(order));
+    if (error?.code === '23505') return json({ message: 'Pesanan sudah dibuat' }, 409);
+    // The voucher limits are enforced again by the orders_enforce_voucher_limits trigger, under a lock
+    if (error?.code === '23514') return json({ message: error.message }, 409);
+    if (error) return json({ message: error.message }, 500);
+    if (commission) {
+      const { error: commissionError } = await supabase.from('commissions').insert(commissionStore.codec.toRow(commission));
+      // Without its commission the referral would go unpaid, so the order is taken back
+      if (commissionError) {
+        await supabase.from('orders').delete().eq('id', order.id);
+        return json({ message: commissionError.message }, 500);
+      }
+    }
+    return json({ order, commission });
+  } catch (e) {
+    return json({ message: (e as Error).message }, 409);
+  }
+});
@@ -0,0 +1,51 @@
+// Supabase Edge Function: receives Tripay payment callbacks and updates the matching order.
+// Deploy: supabase functions deploy tripay-callback --no-verify-jwt
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { TripayService } from '../../../services/tripayService.ts';
+import { OrderService } from '../../../services/orderService.ts';
+import type { Order } from '../../../types.ts';
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') return json({ success: false, message: 'Method not allowed' }, 405);
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: settings } = await supabase.from('store_settings').select('tripay_private_key').eq('id', 'settings_01').single();
+  const privateKey = Deno.env.get('TRIPAY_PRIVATE_KEY') || settings?.tripay_private_key;
+  if (!privateKey) return json({ success: false, message: 'Tripay is not configured' }, 500);
+
+  const rawBody = await req.text();
+  let payload;
+  try {
+    payload = await TripayService.parseCallback(rawBody, req.headers.get('X-Callback-Signature'), privateKey);
+  } catch (e) {
+    return json({ success: false, message: (e as Error).message }, 401);
+  }
+  if (req.headers.get('X-Callback-Event') !== 'payment_status') return json({ success: false, message: 'Unrecognized callback event' }, 400);
+
+  const { data: row } = await supabase.from('orders').select('*').eq('id', payload.merchant_ref).single();
+  if (!row) return json({ success: false, message: 'Order not found' }, 404);
+
+  // Tripay retries callbacks, and transactions other than the order's own may report in; ignore what no longer applies
+  const target = TripayService.orderStatusFor(payload, { status: row.status, paymentReference: row.payment_reference });
+  if (!target || row.status === target || !OrderService.canTransition(row.status, target)) return json({ success: true });
+  if (target === 'PAID' && Math.round(Number(row.total)) !== Number(payload.total_amount) - Number(payload.fee_customer || 0)) {
+    return json({ success: false, message: 'Amount mismatch' }, 400);
+  }
+
+  const current: Pick<Order, 'status' | 'statusHistory'> = { status: row.status, statusHistory: row.status_history || [] };
+  const updated = OrderService.changeStatus(current, target, 'Tripay');
+  // Only if nothing else moved the order meanwhile (a concurrent retry or an admin)
+  const { data: changed, error } = await supabase.from('orders').update({ status: updated.status, status_history: updated.statusHistory }).eq('id', row.id).eq('status', row.status).select('id');
+  if (error) return json({ success: false, message: error.message }, 500);
+  if (!changed?.length) return json({ success: true });
+
+  // Keep the affiliate ledger in step with the order (see CommissionService.applyOrderStatus)
+  const { error: ledgerError } = target === 'PAID'
+    ? await supabase.from('commissions').update({ status: 'APPROVED', updated_at: new Date().toISOString() }).eq('order_id', row.id).eq('status', 'PENDING')
+    // Voids the entry and releases it from its draft payout and batch in one transaction (migration 0022)
+    : await supabase.rpc('void_order_commission', { p_order_id: row.id });
+  if (ledgerError) return json({ success: false, message: ledgerError.message }, 500);
+  return json({ success: true });
+});
@@ -0,0 +1,52 @@
+// Supabase Edge Function: creates the Tripay closed-payment transaction for a customer's pending order.
+// The API and private keys only live in store_settings, which the browser can no longer read.
+// Amount and items come from the stored order, and the transaction is recorded on it.
+//   POST TripayPaymentRequest -> TripayTransaction
+// Deploy: supabase functions deploy tripay-transaction
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { StoreSettings } from '../../../types.ts';
+import { TripayService, TripayPaymentRequest } from '../../../services/tripayService.ts';
+import { orderStore } from '../../../repositories/orderRepository.ts';
+
+const corsHeaders = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type' };
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ message: 'Method not allowed' }, 405);
+
+  const { data: { user } } = await supabase.auth.getUser((req.headers.get('Authorization') || '').replace(/^Bearer /, ''));
+  if (user?.app_metadata?.role !== 'CUSTOMER') return json({ message: 'Silakan login terlebih dahulu' }, 401);
+
+  const { orderId, method, returnUrl }: TripayPaymentRequest = await req.json();
+  const { data: orderRow } = await supabase.from('orders').select('*').eq('id', orderId).is('deleted_at', null).maybeSingle();
+  const order = orderRow && orderStore.codec.fromRow(orderRow);
+  if (!order || order.customerId !== user.app_metadata.account_id) return json({ message: 'Pesanan tidak ditemukan' }, 404);
+  if (order.status !== 'PENDING') return json({ message: 'Pesanan tidak menunggu pembayaran' }, 409);
+  // One transaction per order, so callbacks can be matched by its reference
+  if (order.paymentReference) return json({ message: 'Transaksi pembayaran untuk pesanan ini sudah dibuat' }, 409);
+
+  const { data: row } = await supabase.from('store_settings').select('email, tripay_api_key, tripay_private_key, tripay_merchant_code, tripay_mode, tripay_base_url, tripay_callback_url').eq('id', 'settings_01').single();
+  const settings = {
+    tripayApiKey: row?.tripay_api_key,
+    tripayPrivateKey: row?.tripay_private_key,
+    tripayMerchantCode: row?.tripay_merchant_code,
+    tripayMode: row?.tripay_mode || 'sandbox',
+    tripayBaseUrl: row?.tripay_base_url || undefined,
+    tripayCallbackUrl: row?.tripay_callback_url || undefined,
+    supabaseUrl: Deno.env.get('SUPABASE_URL'),
+  } as StoreSettings;
+
+  try {
+    const tx = await TripayService.createTransaction(settings, TripayService.requestFor(order, method, row?.email || '', returnUrl));
+    const { data: recorded, error } = await supabase.from('orders').update(orderStore.codec.toPatch(TripayService.orderFields(tx, order.paymentMethod)))
+      .eq('id', order.id).eq('status', 'PENDING').is('payment_reference', null).select('id');
+    if (error) throw new Error(error.message);
+    if (!recorded?.length) return json({ message: 'Pesanan berubah saat transaksi dibuat' }, 409);
+    return json(tx);
+  } catch (e) {
+    return json({ message: (e as Error).message }, 400);
+  }
+});
@@ -1,4 +1,20 @@
 
+// A license tier of a product (e.g. Personal, Commercial, Extended)
+export interface ProductVariant {
+  id: string;
+  name: string;
+  price: number;
+  discountPrice?: number;
+  fileUrl?: string; // Own deliverable; falls back to the product's file
+}
+
+// A product included in a bundle; name is kept for order history
+export interface BundleItem {
+  productId: string;
+  variantId?: string;
+  name: string;
+}
+
 export interface Product {
   id: string;
   name: string;
@@ -9,6 +25,14 @@ export interface Product {
   discountPrice?: number;
   fileUrl?: string; // Link to the digital product
   isPopular?: boolean;
+  singleLicense?: boolean; // One license per order, quantity fixed at 1
+  variants?: ProductVariant[]; // When set, one must be chosen; price mirrors the cheapest
+  bundleItems?: BundleItem[]; // Makes this a bundle: its own price, grants every item's download
+  createdAt?: string;
+  // Detail page (/product/:slug)
+  slug?: string; // Unique, URL-safe
+  gallery?: string[]; // Extra images after the main one
+  previewUrl?: string; // Public sample file
 }
 
 export interface PaymentMethod {
@@ -34,13 +58,29 @@ export interface StoreSettings {
   tripayApiKey?: string;
   tripayPrivateKey?: string;
   tripayMerchantCode?: string;
+  tripayMode?: 'sandbox' | 'production';
+  tripayBaseUrl?: string; // Override API host, e.g. a local mock server
+  tripayCallbackUrl?: string; // Defaults to the tripay-callback edge function
+  tripayEnabled?: boolean; // Cloud visitors only see this flag (store_profile), never the keys
+  // Digital delivery
+  downloadSecret?: string; // HMAC key for download tokens
+  downloadLinkTtlMinutes?: number;
+  downloadLimit?: number; // Max downloads per order item
+  // Tax (PPN), applied after discounts
+  taxRate?: number; // Percent; 0 or empty disables tax
+  taxInclusive?: boolean; // Catalog prices already include the tax
+  taxLabel?: string;
+  autoPopular?: boolean; // Derive products' isPopular from sales and ratings
   // Admin Auth
   adminUsername?: string;
-  adminPassword?: string;
+  adminPassword?: string; // PBKDF2 hash, see PasswordService
 }
 
+// A product line; with variants, price/discountPrice are the chosen variant's
 export interface CartItem extends Product {
   quantity: number;
+  variantId?: string;
+  variantName?: string;
 }
 
 export interface User {
@@ -54,7 +94,7 @@ export interface Customer {
   id: string;
   name: string;
   whatsapp: string; // Unique ID used for login
-  password: string;
+  password: string; // PBKDF2 hash
   createdAt: string;
 }
 
@@ -64,6 +104,50 @@ export interface Voucher {
   type: 'FIXED' | 'PERCENT'; // Potongan Tetap (Rp) atau Persen (%)
   value: number;
   isActive: boolean;
+  startsAt?: string; // ISO; usable from
+  endsAt?: string; // ISO; usable until
+  minSubtotal?: number;
+  maxDiscount?: number; // Cap for PERCENT vouchers
+  usageLimit?: number; // Total redemptions across all customers
+  perCustomerLimit?: number;
+  productIds?: string[]; // Scope: only these products...
+  categories?: string[]; // ...or categories; both empty means the whole cart
+  usedCount?: number; // Derived: redemptions counted in the cloud (voucher_usage view)
+}
+
+export type OrderStatus = 'PENDING' | 'PAID' | 'COMPLETED' | 'CANCELLED';
+
+export interface OrderStatusChange {
+  from: OrderStatus;
+  to: OrderStatus;
+  changedBy: string; // Name of the admin (or system) that made the change
+  changedAt: string;
+}
+
+// Itemized checkout totals in whole rupiah, see PricingService
+export interface PriceLine {
+  productId: string;
+  variantId?: string;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  amount: number; // unitPrice x quantity
+  discount: number; // This line's share of the voucher discount
+}
+
+export interface PriceBreakdown {
+  lines: PriceLine[];
+  subtotal: number;
+  discount: number;
+  voucherCode?: string;
+  tax: number;
+  taxRate: number;
+  taxInclusive: boolean;
+  taxLabel?: string;
+  total: number; // What the buyer pays
+  commissionBase: number; // Revenue after discount, without tax
+  commissionRate: number;
+  commission: number;
 }
 
 export interface Order {
@@ -73,19 +157,105 @@ export interface Order {
   customerName: string;
   customerWhatsapp: string;
   paymentMethod: string;
-  status: 'PENDING' | 'PAID' | 'COMPLETED';
+  status: OrderStatus;
   date: string;
   voucherCode?: string;
+  voucherId?: string;
   discountAmount?: number;
+  taxAmount?: number; // Included in total; not commissionable
+  pricing?: PriceBreakdown; // Itemized totals at checkout, see PricingService
+  statusHistory?: OrderStatusChange[];
+  // Tripay closed payment
+  paymentReference?: string;
+  paymentUrl?: string;
+  payCode?: string;
+  customerId?: string; // Owner for row-level security; older orders only have the WhatsApp number
+  // Invoice, issued once the order is paid
+  invoiceNumber?: string; // INV/<year>/<sequence>, gap-free per year
+  invoicedAt?: string;
+  // Affiliate attribution
+  referralCode?: string;
+  affiliateId?: string;
 }
 
 export interface Affiliate {
   id: string;
   name: string;
   code: string; // Unique referral code
-  password: string; // Simple auth
+  password: string; // PBKDF2 hash
   commissionRate: number; // Percentage (e.g., 10 for 10%)
-  totalEarnings: number;
+  totalEarnings: number; // Derived from approved + paid commissions
   bankDetails: string; // Rekening untuk transfer komisi
   isActive: boolean;
 }
+
+export interface DownloadLog {
+  id: string;
+  orderId: string;
+  productId: string;
+  variantId?: string;
+  downloadedAt: string;
+}
+
+export interface ReferralClick {
+  id: string;
+  affiliateId: string;
+  code: string;
+  landingPath: string;
+  clickedAt: string;
+}
+
+export interface AffiliatePayout {
+  id: string;
+  batchId?: string;
+  affiliateId: string;
+  amount: number;
+  bankDetails: string; // Snapshot of the account the payout was sent to
+  commissionIds: string[];
+  status: 'PENDING' | 'PAID' | 'CANCELLED';
+  createdAt: string;
+  paidAt?: string;
+  note?: string;
+}
+
+export interface PayoutBatch {
+  id: string;
+  status: 'DRAFT' | 'CONFIRMED' | 'CANCELLED';
+  minimumAmount: number;
+  totalAmount: number;
+  createdBy: string;
+  createdAt: string;
+  confirmedBy?: string;
+  confirmedAt?: string;
+}
+
+export type CommissionStatus = 'PENDING' | 'APPROVED' | 'VOID' | 'PAID';
+
+export interface Commission {
+  id: string;
+  affiliateId: string;
+  orderId: string;
+  baseAmount: number; // Order total after discounts
+  rate: number; // Percentage at the time of the order
+  amount: number;
+  status: CommissionStatus;
+  payoutId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One per customer and product, from a buyer with a paid order for it
+export interface ProductReview {
+  id: string;
+  productId: string;
+  customerId: string;
+  customerName: string;
+  orderId: string; // The paid order that makes this a verified purchase
+  rating: number; // 1-5 stars
+  comment: string;
+  isHidden?: boolean; // Hidden by the admin: not shown or counted
+  reply?: string; // Store's answer, shown below the review
+  repliedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}